@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useImageStore } from '@/store/useImageStore';
+import { applyAdjustments, isNeutralAdjustments, neutralAdjustments } from '@/lib/adjustments';
+import type { ColorAdjustments, ImageConfig } from '@/types';
+
+/**
+ * 预览的最大边长，调整时逐像素重算，保持较小的尺寸
+ */
+const PREVIEW_SIZE = 480;
+
+const formatSigned = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+const sliderOptions: {
+  key: Exclude<keyof ColorAdjustments, 'tone'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  { key: 'exposure', label: '曝光', min: -2, max: 2, step: 0.1, format: (value) => `${formatSigned(value)} EV` },
+  { key: 'brightness', label: '亮度', min: -100, max: 100, step: 1, format: formatSigned },
+  { key: 'contrast', label: '对比度', min: -100, max: 100, step: 1, format: formatSigned },
+  { key: 'saturation', label: '饱和度', min: -100, max: 100, step: 1, format: formatSigned },
+  { key: 'temperature', label: '色温', min: -100, max: 100, step: 1, format: formatSigned },
+];
+
+const toneOptions: { value: ColorAdjustments['tone']; label: string }[] = [
+  { value: 'none', label: '原色' },
+  { value: 'grayscale', label: '黑白' },
+  { value: 'sepia', label: '褐色' },
+];
+
+/**
+ * 颜色调整编辑器
+ * 在缩小的预览上实时显示调整结果，保存到图片设置后由流水线在尺寸调整之后应用
+ */
+export function AdjustmentsEditor({ image, onClose }: { image: ImageConfig; onClose: () => void }) {
+  const updateSettings = useImageStore((state) => state.updateSettings);
+  const applyAdjustmentsToAll = useImageStore((state) => state.applyAdjustmentsToAll);
+  const imageCount = useImageStore((state) => state.images.length);
+
+  const [adjustments, setAdjustments] = useState<ColorAdjustments>(image.settings.adjustments ?? neutralAdjustments);
+  const [loaded, setLoaded] = useState(false);
+  const [previewFailed, setPreviewFailed] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // 未调整的预览像素
+  const baseRef = useRef<ImageData | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!canvas || !context) return;
+      const scale = Math.min(1, PREVIEW_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      baseRef.current = context.getImageData(0, 0, canvas.width, canvas.height);
+      setLoaded(true);
+    };
+    img.onerror = () => setPreviewFailed(true);
+    img.src = image.previewUrl;
+    return () => {
+      img.onload = null;
+      img.onerror = null;
+    };
+  }, [image.previewUrl]);
+
+  // 每次调整都从未调整的像素重新计算
+  useEffect(() => {
+    const base = baseRef.current;
+    const context = canvasRef.current?.getContext('2d');
+    if (!loaded || !base || !context) return;
+    const preview = new ImageData(new Uint8ClampedArray(base.data), base.width, base.height);
+    applyAdjustments(preview.data, adjustments);
+    context.putImageData(preview, 0, 0);
+  }, [adjustments, loaded]);
+
+  const save = () => {
+    updateSettings(image.id, { adjustments: isNeutralAdjustments(adjustments) ? undefined : adjustments });
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.2 }}
+        className="w-full max-w-3xl space-y-4 rounded-xl bg-card p-4 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 标题 */}
+        <div className="flex items-center justify-between gap-2">
+          <p className="flex items-center gap-2 truncate text-sm font-medium text-foreground">
+            <SlidersHorizontal className="h-4 w-4 shrink-0 text-indigo-500" />
+            颜色调整 · {image.file.name}
+          </p>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-[1fr_14rem]">
+          {/* 预览 */}
+          <div className="flex min-h-48 items-center justify-center rounded-lg bg-muted/50 p-2">
+            {previewFailed ? (
+              <p className="text-sm text-muted-foreground">当前浏览器无法预览此格式，调整仍会在处理时应用</p>
+            ) : (
+              <canvas ref={canvasRef} className="max-h-[50vh] max-w-full" />
+            )}
+          </div>
+
+          {/* 调整项 */}
+          <div className="space-y-4">
+            {sliderOptions.map((option) => (
+              <div key={option.key} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">{option.label}</span>
+                  <span className="text-sm font-mono text-indigo-500">{option.format(adjustments[option.key])}</span>
+                </div>
+                <Slider
+                  min={option.min}
+                  max={option.max}
+                  step={option.step}
+                  value={[adjustments[option.key]]}
+                  onValueChange={([value]) => setAdjustments({ ...adjustments, [option.key]: value })}
+                />
+              </div>
+            ))}
+            <div className="grid grid-cols-3 gap-2">
+              {toneOptions.map((option) => (
+                <Button
+                  key={option.value}
+                  variant={adjustments.tone === option.value ? 'default' : 'outline'}
+                  size="sm"
+                  className={adjustments.tone === option.value ? 'bg-indigo-600 hover:bg-indigo-700' : ''}
+                  onClick={() => setAdjustments({ ...adjustments, tone: option.value })}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* 操作 */}
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setAdjustments(neutralAdjustments)}>
+            重置
+          </Button>
+          {imageCount > 1 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                save();
+                applyAdjustmentsToAll(image.id);
+                onClose();
+              }}
+            >
+              应用到全部图片
+            </Button>
+          )}
+          <Button
+            size="sm"
+            className="bg-indigo-600 hover:bg-indigo-700"
+            onClick={() => {
+              save();
+              onClose();
+            }}
+          >
+            应用
+          </Button>
+        </div>
+      </motion.div>
+    </div>,
+    document.body
+  );
+}
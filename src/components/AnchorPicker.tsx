@@ -0,0 +1,40 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import type { Anchor } from '@/types';
+
+/**
+ * 九宫格按行排列
+ */
+const anchorOptions: { value: Anchor; label: string }[] = [
+  { value: 'top-left', label: '左上' },
+  { value: 'top', label: '上' },
+  { value: 'top-right', label: '右上' },
+  { value: 'left', label: '左' },
+  { value: 'center', label: '中' },
+  { value: 'right', label: '右' },
+  { value: 'bottom-left', label: '左下' },
+  { value: 'bottom', label: '下' },
+  { value: 'bottom-right', label: '右下' },
+];
+
+/**
+ * 九宫格位置选择
+ */
+export function AnchorPicker({ value, onChange }: { value: Anchor; onChange: (value: Anchor) => void }) {
+  return (
+    <div className="mx-auto grid w-36 grid-cols-3 gap-1">
+      {anchorOptions.map((option) => (
+        <Button
+          key={option.value}
+          size="sm"
+          variant={value === option.value ? 'default' : 'outline'}
+          className={value === option.value ? 'bg-indigo-600 hover:bg-indigo-700' : ''}
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Settings2, Wand2, FileType, ArrowDownUp, Minimize2 } from 'lucide-react';
+import { AlertTriangle, Settings2, Wand2, FileType, ArrowDownUp, Minimize2, Pause, Play, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
 
 import {
   Select,
@@ -12,8 +14,28 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { AnchorPicker } from '@/components/AnchorPicker';
+import { WatermarkPanel } from '@/components/WatermarkPanel';
 import { useImageStore } from '@/store/useImageStore';
-import type { ImageFormat, ProcessMode } from '@/types';
+import { DEFAULT_QUALITY, isLossyFormat, supportsTransparency } from '@/lib/imageProcessing';
+import type {
+  FitMode,
+  ImageFormat,
+  MetadataPolicy,
+  ProcessMode,
+  ResamplingFilter,
+  ResizeGuard,
+  SharpenSettings,
+} from '@/types';
+
+/**
+ * 格式化剩余时间
+ */
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))} 秒`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes} 分 ${Math.round(seconds % 60)} 秒`;
+};
 
 /**
  * 控制面板组件
@@ -27,9 +49,48 @@ export function ControlPanel() {
   const exportImages = useImageStore((state) => state.exportImages);
   const images = useImageStore((state) => state.images);
   const isProcessing = useImageStore((state) => state.isProcessing);
+  const queueStats = useImageStore((state) => state.queueStats);
+  const isPaused = useImageStore((state) => state.isPaused);
+  const pauseProcessing = useImageStore((state) => state.pauseProcessing);
+  const resumeProcessing = useImageStore((state) => state.resumeProcessing);
+  const cancelProcessing = useImageStore((state) => state.cancelProcessing);
+  const batchStartedAt = useImageStore((state) => state.batchStartedAt);
 
   const hasImages = images.length > 0;
   const hasDoneImages = images.some((img) => img.status === 'done');
+  const hasSvgImages = images.some((img) => img.file.type === 'image/svg+xml');
+  // 含透明像素的图片数，以及当前的目标格式是否会丢失透明
+  const transparentCount = images.filter((img) => img.hasAlpha).length;
+  const dropsTransparency =
+    globalSettings.mode !== 'compress' &&
+    (globalSettings.responsive.enabled
+      ? globalSettings.responsive.formats.some((format) => !supportsTransparency(format))
+      : !supportsTransparency(globalSettings.format));
+  // 同时设置宽高时 cover / contain 才会裁切或留白
+  const hasBothSides = Boolean(globalSettings.width && globalSettings.height);
+
+  // 处理期间每秒刷新，用于估算剩余时间
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!isProcessing) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isProcessing]);
+
+  /**
+   * 批量进度：已完成数量 + 进行中图片的阶段进度
+   */
+  const batchTotal = queueStats.queued + queueStats.running + queueStats.finished;
+  const runningProgress = images.reduce(
+    (sum, img) => sum + (img.status === 'processing' && img.progress ? img.progress.percent / 100 : 0),
+    0
+  );
+  const batchProgress = batchTotal > 0 ? Math.min((queueStats.finished + runningProgress) / batchTotal, 1) : 0;
+  const elapsedSeconds = batchStartedAt ? (now - batchStartedAt) / 1000 : 0;
+  const etaSeconds =
+    !isPaused && batchProgress > 0.02 && elapsedSeconds > 0
+      ? (elapsedSeconds / batchProgress) * (1 - batchProgress)
+      : null;
 
   /**
    * 格式选项
@@ -40,8 +101,39 @@ export function ControlPanel() {
     { value: 'image/jpeg', label: 'JPEG', desc: '通用格式，兼容性最佳' },
     { value: 'image/png', label: 'PNG', desc: '无损格式，支持透明' },
     { value: 'image/gif', label: 'GIF', desc: '支持动画' },
+    { value: 'image/x-icon', label: 'ICO', desc: 'Favicon 套件，含各尺寸图标与清单' },
   ];
 
+  /**
+   * 响应式图片集可选的输出格式
+   */
+  const responsiveFormatOptions = formatOptions.filter((option) =>
+    ['image/avif', 'image/webp', 'image/jpeg', 'image/png'].includes(option.value)
+  );
+  const responsiveEnabled = globalSettings.responsive.enabled && globalSettings.mode !== 'compress';
+
+  /**
+   * 需要设置质量的格式：仅压缩模式下原格式未知，列出全部有损格式；响应式图片集列出所选格式
+   */
+  const qualityFormats = formatOptions.filter((option) =>
+    globalSettings.mode === 'compress'
+      ? isLossyFormat(option.value)
+      : isLossyFormat(option.value) &&
+        (responsiveEnabled
+          ? globalSettings.responsive.formats.includes(option.value)
+          : option.value === globalSettings.format)
+  );
+
+  /**
+   * 切换响应式图片集的输出格式，至少保留一种
+   */
+  const toggleResponsiveFormat = (format: ImageFormat) => {
+    const { formats } = globalSettings.responsive;
+    const next = formats.includes(format) ? formats.filter((item) => item !== format) : [...formats, format];
+    if (next.length === 0) return;
+    updateGlobalSettings({ responsive: { ...globalSettings.responsive, formats: next } });
+  };
+
   /**
    * 处理模式选项
    */
@@ -56,6 +148,67 @@ export function ControlPanel() {
    */
   const scaleOptions = [0.25, 0.5, 0.75, 1, 1.5, 2];
 
+  /**
+   * 自定义尺寸的适应方式选项
+   */
+  const fitOptions: { value: FitMode; label: string; desc: string }[] = [
+    { value: 'inside', label: '不超出', desc: '等比缩放到宽高都不超过设定值' },
+    { value: 'outside', label: '不小于', desc: '等比缩放到宽高都不小于设定值' },
+    { value: 'cover', label: '裁切', desc: '等比铺满设定尺寸，按对齐位置裁掉多余部分' },
+    { value: 'contain', label: '留白', desc: '完整显示在设定尺寸内，空白处填充颜色或透明' },
+    { value: 'fill', label: '拉伸', desc: '不保持宽高比，拉伸到设定尺寸' },
+  ];
+
+  /**
+   * 缩放限制选项
+   */
+  const guardOptions: { value: ResizeGuard; label: string }[] = [
+    { value: 'none', label: '不限制' },
+    { value: 'shrink-only', label: '只缩小' },
+    { value: 'enlarge-only', label: '只放大' },
+  ];
+
+  /**
+   * 缩放算法选项
+   */
+  const resamplingOptions: { value: ResamplingFilter; label: string; desc: string }[] = [
+    { value: 'lanczos3', label: 'Lanczos3', desc: '最清晰，适合照片缩小，边缘可能有轻微振铃' },
+    { value: 'mitchell', label: 'Mitchell', desc: '清晰度与平滑的折中，振铃更少' },
+    { value: 'bilinear', label: '双线性', desc: '较柔和，速度较快' },
+    { value: 'nearest', label: '最近邻', desc: '不插值，保留像素画的硬边' },
+    { value: 'browser', label: '浏览器', desc: '使用浏览器内置的缩放，最快，质量因浏览器而异' },
+  ];
+
+  /**
+   * 锐化参数
+   */
+  const sharpenSliders: {
+    key: Exclude<keyof SharpenSettings, 'enabled'>;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    format: (value: number) => string;
+  }[] = [
+    { key: 'amount', label: '强度', min: 0, max: 300, step: 5, format: (value) => `${value}%` },
+    { key: 'radius', label: '半径', min: 0.3, max: 5, step: 0.1, format: (value) => `${value.toFixed(1)} px` },
+    { key: 'threshold', label: '阈值', min: 0, max: 64, step: 1, format: (value) => `${value}` },
+  ];
+
+  /**
+   * SVG 栅格化 DPI 选项
+   */
+  const svgDpiOptions = [72, 96, 144, 192, 300];
+
+  /**
+   * 元数据策略选项
+   */
+  const metadataOptions: { value: MetadataPolicy; label: string; desc: string }[] = [
+    { value: 'keep', label: '保留全部', desc: 'EXIF、XMP 与色彩配置原样保留' },
+    { value: 'strip-private', label: '移除位置与设备信息', desc: '删除 GPS、相机型号与序列号，保留版权与色彩配置' },
+    { value: 'strip', label: '全部移除', desc: '输出不含任何元数据' },
+  ];
+
   return (
     <motion.div
       initial={{ opacity: 0, x: 20 }}
@@ -117,6 +270,202 @@ export function ControlPanel() {
                   ))}
                 </SelectContent>
               </Select>
+
+              {/* 透明像素提示与铺底颜色 */}
+              {transparentCount > 0 && dropsTransparency && (
+                <div className="rounded-lg bg-amber-500/10 p-3 space-y-2">
+                  <p className="flex items-start gap-1.5 text-xs font-medium text-amber-500">
+                    <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                    {transparentCount} 张图片含透明像素，JPEG 不支持透明
+                    {globalSettings.keepTransparency && !globalSettings.responsive.enabled
+                      ? '，这些图片将改为输出 WebP'
+                      : '，透明区域将填充背景色'}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={globalSettings.matte}
+                      title="背景色"
+                      onChange={(e) => updateGlobalSettings({ matte: e.target.value })}
+                      className="h-8 w-10 cursor-pointer rounded-md border border-input bg-background p-1"
+                    />
+                    <span className="text-xs text-muted-foreground">背景色</span>
+                  </div>
+                  {!globalSettings.responsive.enabled && (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="keepTransparency"
+                        checked={globalSettings.keepTransparency}
+                        onChange={(e) => updateGlobalSettings({ keepTransparency: e.target.checked })}
+                        className="h-4 w-4 rounded border-input text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <label htmlFor="keepTransparency" className="text-sm text-muted-foreground">
+                        含透明像素的图片改用 WebP
+                      </label>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* 响应式图片集 */}
+              <div className="rounded-lg bg-muted/50 p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <label className="text-sm font-medium text-foreground">响应式图片集</label>
+                    <p className="text-xs text-muted-foreground">按多个宽度与格式输出，附带 &lt;picture&gt; 代码</p>
+                  </div>
+                  <Button
+                    variant={globalSettings.responsive.enabled ? 'default' : 'outline'}
+                    size="sm"
+                    className={globalSettings.responsive.enabled ? 'bg-indigo-600' : ''}
+                    onClick={() =>
+                      updateGlobalSettings({
+                        responsive: { ...globalSettings.responsive, enabled: !globalSettings.responsive.enabled },
+                      })
+                    }
+                  >
+                    {globalSettings.responsive.enabled ? '已开启' : '已关闭'}
+                  </Button>
+                </div>
+
+                {globalSettings.responsive.enabled && (
+                  <>
+                    <div className="space-y-1.5">
+                      <label className="text-xs text-muted-foreground">宽度 (px，逗号分隔，不会超过原图)</label>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        key={globalSettings.responsive.widths.join(',')}
+                        defaultValue={globalSettings.responsive.widths.join(', ')}
+                        onBlur={(e) => {
+                          const widths = e.target.value
+                            .split(/[,，\s]+/)
+                            .map((value) => parseInt(value))
+                            .filter((value) => value > 0);
+                          updateGlobalSettings({
+                            responsive: {
+                              ...globalSettings.responsive,
+                              widths: widths.length > 0 ? widths : globalSettings.responsive.widths,
+                            },
+                          });
+                        }}
+                        className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {responsiveFormatOptions.map((option) => {
+                        const selected = globalSettings.responsive.formats.includes(option.value);
+                        return (
+                          <Button
+                            key={option.value}
+                            variant={selected ? 'default' : 'outline'}
+                            size="sm"
+                            className={`min-w-0 ${selected ? 'bg-indigo-600 hover:bg-indigo-700' : ''}`}
+                            onClick={() => toggleResponsiveFormat(option.value)}
+                          >
+                            {option.label}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* 输出质量 - 仅对有损格式显示 */}
+          {qualityFormats.length > 0 && (
+            <div className="space-y-3">
+              <label className="text-sm font-medium text-foreground">输出质量</label>
+
+              {/* 目标体积 - 响应式图片集按各格式质量输出，不支持目标体积 */}
+              {!responsiveEnabled && (
+                <div className="rounded-lg bg-muted/50 p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <label className="text-sm font-medium text-foreground">目标体积</label>
+                      <p className="text-xs text-muted-foreground">自动调整质量，使文件不超过指定大小</p>
+                    </div>
+                    <Button
+                      variant={globalSettings.targetSize.enabled ? 'default' : 'outline'}
+                      size="sm"
+                      className={globalSettings.targetSize.enabled ? 'bg-indigo-600' : ''}
+                      onClick={() =>
+                        updateGlobalSettings({
+                          targetSize: { ...globalSettings.targetSize, enabled: !globalSettings.targetSize.enabled },
+                        })
+                      }
+                    >
+                      {globalSettings.targetSize.enabled ? '已开启' : '已关闭'}
+                    </Button>
+                  </div>
+
+                  {globalSettings.targetSize.enabled && (
+                    <>
+                      <div className="space-y-1.5">
+                        <label className="text-xs text-muted-foreground">最大体积 (KB)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={globalSettings.targetSize.kilobytes || ''}
+                          onChange={(e) =>
+                            updateGlobalSettings({
+                              targetSize: {
+                                ...globalSettings.targetSize,
+                                kilobytes: e.target.value ? Math.max(1, parseInt(e.target.value)) : 0,
+                              },
+                            })
+                          }
+                          className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id="targetSizeDownscale"
+                          checked={globalSettings.targetSize.allowDownscale}
+                          onChange={(e) =>
+                            updateGlobalSettings({
+                              targetSize: { ...globalSettings.targetSize, allowDownscale: e.target.checked },
+                            })
+                          }
+                          className="h-4 w-4 rounded border-input text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <label htmlFor="targetSizeDownscale" className="text-sm text-muted-foreground">
+                          必要时缩小尺寸
+                        </label>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* 质量滑块 - 目标体积模式下由自动搜索决定 */}
+              {(!globalSettings.targetSize.enabled || responsiveEnabled) &&
+                qualityFormats.map((option) => {
+                  const quality = globalSettings.quality[option.value] ?? DEFAULT_QUALITY[option.value] ?? 1;
+                  return (
+                    <div key={option.value} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-muted-foreground">{option.label}</span>
+                        <span className="text-sm font-mono text-indigo-500">{Math.round(quality * 100)}</span>
+                      </div>
+                      <Slider
+                        min={1}
+                        max={100}
+                        step={1}
+                        value={[Math.round(quality * 100)]}
+                        onValueChange={([value]) =>
+                          updateGlobalSettings({
+                            quality: { ...globalSettings.quality, [option.value]: value / 100 },
+                          })
+                        }
+                      />
+                    </div>
+                  );
+                })}
             </div>
           )}
 
@@ -230,22 +579,220 @@ export function ControlPanel() {
                     />
                   </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    id="maintainAspectRatio"
-                    checked={globalSettings.maintainAspectRatio}
-                    onChange={(e) => updateGlobalSettings({ maintainAspectRatio: e.target.checked })}
-                    className="h-4 w-4 rounded border-input text-indigo-600 focus:ring-indigo-500"
-                  />
-                  <label htmlFor="maintainAspectRatio" className="text-sm text-muted-foreground">
-                    保持宽高比
-                  </label>
+
+                {/* 适应方式 */}
+                <div className="space-y-2">
+                  <span className="text-xs text-muted-foreground">适应方式</span>
+                  <div className="grid grid-cols-5 gap-1">
+                    {fitOptions.map((option) => (
+                      <Button
+                        key={option.value}
+                        variant={globalSettings.fit === option.value ? 'default' : 'outline'}
+                        size="sm"
+                        className={`min-w-0 px-1 ${
+                          globalSettings.fit === option.value ? 'bg-indigo-600 hover:bg-indigo-700' : ''
+                        }`}
+                        title={option.desc}
+                        onClick={() => updateGlobalSettings({ fit: option.value })}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {fitOptions.find((option) => option.value === globalSettings.fit)?.desc}
+                  </p>
+                </div>
+
+                {/* 裁切与留白的对齐位置，仅在同时设置宽高时生效 */}
+                {(globalSettings.fit === 'cover' || globalSettings.fit === 'contain') && hasBothSides && (
+                  <div className="space-y-2">
+                    <span className="text-xs text-muted-foreground">对齐位置</span>
+                    <AnchorPicker value={globalSettings.gravity} onChange={(gravity) => updateGlobalSettings({ gravity })} />
+                  </div>
+                )}
+
+                {/* 留白颜色 */}
+                {globalSettings.fit === 'contain' && hasBothSides && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={globalSettings.padColor === 'transparent' ? '#ffffff' : globalSettings.padColor}
+                      title="留白颜色"
+                      disabled={globalSettings.padColor === 'transparent'}
+                      onChange={(e) => updateGlobalSettings({ padColor: e.target.value })}
+                      className="h-9 w-12 cursor-pointer rounded-md border border-input bg-background p-1 disabled:opacity-50"
+                    />
+                    <input
+                      type="checkbox"
+                      id="transparentPadding"
+                      checked={globalSettings.padColor === 'transparent'}
+                      onChange={(e) => updateGlobalSettings({ padColor: e.target.checked ? 'transparent' : '#ffffff' })}
+                      className="h-4 w-4 rounded border-input text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <label htmlFor="transparentPadding" className="text-sm text-muted-foreground">
+                      透明留白
+                    </label>
+                  </div>
+                )}
+
+                {/* 缩放限制 */}
+                <div className="space-y-2">
+                  <span className="text-xs text-muted-foreground">缩放限制</span>
+                  <div className="grid grid-cols-3 gap-2">
+                    {guardOptions.map((option) => (
+                      <Button
+                        key={option.value}
+                        variant={globalSettings.resizeGuard === option.value ? 'default' : 'outline'}
+                        size="sm"
+                        className={globalSettings.resizeGuard === option.value ? 'bg-indigo-600 hover:bg-indigo-700' : ''}
+                        onClick={() => updateGlobalSettings({ resizeGuard: option.value })}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* SVG 栅格化 DPI，缩放与自定义尺寸以此为基准 */}
+            {hasSvgImages && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">SVG 栅格化 DPI</span>
+                  <span className="text-sm font-mono text-indigo-500">
+                    {(globalSettings.svgDpi / 96).toFixed(2).replace(/\.?0+$/, '')}x
+                  </span>
+                </div>
+                <div className="grid grid-cols-5 gap-2">
+                  {svgDpiOptions.map((svgDpi) => (
+                    <Button
+                      key={svgDpi}
+                      variant={globalSettings.svgDpi === svgDpi ? 'default' : 'outline'}
+                      size="sm"
+                      className={`min-w-0 ${
+                        globalSettings.svgDpi === svgDpi ? 'bg-indigo-600 hover:bg-indigo-700' : ''
+                      }`}
+                      onClick={() => updateGlobalSettings({ svgDpi })}
+                    >
+                      {svgDpi}
+                    </Button>
+                  ))}
                 </div>
               </div>
             )}
           </div>
 
+          {/* 缩放算法 */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-foreground">缩放算法</label>
+            <div className="grid grid-cols-3 gap-2">
+              {resamplingOptions.map((option) => (
+                <Button
+                  key={option.value}
+                  variant={globalSettings.resampling === option.value ? 'default' : 'outline'}
+                  size="sm"
+                  className={`min-w-0 ${
+                    globalSettings.resampling === option.value ? 'bg-indigo-600 hover:bg-indigo-700' : ''
+                  }`}
+                  title={option.desc}
+                  onClick={() => updateGlobalSettings({ resampling: option.value })}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {resamplingOptions.find((option) => option.value === globalSettings.resampling)?.desc}
+            </p>
+
+            {/* 缩小后锐化 */}
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="sharpen"
+                checked={globalSettings.sharpen.enabled}
+                onChange={(e) =>
+                  updateGlobalSettings({ sharpen: { ...globalSettings.sharpen, enabled: e.target.checked } })
+                }
+                className="h-4 w-4 rounded border-input text-indigo-600 focus:ring-indigo-500"
+              />
+              <label htmlFor="sharpen" className="text-sm text-muted-foreground">
+                缩小后锐化（USM）
+              </label>
+            </div>
+            {globalSettings.sharpen.enabled &&
+              sharpenSliders.map((option) => (
+                <div key={option.key} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">{option.label}</span>
+                    <span className="text-sm font-mono text-indigo-500">
+                      {option.format(globalSettings.sharpen[option.key])}
+                    </span>
+                  </div>
+                  <Slider
+                    min={option.min}
+                    max={option.max}
+                    step={option.step}
+                    value={[globalSettings.sharpen[option.key]]}
+                    onValueChange={([value]) =>
+                      updateGlobalSettings({ sharpen: { ...globalSettings.sharpen, [option.key]: value } })
+                    }
+                  />
+                </div>
+              ))}
+          </div>
+
+          {/* 水印 */}
+          <WatermarkPanel />
+
+          {/* 元数据 */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-foreground">元数据</label>
+            <div className="grid gap-2">
+              {metadataOptions.map((option) => (
+                <Button
+                  key={option.value}
+                  variant={globalSettings.metadata === option.value ? 'default' : 'outline'}
+                  size="sm"
+                  className={`justify-start ${
+                    globalSettings.metadata === option.value ? 'bg-indigo-600 hover:bg-indigo-700' : ''
+                  }`}
+                  title={option.desc}
+                  onClick={() => updateGlobalSettings({ metadata: option.value })}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {metadataOptions.find((option) => option.value === globalSettings.metadata)?.desc}
+            </p>
+          </div>
+
+          {/* 方向 */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">方向</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="autoOrient"
+                checked={globalSettings.autoOrient}
+                onChange={(e) => updateGlobalSettings({ autoOrient: e.target.checked })}
+                className="h-4 w-4 rounded border-input text-indigo-600 focus:ring-indigo-500"
+              />
+              <label htmlFor="autoOrient" className="text-sm text-muted-foreground">
+                按 EXIF 方向自动校正
+              </label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {globalSettings.autoOrient
+                ? '将拍摄方向写入像素并重置方向标签，单张图片可在预览上继续旋转或翻转'
+                : '忽略方向标签，按文件中存储的像素方向输出'}
+            </p>
+          </div>
+
           {/* 操作按钮 */}
           <div className="space-y-3 pt-4 border-t border-border">
             <Button
@@ -258,9 +805,63 @@ export function ControlPanel() {
               }}
             >
               <Wand2 className="mr-2 h-4 w-4" />
-              {isProcessing ? '处理中...' : '开始处理'}
+              {isProcessing ? (isPaused ? '已暂停' : '处理中...') : '开始处理'}
             </Button>
 
+            {/* 暂停 / 停止 */}
+            {isProcessing && (
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={isPaused ? resumeProcessing : pauseProcessing}
+                >
+                  {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  {isPaused ? '继续' : '暂停'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-rose-500 hover:text-rose-600"
+                  onClick={cancelProcessing}
+                >
+                  <Square className="h-4 w-4" />
+                  停止
+                </Button>
+              </div>
+            )}
+
+            {/* 批量进度 */}
+            {isProcessing && (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="font-mono text-indigo-500">{Math.round(batchProgress * 100)}%</span>
+                  <span>
+                    {isPaused
+                      ? '已暂停'
+                      : etaSeconds !== null
+                        ? `剩余约 ${formatDuration(etaSeconds)}`
+                        : '正在估算...'}
+                  </span>
+                </div>
+                <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full rounded-full bg-indigo-500 transition-[width] duration-300"
+                    style={{ width: `${batchProgress * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* 队列状态 */}
+            {isProcessing && (
+              <div className="grid grid-cols-3 gap-2 text-center text-xs text-muted-foreground">
+                <span>排队 {queueStats.queued}</span>
+                <span className="text-amber-500">处理中 {queueStats.running}</span>
+                <span className="text-emerald-500">已完成 {queueStats.finished}</span>
+              </div>
+            )}
+
             <Button
               variant="outline"
               className="w-full"
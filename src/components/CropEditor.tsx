@@ -0,0 +1,377 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { Crop, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useImageStore } from '@/store/useImageStore';
+import {
+  clampCrop,
+  dragCrop,
+  fitCropToRatio,
+  getFullCrop,
+  isFullCrop,
+  type CropHandle,
+  type Size,
+} from '@/lib/crop';
+import {
+  getSourceTransform,
+  getViewTransform,
+  invertTransform,
+  orientationToTransform,
+  toCssTransform,
+  transformRect,
+  transformSize,
+} from '@/lib/transform';
+import type { CropRect, ImageConfig } from '@/types';
+
+type RatioPreset = 'free' | '1:1' | '4:3' | '16:9' | 'custom';
+
+/**
+ * 比例预设
+ */
+const ratioOptions: { value: RatioPreset; label: string; ratio?: number }[] = [
+  { value: 'free', label: '自由' },
+  { value: '1:1', label: '1:1', ratio: 1 },
+  { value: '4:3', label: '4:3', ratio: 4 / 3 },
+  { value: '16:9', label: '16:9', ratio: 16 / 9 },
+  { value: 'custom', label: '自定义' },
+];
+
+/**
+ * 四角与四边的控制点
+ */
+const handleOptions: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: 'left-0 top-0 cursor-nwse-resize' },
+  { handle: 'ne', className: 'left-full top-0 cursor-nesw-resize' },
+  { handle: 'sw', className: 'left-0 top-full cursor-nesw-resize' },
+  { handle: 'se', className: 'left-full top-full cursor-nwse-resize' },
+  { handle: 'n', className: 'left-1/2 top-0 cursor-ns-resize' },
+  { handle: 's', className: 'left-1/2 top-full cursor-ns-resize' },
+  { handle: 'w', className: 'left-0 top-1/2 cursor-ew-resize' },
+  { handle: 'e', className: 'left-full top-1/2 cursor-ew-resize' },
+];
+
+const cropFields: { field: keyof CropRect; label: string }[] = [
+  { field: 'x', label: 'X' },
+  { field: 'y', label: 'Y' },
+  { field: 'width', label: '宽' },
+  { field: 'height', label: '高' },
+];
+
+interface DragState {
+  handle: CropHandle;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+/**
+ * 显示方向上的裁剪区域：设置中的区域以存储的像素方向保存
+ * @param stored 存储方向上的原图尺寸
+ */
+const getDisplayCrop = (image: ImageConfig, stored: Size): CropRect => {
+  const view = getViewTransform(image.orientation, image.settings.autoOrient, image.settings.transform);
+  return image.settings.crop ? transformRect(image.settings.crop, stored, view) : getFullCrop(transformSize(stored, view));
+};
+
+const inputClassName =
+  'w-full h-9 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+/**
+ * 裁剪编辑器
+ * 在预览上拖动选框或输入像素值确定裁剪区域，区域保存到图片设置，处理时先裁剪再调整尺寸
+ * 编辑时按方向校正与旋转翻转后的方向显示，保存时换算回存储的像素方向
+ * 渲染到 body 下，避免卡片的动画变换影响固定定位
+ */
+export function CropEditor({ image, onClose }: { image: ImageConfig; onClose: () => void }) {
+  const updateSettings = useImageStore((state) => state.updateSettings);
+  const applyCropToAll = useImageStore((state) => state.applyCropToAll);
+  const imageCount = useImageStore((state) => state.images.length);
+
+  // 存储方向上的原图尺寸，文件头未给出尺寸时以预览图的尺寸为准
+  const [stored, setStored] = useState<Size | null>(image.dimensions ?? null);
+  const [crop, setCrop] = useState<CropRect | null>(image.dimensions ? getDisplayCrop(image, image.dimensions) : null);
+  const [preset, setPreset] = useState<RatioPreset>('free');
+  const [customRatio, setCustomRatio] = useState({ width: 3, height: 2 });
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    if (image.dimensions) return;
+    const img = new Image();
+    img.onload = () => {
+      // 预览图已按 EXIF 方向显示
+      const natural = { width: img.naturalWidth, height: img.naturalHeight };
+      const size = transformSize(natural, invertTransform(orientationToTransform(image.orientation)));
+      setStored(size);
+      setCrop(getDisplayCrop(image, size));
+    };
+    img.src = image.previewUrl;
+    return () => {
+      img.onload = null;
+    };
+  }, [image]);
+
+  const view = getViewTransform(image.orientation, image.settings.autoOrient, image.settings.transform);
+  const size = stored && transformSize(stored, view);
+
+  const getRatio = (value: RatioPreset, custom = customRatio): number | null =>
+    value === 'custom' ? custom.width / custom.height : (ratioOptions.find((option) => option.value === value)?.ratio ?? null);
+  const ratio = getRatio(preset);
+
+  /**
+   * 切换比例时以当前选框中心为准调整
+   */
+  const changeRatio = (value: RatioPreset, custom = customRatio) => {
+    setPreset(value);
+    setCustomRatio(custom);
+    const next = getRatio(value, custom);
+    if (crop && size && next) setCrop(fitCropToRatio(crop, next, size));
+  };
+
+  /**
+   * 指针位置换算为原图像素坐标
+   */
+  const toImagePoint = (event: React.PointerEvent, { width, height }: Size) => {
+    const bounds = frameRef.current!.getBoundingClientRect();
+    return {
+      x: ((event.clientX - bounds.left) / bounds.width) * width,
+      y: ((event.clientY - bounds.top) / bounds.height) * height,
+    };
+  };
+
+  /**
+   * 开始拖动：在选框外按下时从该点重新拉出选框
+   */
+  const startDrag = (handle: CropHandle | null) => (event: React.PointerEvent) => {
+    if (!crop || !size) return;
+    event.preventDefault();
+    event.stopPropagation();
+    frameRef.current?.setPointerCapture(event.pointerId);
+    const point = toImagePoint(event, size);
+    dragRef.current = {
+      handle: handle ?? 'se',
+      startX: point.x,
+      startY: point.y,
+      startCrop: handle ? crop : clampCrop({ x: point.x, y: point.y, width: 1, height: 1 }, size),
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !size) return;
+    const point = toImagePoint(event, size);
+    setCrop(dragCrop(drag.startCrop, drag.handle, point.x - drag.startX, point.y - drag.startY, ratio, size));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  /**
+   * 输入像素值，固定比例时宽高联动
+   */
+  const updateField = (field: keyof CropRect, value: number) => {
+    if (!crop || !size || !Number.isFinite(value)) return;
+    const next = { ...crop, [field]: value };
+    if (ratio && field === 'width') next.height = value / ratio;
+    if (ratio && field === 'height') next.width = value * ratio;
+    setCrop(clampCrop(next, size));
+  };
+
+  /**
+   * 保存裁剪，覆盖整张图片时视为不裁剪
+   */
+  const save = () => {
+    if (crop && size) {
+      updateSettings(image.id, {
+        crop: isFullCrop(crop, size) ? undefined : transformRect(crop, size, invertTransform(view)),
+      });
+    }
+  };
+
+  // 预览图按显示方向变换，旋转 90° / 270° 时宽高互换后铺满选框区域
+  const previewTransform = getSourceTransform(image.orientation, image.settings.autoOrient, image.settings.transform);
+  const swapped = previewTransform.rotate % 180 !== 0;
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.2 }}
+        className="w-full max-w-3xl space-y-4 rounded-xl bg-card p-4 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 标题 */}
+        <div className="flex items-center justify-between gap-2">
+          <p className="flex items-center gap-2 truncate text-sm font-medium text-foreground">
+            <Crop className="h-4 w-4 shrink-0 text-indigo-500" />
+            裁剪 · {image.file.name}
+          </p>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {!size || !crop ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">正在读取图片尺寸…</p>
+        ) : (
+          <>
+            {/* 预览与选框 */}
+            <div className="flex justify-center rounded-lg bg-muted/50 p-2">
+              <div
+                ref={frameRef}
+                className="relative touch-none select-none overflow-hidden bg-muted"
+                style={{
+                  aspectRatio: `${size.width} / ${size.height}`,
+                  width: `min(100%, calc(60vh * ${size.width / size.height}))`,
+                }}
+                onPointerDown={startDrag(null)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+              >
+                <div
+                  className="pointer-events-none absolute left-1/2 top-1/2 bg-no-repeat"
+                  style={{
+                    width: swapped ? percent(size.height, size.width) : '100%',
+                    height: swapped ? percent(size.width, size.height) : '100%',
+                    transform: `translate(-50%, -50%) ${toCssTransform(previewTransform) ?? ''}`,
+                    backgroundImage: `url("${image.previewUrl}")`,
+                    backgroundSize: '100% 100%',
+                  }}
+                />
+                <div
+                  className="absolute cursor-move border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                  style={{
+                    left: percent(crop.x, size.width),
+                    top: percent(crop.y, size.height),
+                    width: percent(crop.width, size.width),
+                    height: percent(crop.height, size.height),
+                  }}
+                  onPointerDown={startDrag('move')}
+                >
+                  {/* 三分线 */}
+                  <div className="pointer-events-none absolute inset-0 grid grid-cols-3 grid-rows-3">
+                    {Array.from({ length: 9 }, (_, index) => (
+                      <div key={index} className="border border-white/20" />
+                    ))}
+                  </div>
+                  {handleOptions.map(({ handle, className }) => (
+                    <div
+                      key={handle}
+                      className={`absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-sm border border-indigo-500 bg-white ${className}`}
+                      onPointerDown={startDrag(handle)}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* 比例 */}
+            <div className="flex flex-wrap items-center gap-2">
+              {ratioOptions.map((option) => (
+                <Button
+                  key={option.value}
+                  variant={preset === option.value ? 'default' : 'outline'}
+                  size="sm"
+                  className={preset === option.value ? 'bg-indigo-600 hover:bg-indigo-700' : ''}
+                  onClick={() => changeRatio(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+              {preset === 'custom' && (
+                <div className="flex items-center gap-1.5">
+                  {(['width', 'height'] as const).map((field, index) => (
+                    <div key={field} className="flex items-center gap-1.5">
+                      {index > 0 && <span className="text-muted-foreground">:</span>}
+                      <input
+                        type="number"
+                        min={1}
+                        value={customRatio[field]}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (value > 0) changeRatio('custom', { ...customRatio, [field]: value });
+                        }}
+                        className={`${inputClassName} w-20`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* 像素值，失焦或回车时应用 */}
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {cropFields.map(({ field, label }) => (
+                <div key={field} className="space-y-1.5">
+                  <label className="text-xs text-muted-foreground">{label} (px)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    key={`${field}-${crop[field]}`}
+                    defaultValue={crop[field]}
+                    onBlur={(e) => updateField(field, parseFloat(e.target.value))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') updateField(field, parseFloat(e.currentTarget.value));
+                    }}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              原图 {size.width}×{size.height}，裁剪后 {crop.width}×{crop.height}
+            </p>
+
+            {/* 操作 */}
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  updateSettings(image.id, { crop: undefined });
+                  onClose();
+                }}
+              >
+                不裁剪
+              </Button>
+              {imageCount > 1 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!image.dimensions}
+                  title="按相对位置应用到所有图片"
+                  onClick={() => {
+                    save();
+                    applyCropToAll(image.id);
+                    onClose();
+                  }}
+                >
+                  应用到全部图片
+                </Button>
+              )}
+              <Button
+                size="sm"
+                className="bg-indigo-600 hover:bg-indigo-700"
+                onClick={() => {
+                  save();
+                  onClose();
+                }}
+              >
+                应用
+              </Button>
+            </div>
+          </>
+        )}
+      </motion.div>
+    </div>,
+    document.body
+  );
+}
@@ -4,6 +4,7 @@ import { useCallback, useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, ImagePlus, Clipboard } from 'lucide-react';
 import { useImageStore } from '@/store/useImageStore';
+import { isImageFile } from '@/lib/imageProcessing';
 import { toast } from 'sonner';
 
 /**
@@ -22,7 +23,7 @@ export function Dropzone() {
   const handleFiles = useCallback(
     (files: FileList | File[]) => {
       const fileArray = Array.from(files);
-      const imageFiles = fileArray.filter((file) => file.type.startsWith('image/'));
+      const imageFiles = fileArray.filter(isImageFile);
       const invalidCount = fileArray.length - imageFiles.length;
 
       if (invalidCount > 0) {
@@ -154,7 +155,7 @@ export function Dropzone() {
         <input
           ref={inputRef}
           type="file"
-          accept="image/*"
+          accept="image/*,.heic,.heif,.tif,.tiff,.psd,.psb,.ico,.cur,.bmp"
           multiple
           className="hidden"
           onChange={handleInputChange}
@@ -183,7 +184,7 @@ export function Dropzone() {
               {isDragOver ? '释放以添加图片' : '拖拽图片到这里'}
             </h3>
             <p className="text-sm text-muted-foreground">
-              或点击选择文件 • 支持 JPG, PNG, WEBP, GIF, AVIF
+              或点击选择文件 • 支持 JPG, PNG, WEBP, GIF, AVIF, SVG, HEIC, TIFF, BMP, ICO, PSD
             </p>
           </div>
 
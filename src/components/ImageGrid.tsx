@@ -1,12 +1,40 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { X, Check, Loader2, AlertCircle, FileImage, ArrowRight } from 'lucide-react';
+import {
+  X,
+  Check,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  FileImage,
+  ArrowRight,
+  Ban,
+  FileSearch,
+  ChevronDown,
+  Crop,
+  RotateCcw,
+  RotateCw,
+  FlipHorizontal2,
+  FlipVertical2,
+  SlidersHorizontal,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { AdjustmentsEditor } from '@/components/AdjustmentsEditor';
+import { CropEditor } from '@/components/CropEditor';
+import { MetadataInspector } from '@/components/MetadataInspector';
 import { useImageStore } from '@/store/useImageStore';
-import type { ImageConfig } from '@/types';
+import {
+  flipTransform,
+  getDisplaySize,
+  getSourceTransform,
+  identityTransform,
+  rotateTransform,
+  toCssTransform,
+} from '@/lib/transform';
+import type { ImageConfig, ProcessStage } from '@/types';
 
 /**
  * 格式化文件大小
@@ -17,12 +45,32 @@ const formatFileSize = (bytes: number): string => {
   return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
 };
 
+/**
+ * 格式显示名称，如 image/jpeg → JPEG
+ */
+const formatLabel = (mimeType: string): string => mimeType.replace(/^image\/(x-)?/, '').toUpperCase();
+
+/**
+ * 处理阶段名称
+ */
+const stageLabels: Record<ProcessStage, string> = {
+  decode: '解码',
+  resize: '缩放',
+  encode: '编码',
+  compress: '压缩',
+};
+
 /**
  * 图片卡片组件
  */
 function ImageCard({ image }: { image: ImageConfig }) {
   const removeImage = useImageStore((state) => state.removeImage);
   const processSingleImage = useImageStore((state) => state.processSingleImage);
+  const cancelImage = useImageStore((state) => state.cancelImage);
+  const updateSettings = useImageStore((state) => state.updateSettings);
+  const [showMetadata, setShowMetadata] = useState(false);
+  const [showCrop, setShowCrop] = useState(false);
+  const [showAdjustments, setShowAdjustments] = useState(false);
 
   /**
    * 状态标签渲染
@@ -50,6 +98,13 @@ function ImageCard({ image }: { image: ImageConfig }) {
             失败
           </span>
         );
+      case 'cancelled':
+        return (
+          <span className="flex items-center gap-1.5 rounded-full bg-muted px-2.5 py-1 text-xs font-medium text-muted-foreground">
+            <Ban className="h-3 w-3" />
+            已取消
+          </span>
+        );
       default:
         return (
           <span className="flex items-center gap-1.5 rounded-full bg-muted px-2.5 py-1 text-xs font-medium text-muted-foreground">
@@ -89,6 +144,25 @@ function ImageCard({ image }: { image: ImageConfig }) {
     );
   }, [image.result]);
 
+  /**
+   * 预览按方向校正与旋转翻转显示；旋转 90° / 270° 时放大以铺满 4:3 的预览区域
+   */
+  const previewTransform = useMemo(() => {
+    const transform = getSourceTransform(image.orientation, image.settings.autoOrient, image.settings.transform);
+    const css = toCssTransform(transform);
+    return css && transform.rotate % 180 !== 0 ? `${css} scale(1.34)` : css;
+  }, [image.orientation, image.settings.autoOrient, image.settings.transform]);
+
+  const currentTransform = image.settings.transform ?? identityTransform;
+  const transformActions = [
+    { label: '逆时针旋转 90°', icon: RotateCcw, apply: () => rotateTransform(currentTransform, -90) },
+    { label: '顺时针旋转 90°', icon: RotateCw, apply: () => rotateTransform(currentTransform, 90) },
+    { label: '水平翻转', icon: FlipHorizontal2, apply: () => flipTransform(currentTransform, 'horizontal') },
+    { label: '垂直翻转', icon: FlipVertical2, apply: () => flipTransform(currentTransform, 'vertical') },
+  ];
+  // 裁剪后的尺寸按旋转后的方向显示
+  const croppedSize = image.settings.crop && (getDisplaySize(image) ?? image.settings.crop);
+
   return (
     <motion.div
       layout
@@ -120,6 +194,7 @@ function ImageCard({ image }: { image: ImageConfig }) {
               // 图片加载失败时显示占位符
               (e.target as HTMLImageElement).src = 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect fill="%23374151" width="100" height="100"/><text x="50" y="55" text-anchor="middle" fill="%239CA3AF" font-size="12">加载失败</text></svg>';
             }}
+            style={{ transform: previewTransform }}
             className={`h-full w-full object-cover transition-opacity duration-300 ${
               image.result ? 'opacity-0' : 'opacity-100'
             }`}
@@ -138,10 +213,45 @@ function ImageCard({ image }: { image: ImageConfig }) {
             />
           )}
 
+          {/* 旋转与翻转 */}
+          {image.status !== 'processing' && (
+            <div className="absolute bottom-2 left-2 z-10 flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+              {transformActions.map(({ label, icon: Icon, apply }) => (
+                <Button
+                  key={label}
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 bg-background/80 backdrop-blur-sm"
+                  title={label}
+                  onClick={() => updateSettings(image.id, { transform: apply() })}
+                >
+                  <Icon className="h-4 w-4" />
+                </Button>
+              ))}
+            </div>
+          )}
+
           {/* 处理中遮罩 */}
           {image.status === 'processing' && (
-            <div className="absolute inset-0 flex items-center justify-center bg-background/50 backdrop-blur-sm">
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-background/50 backdrop-blur-sm">
               <Loader2 className="h-8 w-8 animate-spin text-indigo-500" />
+              {image.progress && (
+                <div className="w-2/3 space-y-1.5">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{stageLabels[image.progress.stage]}</span>
+                    <span className="font-mono">{image.progress.percent}%</span>
+                  </div>
+                  <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                    <div
+                      className="h-full rounded-full bg-indigo-500 transition-[width] duration-300"
+                      style={{ width: `${image.progress.percent}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+              <Button variant="outline" size="sm" onClick={() => cancelImage(image.id)}>
+                取消
+              </Button>
             </div>
           )}
         </div>
@@ -152,6 +262,11 @@ function ImageCard({ image }: { image: ImageConfig }) {
           <div className="flex items-start justify-between gap-2">
             <p className="flex-1 truncate text-sm font-medium text-foreground" title={image.file.name}>
               {image.file.name}
+              {image.page && (
+                <span className="font-normal text-muted-foreground">
+                  {' '}· 第 {image.page.index + 1}/{image.page.count} 页
+                </span>
+              )}
             </p>
             {statusBadge}
           </div>
@@ -159,24 +274,102 @@ function ImageCard({ image }: { image: ImageConfig }) {
           {/* 压缩结果 */}
           {compressionInfo}
 
+          {/* 格式回退提示 */}
+          {image.result && image.result.fallbacks.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {image.result.fallbacks.map(({ from, to, stillFrame }) => (
+                <span
+                  key={`${from}-${to}-${Boolean(stillFrame)}`}
+                  title={
+                    stillFrame
+                      ? `${formatLabel(to)} 无法保留动画，仅输出首帧`
+                      : `无法输出 ${formatLabel(from)}，已改为 ${formatLabel(to)}`
+                  }
+                  className="flex items-center gap-1 rounded-full bg-amber-500/10 px-2 py-0.5 text-xs font-medium text-amber-500"
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                  {stillFrame ? `${formatLabel(from)} 动画 → 静态 ${formatLabel(to)}` : `${formatLabel(from)} → ${formatLabel(to)}`}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* 非用户指定的尺寸变化 */}
+          {image.result?.dimensionChange && (
+            <p className="flex items-center gap-1 text-xs font-medium text-amber-500">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              {image.result.dimensionChange.reason}：{image.result.dimensionChange.expected.width}×{image.result.dimensionChange.expected.height} →{' '}
+              {image.result.dimensionChange.actual.width}×{image.result.dimensionChange.actual.height}
+            </p>
+          )}
+
+          {/* 目标体积模式采用的质量与尺寸 */}
+          {image.result?.targetSize && (
+            <p className="text-xs text-muted-foreground">
+              质量 {Math.round(image.result.targetSize.quality * 100)} ·{' '}
+              {image.result.targetSize.width}×{image.result.targetSize.height}
+            </p>
+          )}
+
+          {/* 裁剪、颜色调整与元数据查看：元数据有结果时与输出对比 */}
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              className="flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+              disabled={image.status === 'processing'}
+              onClick={() => setShowCrop(true)}
+            >
+              <Crop className="h-3 w-3" />
+              {croppedSize ? `已裁剪 ${croppedSize.width}×${croppedSize.height}` : '裁剪'}
+            </button>
+            <button
+              type="button"
+              className="flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+              disabled={image.status === 'processing'}
+              onClick={() => setShowAdjustments(true)}
+            >
+              <SlidersHorizontal className="h-3 w-3" />
+              {image.settings.adjustments ? '已调整' : '调整'}
+            </button>
+            <button
+              type="button"
+              className="flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-foreground"
+              onClick={() => setShowMetadata((value) => !value)}
+            >
+              <FileSearch className="h-3 w-3" />
+              元数据
+              <ChevronDown className={`h-3 w-3 transition-transform ${showMetadata ? 'rotate-180' : ''}`} />
+            </button>
+          </div>
+          {showMetadata && (
+            <MetadataInspector
+              key={image.result?.url ?? 'original'}
+              original={image.file}
+              processed={image.result?.blob}
+            />
+          )}
+
           {/* 错误信息 */}
           {image.status === 'error' && image.errorMessage && (
             <p className="text-xs text-rose-500">{image.errorMessage}</p>
           )}
 
           {/* 重新处理按钮 */}
-          {(image.status === 'idle' || image.status === 'error') && (
+          {(image.status === 'idle' || image.status === 'error' || image.status === 'cancelled') && (
             <Button
               variant="outline"
               size="sm"
               className="w-full"
               onClick={() => processSingleImage(image.id)}
             >
-              {image.status === 'error' ? '重试' : '处理'}
+              {image.status === 'idle' ? '处理' : '重试'}
             </Button>
           )}
         </div>
       </Card>
+
+      {showCrop && <CropEditor image={image} onClose={() => setShowCrop(false)} />}
+      {showAdjustments && <AdjustmentsEditor image={image} onClose={() => setShowAdjustments(false)} />}
     </motion.div>
   );
 }
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  inspectMetadata,
+  sectionLabels,
+  type MetadataField,
+  type MetadataReport,
+  type MetadataSection,
+} from '@/lib/metadata/inspect';
+
+interface MetadataInspectorProps {
+  original: Blob;
+  processed?: Blob;
+}
+
+interface Reports {
+  original: MetadataReport;
+  processed?: MetadataReport;
+}
+
+/**
+ * 合并原图与输出的字段，按原图顺序排列，输出新增的字段排在最后
+ */
+const mergeFields = (original: MetadataField[], processed: MetadataField[] = []) => {
+  const labels = [...new Set([...original, ...processed].map((field) => field.label))];
+  const find = (fields: MetadataField[], label: string) => fields.find((field) => field.label === label)?.value;
+  return labels.map((label) => ({ label, original: find(original, label), processed: find(processed, label) }));
+};
+
+/**
+ * 元数据对比面板
+ * 逐项列出原图与处理结果中的元数据，输出中已移除的项以绿色标出，便于分享前确认
+ */
+export function MetadataInspector({ original, processed }: MetadataInspectorProps) {
+  const [reports, setReports] = useState<Reports | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([inspectMetadata(original), processed ? inspectMetadata(processed) : undefined])
+      .then(([originalReport, processedReport]) => {
+        if (!cancelled) setReports({ original: originalReport, processed: processedReport });
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : '读取失败');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [original, processed]);
+
+  if (error) {
+    return <p className="text-xs text-rose-500">元数据读取失败：{error}</p>;
+  }
+  if (!reports) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        正在读取元数据
+      </div>
+    );
+  }
+
+  const hasProcessed = Boolean(reports.processed);
+  const sections = (Object.keys(sectionLabels) as MetadataSection[])
+    .map((section) => ({ section, rows: mergeFields(reports.original[section], reports.processed?.[section]) }))
+    .filter(({ rows }) => rows.length > 0);
+
+  return (
+    <div className="max-h-72 space-y-3 overflow-y-auto rounded-lg bg-muted/50 p-2 text-xs">
+      {hasProcessed && (
+        <div className="grid grid-cols-[5.5rem_1fr_1fr] gap-x-2 font-medium text-muted-foreground">
+          <span />
+          <span>原图</span>
+          <span>处理后</span>
+        </div>
+      )}
+
+      {sections.map(({ section, rows }) => (
+        <div key={section} className="space-y-1">
+          <p className="font-medium text-foreground">{sectionLabels[section]}</p>
+          {rows.map((row) => (
+            <div
+              key={row.label}
+              className={`grid gap-x-2 ${hasProcessed ? 'grid-cols-[5.5rem_1fr_1fr]' : 'grid-cols-[5.5rem_1fr]'}`}
+            >
+              <span className="truncate text-muted-foreground" title={row.label}>
+                {row.label}
+              </span>
+              <span className="break-all">{row.original ?? '—'}</span>
+              {hasProcessed && (
+                <span
+                  className={`break-all ${
+                    row.processed === undefined && row.original !== undefined ? 'font-medium text-emerald-500' : ''
+                  }`}
+                >
+                  {row.processed ?? (row.original !== undefined ? '已移除' : '—')}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {sections.length === 0 && <p className="text-muted-foreground">未读取到元数据</p>}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useRef } from 'react';
+import { ImagePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AnchorPicker } from '@/components/AnchorPicker';
+import { useImageStore } from '@/store/useImageStore';
+import type { WatermarkSettings } from '@/types';
+
+/**
+ * 字体选项，Worker 中只能使用系统字体
+ */
+const fontOptions = [
+  { value: 'sans-serif', label: '无衬线' },
+  { value: 'serif', label: '衬线' },
+  { value: 'monospace', label: '等宽' },
+  { value: '"PingFang SC", "Microsoft YaHei", sans-serif', label: '中文黑体' },
+  { value: '"Songti SC", SimSun, serif', label: '中文宋体' },
+];
+
+const inputClassName =
+  'w-full h-9 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+function SliderField({ label, value, display, min, max, step, onChange }: SliderFieldProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">{label}</span>
+        <span className="text-sm font-mono text-indigo-500">{display}</span>
+      </div>
+      <Slider min={min} max={max} step={step} value={[value]} onValueChange={([next]) => onChange(next)} />
+    </div>
+  );
+}
+
+/**
+ * 水印设置
+ * 文字或 Logo，按九宫格位置放置或平铺；尺寸均为输出宽度的百分比
+ */
+export function WatermarkPanel() {
+  const watermark = useImageStore((state) => state.globalSettings.watermark);
+  const updateGlobalSettings = useImageStore((state) => state.updateGlobalSettings);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (partial: Partial<WatermarkSettings>) => updateGlobalSettings({ watermark: { ...watermark, ...partial } });
+
+  /**
+   * 选项按钮的选中样式
+   */
+  const optionButton = (selected: boolean) => ({
+    variant: selected ? ('default' as const) : ('outline' as const),
+    className: selected ? 'bg-indigo-600 hover:bg-indigo-700' : '',
+  });
+
+  return (
+    <div className="rounded-lg bg-muted/50 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <label className="text-sm font-medium text-foreground">水印</label>
+          <p className="text-xs text-muted-foreground">在尺寸调整后叠加文字或 Logo</p>
+        </div>
+        <Button
+          variant={watermark.enabled ? 'default' : 'outline'}
+          size="sm"
+          className={watermark.enabled ? 'bg-indigo-600' : ''}
+          onClick={() => update({ enabled: !watermark.enabled })}
+        >
+          {watermark.enabled ? '已开启' : '已关闭'}
+        </Button>
+      </div>
+
+      {watermark.enabled && (
+        <>
+          {/* 类型 */}
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" {...optionButton(watermark.type === 'text')} onClick={() => update({ type: 'text' })}>
+              文字
+            </Button>
+            <Button size="sm" {...optionButton(watermark.type === 'image')} onClick={() => update({ type: 'image' })}>
+              图片
+            </Button>
+          </div>
+
+          {watermark.type === 'text' ? (
+            <>
+              <input
+                type="text"
+                value={watermark.text}
+                placeholder="© 公司名称"
+                onChange={(e) => update({ text: e.target.value })}
+                className={inputClassName}
+              />
+              <div className="flex gap-2">
+                <Select value={watermark.font} onValueChange={(font) => update({ font })}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fontOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        <span style={{ fontFamily: option.value }}>{option.label}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <input
+                  type="color"
+                  value={watermark.color}
+                  title="颜色"
+                  onChange={(e) => update({ color: e.target.value })}
+                  className="h-9 w-12 cursor-pointer rounded-md border border-input bg-background p-1"
+                />
+              </div>
+              <SliderField
+                label="字号（输出宽度的百分比）"
+                value={watermark.fontSize}
+                display={`${watermark.fontSize}%`}
+                min={0.5}
+                max={20}
+                step={0.5}
+                onChange={(fontSize) => update({ fontSize })}
+              />
+            </>
+          ) : (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/png"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) update({ image: file });
+                  e.target.value = '';
+                }}
+              />
+              <Button variant="outline" size="sm" className="w-full" onClick={() => fileInputRef.current?.click()}>
+                <ImagePlus className="mr-2 h-4 w-4" />
+                <span className="truncate">
+                  {watermark.image instanceof File ? watermark.image.name : watermark.image ? '更换 Logo' : '上传 PNG Logo'}
+                </span>
+              </Button>
+              <SliderField
+                label="Logo 宽度（输出宽度的百分比）"
+                value={watermark.imageWidth}
+                display={`${watermark.imageWidth}%`}
+                min={2}
+                max={60}
+                step={1}
+                onChange={(imageWidth) => update({ imageWidth })}
+              />
+            </>
+          )}
+
+          <SliderField
+            label="不透明度"
+            value={Math.round(watermark.opacity * 100)}
+            display={`${Math.round(watermark.opacity * 100)}%`}
+            min={5}
+            max={100}
+            step={5}
+            onChange={(value) => update({ opacity: value / 100 })}
+          />
+          <SliderField
+            label="旋转"
+            value={watermark.rotation}
+            display={`${watermark.rotation}°`}
+            min={-90}
+            max={90}
+            step={5}
+            onChange={(rotation) => update({ rotation })}
+          />
+
+          {/* 布局 */}
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" {...optionButton(watermark.layout === 'anchor')} onClick={() => update({ layout: 'anchor' })}>
+              单个
+            </Button>
+            <Button size="sm" {...optionButton(watermark.layout === 'tile')} onClick={() => update({ layout: 'tile' })}>
+              平铺
+            </Button>
+          </div>
+          {watermark.layout === 'anchor' && (
+            <AnchorPicker value={watermark.anchor} onChange={(anchor) => update({ anchor })} />
+          )}
+          <SliderField
+            label={watermark.layout === 'tile' ? '间距（输出宽度的百分比）' : '边距（输出宽度的百分比）'}
+            value={watermark.margin}
+            display={`${watermark.margin}%`}
+            min={0}
+            max={20}
+            step={0.5}
+            onChange={(margin) => update({ margin })}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { ColorAdjustments } from '@/types';
+import type { PipelineCanvas } from '@/lib/imagePipeline';
+import { adjustCanvas, applyAdjustments, neutralAdjustments } from '@/lib/adjustments';
+
+/**
+ * 覆盖全部 256 个取值的像素，三个通道错开，Alpha 各不相同
+ */
+const createPixels = () => {
+  const data = new Uint8ClampedArray(256 * 4);
+  for (let value = 0; value < 256; value++) {
+    data.set([value, (value + 85) % 256, (value + 170) % 256, 255 - value], value * 4);
+  }
+  return data;
+};
+
+const alphaOf = (data: Uint8ClampedArray) => data.filter((_, index) => index % 4 === 3);
+
+/**
+ * 以 RGBA 数组模拟画布，记录 getImageData 的调用
+ */
+const createContext = (width: number, height: number, fill: number[]) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) pixels.set(fill, i * 4);
+  const reads: number[][] = [];
+
+  const context = {
+    canvas: { width, height },
+    getImageData: (x: number, y: number, w: number, h: number) => {
+      reads.push([x, y, w, h]);
+      const data = new Uint8ClampedArray(w * h * 4);
+      for (let row = 0; row < h; row++) {
+        data.set(pixels.subarray(((y + row) * width + x) * 4, ((y + row) * width + x + w) * 4), row * w * 4);
+      }
+      return { data, width: w, height: h };
+    },
+    putImageData: (image: { data: Uint8ClampedArray; width: number; height: number }, x: number, y: number) => {
+      for (let row = 0; row < image.height; row++) {
+        pixels.set(image.data.subarray(row * image.width * 4, (row + 1) * image.width * 4), ((y + row) * width + x) * 4);
+      }
+    },
+  };
+  const pixelAt = (x: number, y: number) => Array.from(pixels.subarray((y * width + x) * 4, (y * width + x) * 4 + 4));
+  return { context: context as unknown as PipelineCanvas['context'], reads, pixelAt };
+};
+
+const GRAYSCALE: ColorAdjustments = { ...neutralAdjustments, tone: 'grayscale' };
+
+describe('applyAdjustments', () => {
+  it('中性设置不改变任何像素', () => {
+    const data = createPixels();
+    applyAdjustments(data, neutralAdjustments);
+    expect(data).toEqual(createPixels());
+  });
+
+  it('各项调整都不改变 Alpha', () => {
+    const adjustments: ColorAdjustments[] = [
+      { ...neutralAdjustments, brightness: 50, contrast: -30 },
+      { ...neutralAdjustments, exposure: 1.5, temperature: 80 },
+      { ...neutralAdjustments, saturation: -100, tone: 'sepia' },
+    ];
+    for (const adjustment of adjustments) {
+      const data = createPixels();
+      applyAdjustments(data, adjustment);
+      expect(alphaOf(data)).toEqual(alphaOf(createPixels()));
+    }
+  });
+
+  it('灰度使三个通道相等，色温升高时红增蓝减', () => {
+    const gray = new Uint8ClampedArray([200, 100, 50, 255]);
+    applyAdjustments(gray, GRAYSCALE);
+    expect(gray[0]).toBe(gray[1]);
+    expect(gray[1]).toBe(gray[2]);
+
+    const warm = new Uint8ClampedArray([128, 128, 128, 255]);
+    applyAdjustments(warm, { ...neutralAdjustments, temperature: 100 });
+    expect(warm[0]).toBeGreaterThan(128);
+    expect(warm[1]).toBe(128);
+    expect(warm[2]).toBeLessThan(128);
+  });
+});
+
+describe('adjustCanvas', () => {
+  const RED = [255, 0, 0, 255];
+  const GRAY = [54, 54, 54, 255];
+
+  it('只调整图片所在区域，留白不变', () => {
+    const { context, reads, pixelAt } = createContext(4, 4, RED);
+    adjustCanvas(context, { x: 1, y: 1, width: 2, height: 2 }, GRAYSCALE);
+
+    expect(reads).toEqual([[1, 1, 2, 2]]);
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        const inside = x >= 1 && x < 3 && y >= 1 && y < 3;
+        expect(pixelAt(x, y)).toEqual(inside ? GRAY : RED);
+      }
+    }
+  });
+
+  it('区域超出画布时只处理重叠部分，完全在外时不读取像素', () => {
+    const { context, reads, pixelAt } = createContext(4, 4, RED);
+    adjustCanvas(context, { x: -2, y: 3, width: 4, height: 5 }, GRAYSCALE);
+    expect(reads).toEqual([[0, 3, 2, 1]]);
+    expect(pixelAt(1, 3)).toEqual(GRAY);
+    expect(pixelAt(2, 3)).toEqual(RED);
+
+    adjustCanvas(context, { x: 4, y: 0, width: 2, height: 2 }, GRAYSCALE);
+    expect(reads).toHaveLength(1);
+  });
+});
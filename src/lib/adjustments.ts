@@ -0,0 +1,124 @@
+import type { ColorAdjustments } from '@/types';
+import type { PipelineCanvas } from '@/lib/imagePipeline';
+
+/**
+ * 颜色调整
+ * 直接处理像素而不使用 Canvas filter（Safari 的 OffscreenCanvas 不支持），各浏览器结果一致
+ * 逐通道的调整（曝光、色温、亮度、对比度）合并为查找表，饱和度与灰度 / 褐色按像素计算
+ */
+
+export const neutralAdjustments: ColorAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  exposure: 0,
+  temperature: 0,
+  tone: 'none',
+};
+
+export const isNeutralAdjustments = (adjustments?: ColorAdjustments): boolean =>
+  !adjustments ||
+  (adjustments.brightness === 0 &&
+    adjustments.contrast === 0 &&
+    adjustments.saturation === 0 &&
+    adjustments.exposure === 0 &&
+    adjustments.temperature === 0 &&
+    adjustments.tone === 'none');
+
+/**
+ * 色温每单位对红、蓝通道的增益，±100 对应 ±20%
+ */
+const TEMPERATURE_GAIN = 0.002;
+
+/**
+ * Rec. 709 亮度系数
+ */
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+/**
+ * 褐色调矩阵
+ */
+const SEPIA = [
+  [0.393, 0.769, 0.189],
+  [0.349, 0.686, 0.168],
+  [0.272, 0.534, 0.131],
+];
+
+const srgbToLinear = (value: number) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const linearToSrgb = (c: number) => 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055);
+
+/**
+ * 单个通道的查找表：曝光与白平衡在线性光下相乘，亮度与对比度在 sRGB 值上计算
+ * @param gain 白平衡对该通道的增益
+ */
+const buildChannelTable = ({ exposure, brightness, contrast }: ColorAdjustments, gain: number): Uint8ClampedArray => {
+  const table = new Uint8ClampedArray(256);
+  const multiplier = 2 ** exposure * gain;
+  const contrastFactor = (100 + contrast) / 100;
+  for (let value = 0; value < 256; value++) {
+    const exposed = linearToSrgb(Math.min(srgbToLinear(value) * multiplier, 1));
+    table[value] = (exposed + brightness * 1.28 - 128) * contrastFactor + 128;
+  }
+  return table;
+};
+
+/**
+ * 原地调整 RGBA 像素，Alpha 不变
+ */
+export const applyAdjustments = (data: Uint8ClampedArray, adjustments: ColorAdjustments) => {
+  const red = buildChannelTable(adjustments, 1 + adjustments.temperature * TEMPERATURE_GAIN);
+  const green = buildChannelTable(adjustments, 1);
+  const blue = buildChannelTable(adjustments, 1 - adjustments.temperature * TEMPERATURE_GAIN);
+  const saturation = (100 + adjustments.saturation) / 100;
+  const { tone } = adjustments;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = red[data[i]];
+    let g = green[data[i + 1]];
+    let b = blue[data[i + 2]];
+
+    if (saturation !== 1) {
+      const luma = LUMA[0] * r + LUMA[1] * g + LUMA[2] * b;
+      r = luma + (r - luma) * saturation;
+      g = luma + (g - luma) * saturation;
+      b = luma + (b - luma) * saturation;
+    }
+    if (tone === 'grayscale') {
+      r = g = b = LUMA[0] * r + LUMA[1] * g + LUMA[2] * b;
+    } else if (tone === 'sepia') {
+      const sr = SEPIA[0][0] * r + SEPIA[0][1] * g + SEPIA[0][2] * b;
+      const sg = SEPIA[1][0] * r + SEPIA[1][1] * g + SEPIA[1][2] * b;
+      b = SEPIA[2][0] * r + SEPIA[2][1] * g + SEPIA[2][2] * b;
+      r = sr;
+      g = sg;
+    }
+
+    // Uint8ClampedArray 写入时取整并限制在 0-255
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+/**
+ * 调整画布中图片所在区域的像素，留白不受影响；超出画布的部分忽略
+ */
+export const adjustCanvas = (
+  context: PipelineCanvas['context'],
+  rect: { x: number; y: number; width: number; height: number },
+  adjustments: ColorAdjustments
+) => {
+  const x = Math.max(0, rect.x);
+  const y = Math.max(0, rect.y);
+  const width = Math.min(context.canvas.width, rect.x + rect.width) - x;
+  const height = Math.min(context.canvas.height, rect.y + rect.height) - y;
+  if (width <= 0 || height <= 0) return;
+
+  const image = context.getImageData(x, y, width, height);
+  applyAdjustments(image.data, adjustments);
+  context.putImageData(image, x, y);
+};
@@ -0,0 +1,184 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import encode, { init as initEncoder } from '@jsquash/webp/encode';
+import { init as initDecoder } from '@jsquash/webp/decode';
+import { decodeAnimation, detectAnimation } from '@/lib/animation';
+
+// jSquash 在浏览器中按 URL 加载 WASM，测试中直接读取文件初始化
+const codecPath = (file: string) =>
+  createRequire(import.meta.url).resolve(`@jsquash/webp/codec/${file}`);
+
+vi.stubGlobal(
+  'ImageData',
+  class {
+    constructor(
+      public data: Uint8ClampedArray,
+      public width: number,
+      public height: number
+    ) {}
+  }
+);
+
+beforeAll(async () => {
+  await initEncoder(await WebAssembly.compile(readFileSync(codecPath('enc/webp_enc.wasm'))));
+  await initDecoder(await WebAssembly.compile(readFileSync(codecPath('dec/webp_dec.wasm'))));
+});
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(8 + data.length + (data.length & 1));
+  bytes.set(ascii(type));
+  new DataView(bytes.buffer).setUint32(4, data.length, true);
+  bytes.set(data, 8);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, value >> 16];
+
+/**
+ * 编码纯色静态 WebP，返回 VP8X 之外的位流块（ALPH、VP8、VP8L）
+ */
+const encodeFrame = async (width: number, height: number, rgba: number[], lossless: boolean) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set(rgba, i * 4);
+  const bytes = new Uint8Array(
+    await encode(new ImageData(data, width, height), { quality: 100, lossless: lossless ? 1 : 0, exact: 1 })
+  );
+
+  const chunks: Uint8Array[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = new DataView(bytes.buffer).getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (String.fromCharCode(...bytes.subarray(offset, offset + 4)) !== 'VP8X') chunks.push(bytes.slice(offset, end));
+    offset = end;
+  }
+  return chunks;
+};
+
+interface FrameSpec {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  delay: number;
+  flags: number;
+  chunks: Uint8Array[];
+}
+
+/**
+ * 按 ANMF 规范拼装动画 WebP
+ */
+const createAnimatedWebp = (width: number, height: number, frames: FrameSpec[]): ArrayBuffer => {
+  const header = new Uint8Array([0x12, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]);
+  const body = concat([
+    chunk('VP8X', header),
+    chunk('ANIM', new Uint8Array(6)),
+    ...frames.map((frame) =>
+      chunk(
+        'ANMF',
+        concat([
+          new Uint8Array([
+            ...uint24(frame.x / 2),
+            ...uint24(frame.y / 2),
+            ...uint24(frame.width - 1),
+            ...uint24(frame.height - 1),
+            ...uint24(frame.delay),
+            frame.flags,
+          ]),
+          ...frame.chunks,
+        ])
+      )
+    ),
+  ]);
+  const riff = new Uint8Array(12);
+  riff.set(ascii('RIFF'));
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  riff.set(ascii('WEBP'), 8);
+  return concat([riff, body]).buffer as ArrayBuffer;
+};
+
+const pixelAt = (data: ImageData, x: number, y: number) =>
+  Array.from(data.data.subarray((y * data.width + x) * 4, (y * data.width + x) * 4 + 4));
+
+// 不支持 ImageDecoder 的环境由 JS 解析帧，不会用到画布
+const noCanvas = () => {
+  throw new Error('不应创建画布');
+};
+
+describe('decodeAnimation（动画 WebP 的 JS 回退）', () => {
+  it('合成局部帧，保留偏移、时长与下层内容', async () => {
+    const buffer = createAnimatedWebp(8, 8, [
+      { x: 0, y: 0, width: 8, height: 8, delay: 100, flags: 0, chunks: await encodeFrame(8, 8, [255, 0, 0, 255], true) },
+      { x: 2, y: 2, width: 4, height: 4, delay: 50, flags: 0, chunks: await encodeFrame(4, 4, [0, 0, 255, 255], true) },
+    ]);
+    expect(detectAnimation(buffer)).toBe('image/webp');
+
+    const frames = (await decodeAnimation(buffer, 'image/webp', noCanvas))!;
+    expect(frames.map((frame) => frame.delay)).toEqual([100, 50]);
+    expect(frames.every((frame) => frame.data.width === 8 && frame.data.height === 8)).toBe(true);
+    expect(pixelAt(frames[1].data, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(frames[1].data, 3, 3)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('半透明帧按 Alpha 混合，不混合标志位直接覆盖', async () => {
+    const red = await encodeFrame(4, 4, [255, 0, 0, 255], true);
+    const halfBlue = await encodeFrame(4, 4, [0, 0, 255, 128], true);
+    const frames = (await decodeAnimation(
+      createAnimatedWebp(4, 4, [
+        { x: 0, y: 0, width: 4, height: 4, delay: 10, flags: 0, chunks: red },
+        { x: 0, y: 0, width: 4, height: 4, delay: 10, flags: 0, chunks: halfBlue },
+        { x: 0, y: 0, width: 4, height: 4, delay: 10, flags: 0x02, chunks: halfBlue },
+      ]),
+      'image/webp',
+      noCanvas
+    ))!;
+
+    const [r, , b, a] = pixelAt(frames[1].data, 1, 1);
+    expect(a).toBe(255);
+    expect(r).toBeGreaterThan(120);
+    expect(b).toBeGreaterThan(120);
+    expect(pixelAt(frames[2].data, 1, 1)).toEqual([0, 0, 255, 128]);
+  });
+
+  it('处置为背景时在下一帧前清除上一帧区域', async () => {
+    const frames = (await decodeAnimation(
+      createAnimatedWebp(8, 8, [
+        { x: 0, y: 0, width: 4, height: 4, delay: 10, flags: 0x01, chunks: await encodeFrame(4, 4, [0, 255, 0, 255], true) },
+        { x: 4, y: 4, width: 4, height: 4, delay: 10, flags: 0, chunks: await encodeFrame(4, 4, [0, 0, 255, 255], true) },
+      ]),
+      'image/webp',
+      noCanvas
+    ))!;
+
+    expect(pixelAt(frames[0].data, 0, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixelAt(frames[1].data, 0, 0)).toEqual([0, 0, 0, 0]);
+    expect(pixelAt(frames[1].data, 5, 5)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('有损帧的 ALPH 块与位流一起解码', async () => {
+    const chunks = await encodeFrame(4, 4, [0, 0, 255, 128], false);
+    expect(chunks.map((item) => String.fromCharCode(...item.subarray(0, 4)))).toEqual(['ALPH', 'VP8 ']);
+
+    const frames = (await decodeAnimation(
+      createAnimatedWebp(4, 4, [
+        { x: 0, y: 0, width: 4, height: 4, delay: 10, flags: 0, chunks },
+        { x: 0, y: 0, width: 4, height: 4, delay: 10, flags: 0x02, chunks },
+      ]),
+      'image/webp',
+      noCanvas
+    ))!;
+    expect(pixelAt(frames[0].data, 2, 2)[3]).toBe(128);
+  });
+});
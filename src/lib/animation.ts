@@ -0,0 +1,437 @@
+import type { CanvasFactory, PipelineCanvas, PipelineSource } from '@/lib/imagePipeline';
+import { adjustCanvas } from '@/lib/adjustments';
+import { drawSource } from '@/lib/crop';
+import { drawWatermark } from '@/lib/watermark';
+import { encodeGif } from '@/lib/gifEncoder';
+import { getFrameRect, throwIfAborted } from '@/lib/imageProcessing';
+
+/**
+ * 动画图片（GIF / APNG / 动画 WebP）
+ * 检测、逐帧解码为完整画面、逐帧缩放及重新编码
+ */
+
+/**
+ * 合成后的完整帧
+ */
+export interface AnimationFrame {
+  data: ImageData;
+  delay: number; // 毫秒
+}
+
+/**
+ * 解码后全部帧像素数据的上限，超出时报错而不是静默丢帧
+ */
+const MAX_ANIMATION_BYTES = 512 * 1024 * 1024;
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * 跳过 GIF 数据子块序列，返回结束符之后的位置
+ */
+const skipGifSubBlocks = (bytes: Uint8Array, offset: number): number => {
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    offset += bytes[offset] + 1;
+  }
+  return offset + 1;
+};
+
+/**
+ * GIF：图像描述符多于一个即为动画
+ */
+const isAnimatedGif = (bytes: Uint8Array): boolean => {
+  if (bytes.length < 13 || readAscii(bytes, 0, 3) !== 'GIF') return false;
+
+  // 跳过逻辑屏幕描述符与全局颜色表
+  let offset = 13;
+  if (bytes[10] & 0x80) offset += 3 * (1 << ((bytes[10] & 0x07) + 1));
+
+  let imageCount = 0;
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x2c) {
+      if (++imageCount > 1) return true;
+      const packed = bytes[offset + 9];
+      offset += 10;
+      if (packed & 0x80) offset += 3 * (1 << ((packed & 0x07) + 1));
+      // LZW 最小码长之后是图像数据子块
+      offset = skipGifSubBlocks(bytes, offset + 1);
+    } else if (block === 0x21) {
+      offset = skipGifSubBlocks(bytes, offset + 2);
+    } else {
+      break;
+    }
+  }
+  return false;
+};
+
+/**
+ * PNG：IDAT 之前出现帧数大于 1 的 acTL 块即为 APNG
+ */
+const isAnimatedPng = (bytes: Uint8Array): boolean => {
+  if (bytes.length < 8 || bytes[0] !== 0x89 || readAscii(bytes, 1, 3) !== 'PNG') return false;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    if (type === 'acTL') return offset + 12 <= bytes.length && view.getUint32(offset + 8) > 1;
+    if (type === 'IDAT') return false;
+    offset += length + 12;
+  }
+  return false;
+};
+
+/**
+ * WebP：VP8X 扩展头的动画标志位
+ */
+const isAnimatedWebp = (bytes: Uint8Array): boolean =>
+  bytes.length >= 21 &&
+  readAscii(bytes, 0, 4) === 'RIFF' &&
+  readAscii(bytes, 8, 4) === 'WEBP' &&
+  readAscii(bytes, 12, 4) === 'VP8X' &&
+  (bytes[20] & 0x02) !== 0;
+
+/**
+ * 根据文件内容判断是否为动画，返回容器格式；静态图片返回 null
+ */
+export const detectAnimation = (buffer: ArrayBuffer): string | null => {
+  const bytes = new Uint8Array(buffer);
+  if (isAnimatedGif(bytes)) return 'image/gif';
+  if (isAnimatedPng(bytes)) return 'image/png';
+  if (isAnimatedWebp(bytes)) return 'image/webp';
+  return null;
+};
+
+/**
+ * 是否可以输出动画（GIF 与 APNG）
+ */
+export const canEncodeAnimation = (format: string): boolean => format === 'image/gif' || format === 'image/png';
+
+/**
+ * 累计帧数据大小，超出上限时报错
+ */
+const createFrameBudget = () => {
+  let total = 0;
+  return (frame: ImageData) => {
+    total += frame.data.byteLength;
+    if (total > MAX_ANIMATION_BYTES) {
+      throw new Error('动画帧数过多，解码后超出内存限制');
+    }
+  };
+};
+
+/**
+ * 使用 ImageDecoder（WebCodecs）逐帧解码，浏览器不支持时返回 null
+ */
+const decodeWithImageDecoder = async (
+  buffer: ArrayBuffer,
+  type: string,
+  createCanvas: CanvasFactory,
+  signal?: AbortSignal
+): Promise<AnimationFrame[] | null> => {
+  if (typeof ImageDecoder === 'undefined' || !(await ImageDecoder.isTypeSupported(type))) return null;
+
+  const decoder = new ImageDecoder({ data: buffer, type });
+  const checkBudget = createFrameBudget();
+
+  try {
+    await decoder.tracks.ready;
+    const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 0;
+
+    const frames: AnimationFrame[] = [];
+    let canvas: PipelineCanvas | null = null;
+    for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+      throwIfAborted(signal);
+      const { image } = await decoder.decode({ frameIndex });
+      try {
+        canvas ??= createCanvas(image.displayWidth, image.displayHeight);
+        canvas.context.clearRect(0, 0, canvas.width, canvas.height);
+        canvas.context.drawImage(image, 0, 0);
+
+        const data = canvas.context.getImageData(0, 0, canvas.width, canvas.height);
+        checkBudget(data);
+        // VideoFrame 的时长单位为微秒
+        frames.push({ data, delay: Math.round((image.duration ?? 0) / 1000) });
+      } finally {
+        image.close();
+      }
+    }
+    return frames;
+  } finally {
+    decoder.close();
+  }
+};
+
+/**
+ * 使用 gifuct-js 解码 GIF，并按处置方式合成完整帧
+ */
+const decodeGifFrames = async (buffer: ArrayBuffer, signal?: AbortSignal): Promise<AnimationFrame[]> => {
+  const { parseGIF, decompressFrames } = await import('gifuct-js');
+  const gif = parseGIF(buffer);
+  const { width, height } = gif.lsd;
+  const checkBudget = createFrameBudget();
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const frames: AnimationFrame[] = [];
+
+  for (const { dims, patch, delay, disposalType } of decompressFrames(gif, true)) {
+    throwIfAborted(signal);
+    const previous = disposalType === 3 ? pixels.slice() : null;
+
+    // 将局部帧绘制到画面上，透明像素保留下层内容
+    for (let y = 0; y < dims.height; y++) {
+      const dy = dims.top + y;
+      if (dy >= height) break;
+      for (let x = 0; x < dims.width; x++) {
+        const dx = dims.left + x;
+        const src = (y * dims.width + x) * 4;
+        if (dx >= width || patch[src + 3] === 0) continue;
+        pixels.set(patch.subarray(src, src + 4), (dy * width + dx) * 4);
+      }
+    }
+
+    const data = new ImageData(pixels.slice(), width, height);
+    checkBudget(data);
+    frames.push({ data, delay });
+
+    // 处置方式 2：清除为背景；3：恢复到绘制前
+    if (disposalType === 2) {
+      for (let y = dims.top; y < Math.min(dims.top + dims.height, height); y++) {
+        const start = (y * width + dims.left) * 4;
+        pixels.fill(0, start, start + Math.min(dims.width, width - dims.left) * 4);
+      }
+    } else if (previous) {
+      pixels.set(previous);
+    }
+  }
+
+  return frames;
+};
+
+/**
+ * 使用 UPNG 解码 APNG（内部已完成帧合成）
+ */
+const decodeApngFrames = async (buffer: ArrayBuffer): Promise<AnimationFrame[]> => {
+  const UPNG = await import('upng-js');
+  const image = UPNG.decode(buffer);
+  const checkBudget = createFrameBudget();
+
+  return UPNG.toRGBA8(image).map((rgba, i) => {
+    const data = new ImageData(new Uint8ClampedArray(rgba), image.width, image.height);
+    checkBudget(data);
+    return { data, delay: image.frames[i]?.delay ?? 0 };
+  });
+};
+
+/**
+ * 读取 RIFF 容器中的块，块数据按偶数长度对齐
+ */
+const readRiffChunks = (bytes: Uint8Array, start: number, end: number): { type: string; data: Uint8Array }[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = view.getUint32(offset + 4, true);
+    if (offset + 8 + size > end) throw new Error('WebP 数据无效');
+    chunks.push({ type: readAscii(bytes, offset, 4), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const readUint24 = (bytes: Uint8Array, offset: number): number =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+/**
+ * 将动画帧的位流（ALPH + VP8 或 VP8L）封装为独立的静态 WebP 文件
+ */
+const createStillWebp = (chunks: { type: string; data: Uint8Array }[], width: number, height: number): ArrayBuffer => {
+  const hasAlpha = chunks.some((chunk) => chunk.type === 'ALPH');
+  const parts = hasAlpha ? [{ type: 'VP8X', data: new Uint8Array(10) }, ...chunks] : chunks;
+  if (hasAlpha) {
+    const header = parts[0].data;
+    header[0] = 0x10;
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16], 4);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16], 7);
+  }
+
+  const size = parts.reduce((sum, { data }) => sum + 8 + data.length + (data.length & 1), 12);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (offset: number, text: string) => bytes.set(Array.from(text, (c) => c.charCodeAt(0)), offset);
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, size - 8, true);
+  writeAscii(8, 'WEBP');
+  let offset = 12;
+  for (const { type, data } of parts) {
+    writeAscii(offset, type);
+    view.setUint32(offset + 4, data.length, true);
+    bytes.set(data, offset + 8);
+    offset += 8 + data.length + (data.length & 1);
+  }
+  return bytes.buffer;
+};
+
+/**
+ * 解析动画 WebP 的 ANMF 帧，由 WASM 解码器（jSquash）逐帧解码，并按混合与处置方式合成完整帧
+ */
+const decodeWebpFrames = async (buffer: ArrayBuffer, signal?: AbortSignal): Promise<AnimationFrame[]> => {
+  const { default: decode } = await import('@jsquash/webp/decode');
+  const bytes = new Uint8Array(buffer);
+  const chunks = readRiffChunks(bytes, 12, Math.min(bytes.length, new DataView(buffer).getUint32(4, true) + 8));
+  const header = chunks.find((chunk) => chunk.type === 'VP8X');
+  if (!header || header.data.length < 10) throw new Error('WebP 数据无效');
+  const width = readUint24(header.data, 4) + 1;
+  const height = readUint24(header.data, 7) + 1;
+  const checkBudget = createFrameBudget();
+
+  // 画布初始为透明；ANIM 中的背景色只是建议值，与浏览器一致忽略
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const frames: AnimationFrame[] = [];
+  let dispose: { x: number; y: number; width: number; height: number } | null = null;
+
+  for (const { type, data } of chunks) {
+    if (type !== 'ANMF' || data.length < 16) continue;
+    throwIfAborted(signal);
+
+    // 上一帧要求处置为背景：清除其所在区域
+    if (dispose) {
+      for (let y = dispose.y; y < Math.min(dispose.y + dispose.height, height); y++) {
+        const start = (y * width + dispose.x) * 4;
+        pixels.fill(0, start, start + Math.min(dispose.width, width - dispose.x) * 4);
+      }
+    }
+
+    const left = readUint24(data, 0) * 2;
+    const top = readUint24(data, 3) * 2;
+    const frameWidth = readUint24(data, 6) + 1;
+    const frameHeight = readUint24(data, 9) + 1;
+    const delay = readUint24(data, 12);
+    const flags = data[15];
+    const frameChunks = readRiffChunks(data, 16, data.length).filter((chunk) =>
+      ['ALPH', 'VP8 ', 'VP8L'].includes(chunk.type)
+    );
+    const patch = (await decode(createStillWebp(frameChunks, frameWidth, frameHeight))).data;
+    throwIfAborted(signal);
+
+    // 混合标志位为 1 时直接覆盖，否则按 Alpha 叠加到下层内容上
+    const blend = (flags & 0x02) === 0;
+    for (let y = 0; y < frameHeight; y++) {
+      const dy = top + y;
+      if (dy >= height) break;
+      for (let x = 0; x < frameWidth; x++) {
+        const dx = left + x;
+        if (dx >= width) break;
+        const src = (y * frameWidth + x) * 4;
+        const dst = (dy * width + dx) * 4;
+        const srcAlpha = patch[src + 3] / 255;
+        if (!blend || srcAlpha === 1) {
+          pixels.set(patch.subarray(src, src + 4), dst);
+          continue;
+        }
+        const dstAlpha = (pixels[dst + 3] / 255) * (1 - srcAlpha);
+        const alpha = srcAlpha + dstAlpha;
+        for (let c = 0; c < 3; c++) {
+          pixels[dst + c] = alpha > 0 ? (patch[src + c] * srcAlpha + pixels[dst + c] * dstAlpha) / alpha : 0;
+        }
+        pixels[dst + 3] = alpha * 255;
+      }
+    }
+
+    const frame = new ImageData(pixels.slice(), width, height);
+    checkBudget(frame);
+    frames.push({ data: frame, delay });
+    dispose = flags & 0x01 ? { x: left, y: top, width: frameWidth, height: frameHeight } : null;
+  }
+
+  return frames;
+};
+
+/**
+ * 逐帧解码动画，优先使用 ImageDecoder，不支持时回退到 JS 解码器（动画 WebP 的帧由 WASM 解码）
+ * 只有一帧时返回 null
+ */
+export const decodeAnimation = async (
+  buffer: ArrayBuffer,
+  type: string,
+  createCanvas: CanvasFactory,
+  signal?: AbortSignal
+): Promise<AnimationFrame[] | null> => {
+  let frames = await decodeWithImageDecoder(buffer, type, createCanvas, signal);
+  if (!frames) {
+    if (type === 'image/gif') frames = await decodeGifFrames(buffer, signal);
+    else if (type === 'image/png') frames = await decodeApngFrames(buffer);
+    else if (type === 'image/webp') frames = await decodeWebpFrames(buffer, signal);
+  }
+
+  return frames && frames.length > 1 ? frames : null;
+};
+
+/**
+ * 将每帧缩放到目标尺寸
+ * @param placement 裁剪区域、旋转翻转、颜色调整与水印，为空表示整帧原样缩放
+ */
+export const resizeFrames = async (
+  frames: AnimationFrame[],
+  width: number,
+  height: number,
+  createCanvas: CanvasFactory,
+  signal?: AbortSignal,
+  placement: Pick<PipelineSource, 'region' | 'transform' | 'frame' | 'padColor' | 'adjustments' | 'watermark'> = {}
+): Promise<AnimationFrame[]> => {
+  const { region, transform, frame, padColor, adjustments, watermark } = placement;
+  const sameSize = frames[0].data.width === width && frames[0].data.height === height;
+  if (!region && !transform && !frame && !adjustments && !watermark && sameSize) return frames;
+
+  const canvas = createCanvas(width, height);
+  canvas.context.imageSmoothingEnabled = true;
+  canvas.context.imageSmoothingQuality = 'high';
+  const rect = getFrameRect(frame, width, height);
+
+  const resized: AnimationFrame[] = [];
+  for (const { data, delay } of frames) {
+    throwIfAborted(signal);
+    const bitmap = await createImageBitmap(data);
+    canvas.context.clearRect(0, 0, width, height);
+    if (padColor) {
+      canvas.context.fillStyle = padColor;
+      canvas.context.fillRect(0, 0, width, height);
+    }
+    drawSource(canvas.context, { image: bitmap, region, transform }, rect.x, rect.y, rect.width, rect.height);
+    if (adjustments) adjustCanvas(canvas.context, rect, adjustments);
+    if (watermark) drawWatermark(canvas.context, width, height, watermark);
+    bitmap.close();
+    resized.push({ data: canvas.context.getImageData(0, 0, width, height), delay });
+  }
+  return resized;
+};
+
+/**
+ * 将帧序列编码为动画 GIF 或 APNG
+ */
+export const encodeAnimation = async (
+  frames: AnimationFrame[],
+  format: string,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  if (format === 'image/gif') {
+    return encodeGif(frames, signal, onProgress);
+  }
+
+  const UPNG = await import('upng-js');
+  throwIfAborted(signal);
+  const { width, height } = frames[0].data;
+  // 颜色数为 0 表示无损
+  const output = UPNG.encode(
+    frames.map(({ data }) => data.data.buffer),
+    width,
+    height,
+    0,
+    frames.map(({ delay }) => delay)
+  );
+  onProgress?.(1);
+  return new Blob([output], { type: 'image/png' });
+};
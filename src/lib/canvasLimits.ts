@@ -0,0 +1,65 @@
+import type { CanvasFactory, PipelineCanvas } from '@/lib/imagePipeline';
+
+/**
+ * 画布尺寸上限检测
+ * 各浏览器的画布边长与面积上限不同（如 iOS Safari 约 1670 万像素），超出时往往不报错而是绘制无效，
+ * 因此创建后在右下角绘制并读回像素验证，结果按尺寸缓存
+ */
+
+/**
+ * 所有浏览器均支持的画布边长，分块绘制时使用
+ */
+export const SAFE_CANVAS_SIZE = 4096;
+
+interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+// 已验证可用与不可用的尺寸
+const supportedSizes: CanvasSize[] = [{ width: SAFE_CANVAS_SIZE, height: SAFE_CANVAS_SIZE }];
+const unsupportedSizes: CanvasSize[] = [];
+
+const fitsWithin = (size: CanvasSize, limit: CanvasSize) => size.width <= limit.width && size.height <= limit.height;
+
+/**
+ * 判断画布尺寸是否可用，已验证过的尺寸不再创建画布
+ */
+export const isCanvasSizeSupported = (width: number, height: number, createCanvas: CanvasFactory): boolean => {
+  const size = { width, height };
+  if (supportedSizes.some((limit) => fitsWithin(size, limit))) return true;
+  if (unsupportedSizes.some((limit) => fitsWithin(limit, size))) return false;
+  return createCheckedCanvas(width, height, createCanvas) !== null;
+};
+
+/**
+ * 创建画布并验证可用，超出当前浏览器上限时返回 null
+ */
+export const createCheckedCanvas = (
+  width: number,
+  height: number,
+  createCanvas: CanvasFactory
+): PipelineCanvas | null => {
+  const size = { width, height };
+  if (supportedSizes.some((limit) => fitsWithin(size, limit))) {
+    return createCanvas(width, height);
+  }
+  if (unsupportedSizes.some((limit) => fitsWithin(limit, size))) {
+    return null;
+  }
+
+  try {
+    const canvas = createCanvas(width, height);
+    const { context } = canvas;
+    context.fillStyle = '#000';
+    context.fillRect(width - 1, height - 1, 1, 1);
+    const usable = context.getImageData(width - 1, height - 1, 1, 1).data[3] === 255;
+    context.clearRect(width - 1, height - 1, 1, 1);
+
+    (usable ? supportedSizes : unsupportedSizes).push(size);
+    return usable ? canvas : null;
+  } catch {
+    unsupportedSizes.push(size);
+    return null;
+  }
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { CropRect } from '@/types';
+import { clampCrop, dragCrop, fitCropToRatio, scaleCrop, type CropHandle, type Size } from '@/lib/crop';
+
+const SIZE: Size = { width: 400, height: 300 };
+
+/**
+ * 区域为整数像素、不小于 1 且位于图片范围内
+ */
+const expectInside = (crop: CropRect, { width, height }: Size) => {
+  expect(Object.values(crop).every(Number.isInteger)).toBe(true);
+  expect(crop.width).toBeGreaterThanOrEqual(1);
+  expect(crop.height).toBeGreaterThanOrEqual(1);
+  expect(crop.x).toBeGreaterThanOrEqual(0);
+  expect(crop.y).toBeGreaterThanOrEqual(0);
+  expect(crop.x + crop.width).toBeLessThanOrEqual(width);
+  expect(crop.y + crop.height).toBeLessThanOrEqual(height);
+};
+
+// 宽高各自取整，允许宽度相差 1 像素或高度 1 像素对应的宽度
+const expectRatio = (crop: CropRect, ratio: number) => {
+  expect(Math.abs(crop.width - crop.height * ratio)).toBeLessThanOrEqual(Math.max(1, ratio));
+};
+
+const CROPS: CropRect[] = [
+  { x: 0, y: 0, width: 400, height: 300 },
+  { x: 350, y: 250, width: 50, height: 50 },
+  { x: 0, y: 0, width: 1, height: 300 },
+  { x: 120, y: 40, width: 200, height: 10 },
+];
+
+describe('clampCrop', () => {
+  it('取整并移回图片范围内，超出的边长截为图片尺寸', () => {
+    expect(clampCrop({ x: -10.4, y: 290, width: 50.6, height: 40 }, SIZE)).toEqual({ x: 0, y: 260, width: 51, height: 40 });
+    expect(clampCrop({ x: 10, y: 10, width: 900, height: 0.2 }, SIZE)).toEqual({ x: 0, y: 10, width: 400, height: 1 });
+  });
+});
+
+describe('fitCropToRatio', () => {
+  it('以中心为准调整比例，超出图片时缩小', () => {
+    // 面积不变时高度为 346，超出图片后按高度缩小
+    expect(fitCropToRatio({ x: 0, y: 0, width: 400, height: 300 }, 1, SIZE)).toEqual({ x: 50, y: 0, width: 300, height: 300 });
+    expect(fitCropToRatio({ x: 100, y: 100, width: 100, height: 100 }, 4, SIZE)).toEqual({
+      x: 50,
+      y: 125,
+      width: 200,
+      height: 50,
+    });
+  });
+
+  it('任意区域与比例的结果都位于图片内且符合比例', () => {
+    for (const crop of CROPS) {
+      for (const ratio of [1, 16 / 9, 9 / 16, 3, 1 / 3]) {
+        const fitted = fitCropToRatio(crop, ratio, SIZE);
+        expectInside(fitted, SIZE);
+        expectRatio(fitted, ratio);
+      }
+    }
+  });
+});
+
+describe('scaleCrop', () => {
+  it('按相对位置换算到另一尺寸', () => {
+    expect(scaleCrop({ x: 100, y: 60, width: 200, height: 120 }, SIZE, { width: 200, height: 150 })).toEqual({
+      x: 50,
+      y: 30,
+      width: 100,
+      height: 60,
+    });
+  });
+
+  it('放大或缩小后仍位于图片内', () => {
+    for (const crop of CROPS) {
+      for (const to of [
+        { width: 401, height: 301 },
+        { width: 133, height: 7 },
+        { width: 1, height: 1 },
+      ]) {
+        expectInside(scaleCrop(crop, SIZE, to), to);
+      }
+    }
+  });
+});
+
+describe('dragCrop', () => {
+  const start: CropRect = { x: 100, y: 100, width: 100, height: 100 };
+
+  it('整体移动时不超出图片', () => {
+    expect(dragCrop(start, 'move', 1000, -1000, null, SIZE)).toEqual({ x: 300, y: 0, width: 100, height: 100 });
+  });
+
+  it('自由比例时只移动拖动的边，对边不动', () => {
+    expect(dragCrop(start, 'w', -500, 0, null, SIZE)).toEqual({ x: 0, y: 100, width: 200, height: 100 });
+    // 越过对边时保留最小边长
+    expect(dragCrop(start, 'n', 0, 500, null, SIZE)).toEqual({ x: 100, y: 199, width: 100, height: 1 });
+  });
+
+  it('固定比例时以对角为锚点，超出图片时整体缩小', () => {
+    // 右下角拖动，左上角不动
+    expect(dragCrop(start, 'se', 50, 10, 1, SIZE)).toEqual({ x: 100, y: 100, width: 150, height: 150 });
+    // 左上角拖出图片，右下角不动，按可用空间缩小
+    expect(dragCrop(start, 'nw', -500, -500, 1, SIZE)).toEqual({ x: 0, y: 0, width: 200, height: 200 });
+    // 单边拖动时另一方向以中线为锚点
+    expect(dragCrop(start, 'e', 100, 0, 4, SIZE)).toEqual({ x: 100, y: 125, width: 200, height: 50 });
+  });
+
+  it('任意拖动的结果都位于图片内，固定比例时符合比例', () => {
+    const handles: CropHandle[] = ['move', 'n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'];
+    for (const handle of handles) {
+      for (const [dx, dy] of [
+        [-1000, -1000],
+        [1000, 1000],
+        [37, -83],
+      ]) {
+        for (const ratio of [null, 1, 16 / 9]) {
+          const crop = dragCrop({ x: 150, y: 120, width: 80, height: 45 }, handle, dx, dy, ratio, SIZE);
+          expectInside(crop, SIZE);
+          if (ratio && handle !== 'move') expectRatio(crop, ratio);
+        }
+      }
+    }
+  });
+});
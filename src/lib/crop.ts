@@ -0,0 +1,178 @@
+import type { CropRect } from '@/types';
+import type { PipelineCanvas, PipelineSource } from '@/lib/imagePipeline';
+import { getTransformMatrix } from '@/lib/transform';
+
+/**
+ * 裁剪区域计算
+ * 坐标均为原图像素，拖动与输入过程中保持比例并限制在图片范围内
+ */
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * 拖动的控制点：move 为整体移动，其余为对应的边或角
+ */
+export type CropHandle = 'move' | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+/**
+ * 裁剪区域的最小边长
+ */
+const MIN_CROP_SIZE = 1;
+
+/**
+ * 整张图片
+ */
+export const getFullCrop = ({ width, height }: Size): CropRect => ({ x: 0, y: 0, width, height });
+
+export const isFullCrop = (crop: CropRect, { width, height }: Size): boolean =>
+  crop.x === 0 && crop.y === 0 && crop.width === width && crop.height === height;
+
+/**
+ * 取整并限制在图片范围内
+ */
+export const clampCrop = (crop: CropRect, { width, height }: Size): CropRect => {
+  const cropWidth = Math.min(Math.max(Math.round(crop.width), MIN_CROP_SIZE), width);
+  const cropHeight = Math.min(Math.max(Math.round(crop.height), MIN_CROP_SIZE), height);
+  return {
+    x: Math.min(Math.max(Math.round(crop.x), 0), width - cropWidth),
+    y: Math.min(Math.max(Math.round(crop.y), 0), height - cropHeight),
+    width: cropWidth,
+    height: cropHeight,
+  };
+};
+
+/**
+ * 以当前区域中心为准调整到指定比例（宽 / 高），尽量保留原有面积
+ */
+export const fitCropToRatio = (crop: CropRect, ratio: number, size: Size): CropRect => {
+  let width = Math.sqrt(crop.width * crop.height * ratio);
+  let height = width / ratio;
+  // 超出图片时按较紧的一边缩小
+  const shrink = Math.min(1, size.width / width, size.height / height);
+  width *= shrink;
+  height *= shrink;
+
+  return clampCrop(
+    {
+      x: crop.x + (crop.width - width) / 2,
+      y: crop.y + (crop.height - height) / 2,
+      width,
+      height,
+    },
+    size
+  );
+};
+
+/**
+ * 固定比例时沿一个方向放置区域：拖动低端时以高端为锚点，拖动高端时以低端为锚点，都未拖动时以中线为锚点
+ * 返回该方向允许的最大长度与给定长度时的起点
+ */
+const anchorAxis = (low: number, high: number, limit: number, movesLow: boolean, movesHigh: boolean) => {
+  if (movesLow) return { max: high, place: (length: number) => high - length };
+  if (movesHigh) return { max: limit - low, place: () => low };
+  const center = (low + high) / 2;
+  return { max: 2 * Math.min(center, limit - center), place: (length: number) => center - length / 2 };
+};
+
+/**
+ * 按拖动的控制点与位移计算新区域
+ * @param ratio 固定比例（宽 / 高），为空表示自由比例
+ */
+export const dragCrop = (
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  size: Size
+): CropRect => {
+  if (handle === 'move') {
+    return clampCrop({ ...start, x: start.x + dx, y: start.y + dy }, size);
+  }
+
+  // 按控制点移动对应的边，对边保持不动
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  if (handle.includes('w')) left = Math.min(Math.max(left + dx, 0), right - MIN_CROP_SIZE);
+  if (handle.includes('e')) right = Math.max(Math.min(right + dx, size.width), left + MIN_CROP_SIZE);
+  if (handle.includes('n')) top = Math.min(Math.max(top + dy, 0), bottom - MIN_CROP_SIZE);
+  if (handle.includes('s')) bottom = Math.max(Math.min(bottom + dy, size.height), top + MIN_CROP_SIZE);
+
+  if (ratio) {
+    const horizontal = handle.includes('e') || handle.includes('w');
+    const vertical = handle.includes('n') || handle.includes('s');
+    // 角点以变化较大的一边为准，单边拖动时另一边随之变化
+    let width = right - left;
+    let height = bottom - top;
+    if (horizontal && (!vertical || width / ratio >= height)) {
+      height = width / ratio;
+    } else {
+      width = height * ratio;
+    }
+
+    const xAxis = anchorAxis(left, right, size.width, handle.includes('w'), handle.includes('e'));
+    const yAxis = anchorAxis(top, bottom, size.height, handle.includes('n'), handle.includes('s'));
+    // 超出图片时整体缩小
+    const shrink = Math.min(1, xAxis.max / width, yAxis.max / height);
+    width *= shrink;
+    height *= shrink;
+    left = xAxis.place(width);
+    top = yAxis.place(height);
+    right = left + width;
+    bottom = top + height;
+  }
+
+  return clampCrop({ x: left, y: top, width: right - left, height: bottom - top }, size);
+};
+
+/**
+ * 将裁剪区域按相对位置换算到另一尺寸的图片
+ */
+export const scaleCrop = (crop: CropRect, from: Size, to: Size): CropRect =>
+  clampCrop(
+    {
+      x: (crop.x / from.width) * to.width,
+      y: (crop.y / from.height) * to.height,
+      width: (crop.width / from.width) * to.width,
+      height: (crop.height / from.height) * to.height,
+    },
+    to
+  );
+
+/**
+ * 将源图片（裁剪时只取区域内的部分）按旋转与翻转绘制到指定位置与尺寸
+ */
+export const drawSource = (
+  context: PipelineCanvas['context'],
+  { image, region, transform }: Pick<PipelineSource, 'image' | 'region' | 'transform'>,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const draw = (dx: number, dy: number, dw: number, dh: number) => {
+    if (region) {
+      context.drawImage(image, region.x, region.y, region.width, region.height, dx, dy, dw, dh);
+    } else {
+      context.drawImage(image, dx, dy, dw, dh);
+    }
+  };
+  if (!transform) {
+    draw(x, y, width, height);
+    return;
+  }
+
+  // 以目标区域中心为原点变换，旋转 90° / 270° 时源图按交换后的宽高绘制
+  const [a, b, c, d] = getTransformMatrix(transform);
+  const [drawWidth, drawHeight] = transform.rotate % 180 === 0 ? [width, height] : [height, width];
+  context.save();
+  context.translate(x + width / 2, y + height / 2);
+  context.transform(a, b, c, d, 0, 0);
+  draw(-drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  context.restore();
+};
@@ -0,0 +1,163 @@
+import type { SourceDecoder } from '@/lib/decoders';
+
+/**
+ * BMP 解码
+ * 支持 1/4/8/16/24/32 位非压缩与位域（BI_BITFIELDS）数据，RLE 压缩交给浏览器原生解码
+ */
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+/**
+ * 位域掩码换算为 8 位通道值
+ */
+const createChannelReader = (mask: number) => {
+  if (!mask) return null;
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  const max = mask >>> shift;
+  return (value: number) => Math.round((((value & mask) >>> shift) / max) * 255);
+};
+
+/**
+ * 解析 DIB（BITMAPINFOHEADER 及其扩展）像素数据，BMP 与 ICO 共用
+ * @param offset DIB 头的起始位置
+ * @param pixelOffset 像素数据的起始位置，未指定时紧跟在调色板之后
+ * @param isIcon ICO 中的 DIB 高度为图像与 AND 遮罩之和，透明度由遮罩决定
+ * @returns 不支持的压缩方式返回 null
+ */
+export const decodeDib = (
+  buffer: ArrayBuffer,
+  offset: number,
+  pixelOffset?: number,
+  isIcon = false
+): ImageData | null => {
+  const view = new DataView(buffer);
+  const headerSize = view.getUint32(offset, true);
+  const width = view.getInt32(offset + 4, true);
+  const rawHeight = view.getInt32(offset + 8, true);
+  const bitCount = view.getUint16(offset + 14, true);
+  const compression = headerSize >= 20 ? view.getUint32(offset + 16, true) : BI_RGB;
+  const colorsUsed = headerSize >= 36 ? view.getUint32(offset + 32, true) : 0;
+
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+    return null;
+  }
+
+  // 高度为负表示自上而下存储
+  const topDown = rawHeight < 0;
+  const height = Math.abs(isIcon ? rawHeight / 2 : rawHeight);
+  if (width <= 0 || height <= 0) {
+    throw new Error('BMP 尺寸无效');
+  }
+
+  // 位域掩码：V2 及以上的头部自带，BITMAPINFOHEADER 时紧跟在头部之后
+  let masksEnd = offset + headerSize;
+  let masks: [number, number, number, number] | null = null;
+  if (compression !== BI_RGB) {
+    if (headerSize >= 52) {
+      masks = [
+        view.getUint32(offset + 40, true),
+        view.getUint32(offset + 44, true),
+        view.getUint32(offset + 48, true),
+        headerSize >= 56 ? view.getUint32(offset + 52, true) : 0,
+      ];
+    } else {
+      const hasAlphaMask = compression === BI_ALPHABITFIELDS;
+      masks = [
+        view.getUint32(masksEnd, true),
+        view.getUint32(masksEnd + 4, true),
+        view.getUint32(masksEnd + 8, true),
+        hasAlphaMask ? view.getUint32(masksEnd + 12, true) : 0,
+      ];
+      masksEnd += hasAlphaMask ? 16 : 12;
+    }
+  } else if (bitCount === 16) {
+    masks = [0x7c00, 0x03e0, 0x001f, 0];
+  }
+
+  // 调色板（BGRx）
+  const paletteSize = bitCount <= 8 ? colorsUsed || 1 << bitCount : 0;
+  const palette: number[][] = [];
+  for (let i = 0; i < paletteSize; i++) {
+    const entry = masksEnd + i * 4;
+    palette.push([view.getUint8(entry + 2), view.getUint8(entry + 1), view.getUint8(entry)]);
+  }
+
+  const dataStart = pixelOffset ?? masksEnd + paletteSize * 4;
+  const stride = Math.floor((bitCount * width + 31) / 32) * 4;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const readers = masks?.map(createChannelReader);
+  let hasAlpha = false;
+
+  for (let y = 0; y < height; y++) {
+    const row = dataStart + (topDown ? y : height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let r: number, g: number, b: number;
+      let a = 255;
+
+      if (bitCount <= 8) {
+        const bitOffset = x * bitCount;
+        const byte = view.getUint8(row + (bitOffset >> 3));
+        const index = (byte >> (8 - bitCount - (bitOffset & 7))) & ((1 << bitCount) - 1);
+        [r, g, b] = palette[index] ?? [0, 0, 0];
+      } else if (bitCount === 24) {
+        b = view.getUint8(row + x * 3);
+        g = view.getUint8(row + x * 3 + 1);
+        r = view.getUint8(row + x * 3 + 2);
+      } else if (readers) {
+        const value = bitCount === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+        r = readers[0]?.(value) ?? 0;
+        g = readers[1]?.(value) ?? 0;
+        b = readers[2]?.(value) ?? 0;
+        a = readers[3]?.(value) ?? 255;
+      } else if (bitCount === 32) {
+        b = view.getUint8(row + x * 4);
+        g = view.getUint8(row + x * 4 + 1);
+        r = view.getUint8(row + x * 4 + 2);
+        a = view.getUint8(row + x * 4 + 3);
+      } else {
+        throw new Error(`不支持 ${bitCount} 位 BMP`);
+      }
+
+      if (a !== 0) hasAlpha = true;
+      pixels[i] = r;
+      pixels[i + 1] = g;
+      pixels[i + 2] = b;
+      pixels[i + 3] = a;
+    }
+  }
+
+  // 32 位数据的 Alpha 字节常被写为 0，全为 0 时按不透明处理
+  if (!hasAlpha) {
+    for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+  }
+
+  // ICO：非 32 位图标由 1 位 AND 遮罩决定透明（遮罩为 1 表示透明）
+  if (isIcon && bitCount < 32) {
+    const maskStart = dataStart + stride * height;
+    const maskStride = Math.floor((width + 31) / 32) * 4;
+    for (let y = 0; y < height; y++) {
+      const row = maskStart + (topDown ? y : height - 1 - y) * maskStride;
+      for (let x = 0; x < width; x++) {
+        if (row + (x >> 3) >= view.byteLength) break;
+        if ((view.getUint8(row + (x >> 3)) >> (7 - (x & 7))) & 1) {
+          pixels[(y * width + x) * 4 + 3] = 0;
+        }
+      }
+    }
+  }
+
+  return new ImageData(pixels, width, height);
+};
+
+export const bmpDecoder: SourceDecoder = {
+  type: 'image/bmp',
+  detect: (bytes) => bytes.length >= 26 && bytes[0] === 0x42 && bytes[1] === 0x4d,
+  decode: async (buffer) => {
+    const pixelOffset = new DataView(buffer).getUint32(10, true);
+    return decodeDib(buffer, 14, pixelOffset) ?? new Blob([buffer], { type: 'image/bmp' });
+  },
+};
@@ -0,0 +1,59 @@
+import type { SourceDecoder } from '@/lib/decoders';
+import { throwIfAborted } from '@/lib/imageProcessing';
+
+/**
+ * HEIC/HEIF 解码（libheif WASM）
+ * 除 Safari 外的浏览器都无法原生解码 iPhone 照片，这里解码为像素数据交给后续流水线
+ */
+
+/**
+ * HEIC/HEIF 的 ftyp 主品牌（AVIF 同属 ISOBMFF，但浏览器可原生解码，不在此列）
+ */
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+const readBrand = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+/**
+ * 解码 HEIC/HEIF 的主图像
+ */
+const decodeHeif = async (buffer: ArrayBuffer, signal?: AbortSignal): Promise<ImageData> => {
+  // 按需加载 WASM，未添加 HEIC 时不下载
+  const { default: libheif } = await import('libheif-js/wasm-bundle');
+  throwIfAborted(signal);
+
+  const images = new libheif.HeifDecoder().decode(new Uint8Array(buffer));
+  try {
+    const image = images.find((item) => item.is_primary()) ?? images[0];
+    if (!image) {
+      throw new Error('HEIC 文件解析失败');
+    }
+
+    const width = image.get_width();
+    const height = image.get_height();
+    const target = { data: new Uint8ClampedArray(width * height * 4), width, height };
+
+    const result = await new Promise<typeof target | null>((resolve) => image.display(target, resolve));
+    if (!result) {
+      throw new Error('HEIC 解码失败');
+    }
+    throwIfAborted(signal);
+
+    return new ImageData(result.data, width, height);
+  } finally {
+    images.forEach((image) => image.free());
+  }
+};
+
+export const heifDecoder: SourceDecoder = {
+  type: 'image/heic',
+  detect: (bytes) => {
+    if (bytes.length < 12 || readBrand(bytes, 4) !== 'ftyp') return false;
+    // mif1 等通用品牌也可能是 AVIF，需排除兼容品牌中带 avif 的文件
+    const boxEnd = Math.min(new DataView(bytes.buffer, bytes.byteOffset).getUint32(0), bytes.length);
+    const brands = [readBrand(bytes, 8)];
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) brands.push(readBrand(bytes, offset));
+    return !brands.includes('avif') && !brands.includes('avis') && brands.some((brand) => HEIF_BRANDS.includes(brand));
+  },
+  decode: (buffer, _page, signal) => decodeHeif(buffer, signal),
+};
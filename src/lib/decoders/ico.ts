@@ -0,0 +1,67 @@
+import type { SourceDecoder } from '@/lib/decoders';
+import { decodeDib } from '@/lib/decoders/bmp';
+
+/**
+ * ICO / CUR 解码
+ * 一个文件通常包含多个尺寸的图标，取分辨率最高（同尺寸时色深最高）的一个
+ */
+
+interface IconEntry {
+  width: number;
+  height: number;
+  bitCount: number;
+  size: number;
+  offset: number;
+}
+
+const readEntries = (view: DataView): IconEntry[] => {
+  const count = view.getUint16(4, true);
+  const entries: IconEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const entry = 6 + i * 16;
+    if (entry + 16 > view.byteLength) break;
+    entries.push({
+      // 0 表示 256
+      width: view.getUint8(entry) || 256,
+      height: view.getUint8(entry + 1) || 256,
+      bitCount: view.getUint16(entry + 6, true),
+      size: view.getUint32(entry + 8, true),
+      offset: view.getUint32(entry + 12, true),
+    });
+  }
+  return entries;
+};
+
+export const icoDecoder: SourceDecoder = {
+  type: 'image/x-icon',
+  detect: (bytes) =>
+    bytes.length >= 22 &&
+    bytes[0] === 0 &&
+    bytes[1] === 0 &&
+    (bytes[2] === 1 || bytes[2] === 2) &&
+    bytes[3] === 0 &&
+    bytes[4] + (bytes[5] << 8) > 0 &&
+    // 首个目录项的保留字节
+    bytes[9] === 0,
+  decode: async (buffer) => {
+    const view = new DataView(buffer);
+    const [best] = readEntries(view)
+      .filter((entry) => entry.offset + entry.size <= buffer.byteLength)
+      .sort((a, b) => b.width * b.height - a.width * a.height || b.bitCount - a.bitCount);
+    if (!best) {
+      throw new Error('ICO 文件中没有可用的图标');
+    }
+
+    // Vista 起的大图标直接内嵌 PNG
+    if (view.getUint32(best.offset) === 0x89504e47) {
+      return new Blob([buffer.slice(best.offset, best.offset + best.size)], { type: 'image/png' });
+    }
+
+    const image = decodeDib(buffer, best.offset, undefined, true);
+    if (!image) {
+      throw new Error('不支持的 ICO 图标编码');
+    }
+    return image;
+  },
+};
@@ -0,0 +1,74 @@
+import { bmpDecoder } from '@/lib/decoders/bmp';
+import { heifDecoder } from '@/lib/decoders/heif';
+import { icoDecoder } from '@/lib/decoders/ico';
+import { psdDecoder } from '@/lib/decoders/psd';
+import { tiffDecoder } from '@/lib/decoders/tiff';
+import { throwIfAborted } from '@/lib/imageProcessing';
+
+/**
+ * 自定义解码器注册表
+ * 浏览器无法原生解码（或解码不完整）的格式按文件头魔数匹配解码器，解码结果交给流水线继续处理
+ */
+
+/**
+ * 解码结果：像素数据，或可由浏览器原生解码的内嵌数据（如 ICO 中的 PNG）
+ */
+export type DecodedImage = ImageData | Blob;
+
+export interface SourceDecoder {
+  // 对应的 MIME 类型
+  type: string;
+  // 根据文件开头的字节判断是否由该解码器处理
+  detect: (bytes: Uint8Array) => boolean;
+  // page 为多页格式的页序号，从 0 开始
+  decode: (buffer: ArrayBuffer, page: number, signal?: AbortSignal) => Promise<DecodedImage>;
+  // 多页格式的页数，未实现时视为单页
+  countPages?: (buffer: ArrayBuffer) => Promise<number>;
+}
+
+/**
+ * 魔数检测读取的字节数
+ */
+const MAGIC_BYTES = 64;
+
+const decoders: SourceDecoder[] = [heifDecoder, tiffDecoder, psdDecoder, icoDecoder, bmpDecoder];
+
+/**
+ * 注册解码器，后注册的优先匹配
+ */
+export const registerDecoder = (decoder: SourceDecoder) => {
+  decoders.unshift(decoder);
+};
+
+const findDecoder = async (file: Blob): Promise<SourceDecoder | null> => {
+  const bytes = new Uint8Array(await file.slice(0, MAGIC_BYTES).arrayBuffer());
+  return decoders.find((decoder) => decoder.detect(bytes)) ?? null;
+};
+
+/**
+ * 识别由注册表处理的格式，返回 MIME 类型
+ */
+export const detectDecoderType = async (file: Blob): Promise<string | null> => {
+  return (await findDecoder(file))?.type ?? null;
+};
+
+/**
+ * 使用匹配的解码器解码，没有匹配的解码器时返回 null，交给浏览器原生解码
+ */
+export const decodeSource = async (file: Blob, page = 0, signal?: AbortSignal): Promise<DecodedImage | null> => {
+  const decoder = await findDecoder(file);
+  if (!decoder) return null;
+
+  const buffer = await file.arrayBuffer();
+  throwIfAborted(signal);
+  return decoder.decode(buffer, page, signal);
+};
+
+/**
+ * 获取图片页数，单页格式返回 1
+ */
+export const countPages = async (file: Blob): Promise<number> => {
+  const decoder = await findDecoder(file);
+  if (!decoder?.countPages) return 1;
+  return Math.max(await decoder.countPages(await file.arrayBuffer()), 1);
+};
@@ -0,0 +1,127 @@
+import type { SourceDecoder } from '@/lib/decoders';
+
+/**
+ * PSD / PSB 解码
+ * 只读取文件末尾的合并图像（保存时需开启“最大兼容”），不解析图层
+ */
+
+const COLOR_MODE_GRAYSCALE = 1;
+const COLOR_MODE_INDEXED = 2;
+const COLOR_MODE_RGB = 3;
+const COLOR_MODE_CMYK = 4;
+
+/**
+ * PackBits 解压一行数据
+ */
+const unpackBits = (input: Uint8Array, output: Uint8Array, outputOffset: number, length: number) => {
+  let i = 0;
+  let o = outputOffset;
+  const end = outputOffset + length;
+
+  while (i < input.length && o < end) {
+    const header = (input[i++] << 24) >> 24;
+    if (header >= 0) {
+      const count = header + 1;
+      output.set(input.subarray(i, i + count), o);
+      i += count;
+      o += count;
+    } else if (header !== -128) {
+      output.fill(input[i++], o, o + 1 - header);
+      o += 1 - header;
+    }
+  }
+};
+
+export const psdDecoder: SourceDecoder = {
+  type: 'image/vnd.adobe.photoshop',
+  detect: (bytes) =>
+    bytes.length >= 26 && bytes[0] === 0x38 && bytes[1] === 0x42 && bytes[2] === 0x50 && bytes[3] === 0x53,
+  decode: async (buffer) => {
+    const view = new DataView(buffer);
+    const isPsb = view.getUint16(4) === 2;
+    const channels = view.getUint16(12);
+    const height = view.getUint32(14);
+    const width = view.getUint32(18);
+    const depth = view.getUint16(22);
+    const colorMode = view.getUint16(24);
+
+    if (depth !== 8 && depth !== 16) {
+      throw new Error(`不支持 ${depth} 位 PSD`);
+    }
+
+    // 依次跳过颜色模式数据、图像资源、图层与蒙版信息
+    let offset = 26;
+    const colorDataLength = view.getUint32(offset);
+    const colorData = new Uint8Array(buffer, offset + 4, colorDataLength);
+    offset += 4 + colorDataLength;
+    offset += 4 + view.getUint32(offset);
+    offset += isPsb ? 8 + Number(view.getBigUint64(offset)) : 4 + view.getUint32(offset);
+
+    // 合并图像：按通道平面存储
+    const compression = view.getUint16(offset);
+    offset += 2;
+    const bytesPerSample = depth / 8;
+    const rowLength = width * bytesPerSample;
+    const planeLength = rowLength * height;
+    const readChannels = Math.min(channels, colorMode === COLOR_MODE_CMYK ? 5 : 4);
+    const planes = new Uint8Array(planeLength * readChannels);
+
+    if (compression === 0) {
+      planes.set(new Uint8Array(buffer, offset, Math.min(planes.length, buffer.byteLength - offset)));
+    } else if (compression === 1) {
+      // RLE：先是每个通道每一行的压缩字节数
+      const countSize = isPsb ? 4 : 2;
+      let dataOffset = offset + channels * height * countSize;
+      for (let row = 0; row < readChannels * height; row++) {
+        const countOffset = offset + row * countSize;
+        const count = isPsb ? view.getUint32(countOffset) : view.getUint16(countOffset);
+        unpackBits(new Uint8Array(buffer, dataOffset, count), planes, row * rowLength, rowLength);
+        dataOffset += count;
+      }
+    } else {
+      throw new Error('不支持的 PSD 压缩方式');
+    }
+
+    // 16 位取高字节
+    const sample = (channel: number, index: number) => planes[channel * planeLength + index * bytesPerSample];
+    const pixels = new Uint8ClampedArray(width * height * 4);
+
+    for (let i = 0; i < width * height; i++) {
+      const p = i * 4;
+      switch (colorMode) {
+        case COLOR_MODE_GRAYSCALE:
+          pixels[p] = pixels[p + 1] = pixels[p + 2] = sample(0, i);
+          pixels[p + 3] = readChannels > 1 ? sample(1, i) : 255;
+          break;
+        case COLOR_MODE_INDEXED: {
+          // 调色板按 R、G、B 分段存储，各 256 项
+          const index = sample(0, i);
+          pixels[p] = colorData[index];
+          pixels[p + 1] = colorData[256 + index];
+          pixels[p + 2] = colorData[512 + index];
+          pixels[p + 3] = 255;
+          break;
+        }
+        case COLOR_MODE_RGB:
+          pixels[p] = sample(0, i);
+          pixels[p + 1] = sample(1, i);
+          pixels[p + 2] = sample(2, i);
+          pixels[p + 3] = readChannels > 3 ? sample(3, i) : 255;
+          break;
+        case COLOR_MODE_CMYK: {
+          // PSD 中 CMYK 以反相存储（255 表示无油墨）
+          const k = sample(3, i) / 255;
+          pixels[p] = sample(0, i) * k;
+          pixels[p + 1] = sample(1, i) * k;
+          pixels[p + 2] = sample(2, i) * k;
+          pixels[p + 3] = readChannels > 4 ? sample(4, i) : 255;
+          break;
+        }
+        default:
+          throw new Error('不支持的 PSD 颜色模式');
+      }
+    }
+
+    return new ImageData(pixels, width, height);
+  },
+};
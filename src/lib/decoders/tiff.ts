@@ -0,0 +1,45 @@
+import type { SourceDecoder } from '@/lib/decoders';
+import { throwIfAborted } from '@/lib/imageProcessing';
+
+/**
+ * TIFF 解码（UTIF.js）
+ * 支持多页文件，每页作为独立的图片处理
+ */
+
+const loadUtif = () => import('utif');
+
+/**
+ * 获取所有页的目录（IFD），跳过缩略图等缩小分辨率的子图像
+ */
+const getPages = (utif: Awaited<ReturnType<typeof loadUtif>>, buffer: ArrayBuffer) => {
+  return utif.decode(buffer).filter((ifd) => {
+    // NewSubfileType（标签 254）第 0 位表示缩小分辨率的图像
+    const subfileType = ifd.t254 as number[] | undefined;
+    return !((subfileType?.[0] ?? 0) & 1);
+  });
+};
+
+export const tiffDecoder: SourceDecoder = {
+  type: 'image/tiff',
+  // 小端 II*\0 或大端 MM\0*
+  detect: (bytes) =>
+    bytes.length >= 8 &&
+    ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2a && bytes[3] === 0) ||
+      (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 0x2a)),
+  decode: async (buffer, page, signal) => {
+    const utif = await loadUtif();
+    throwIfAborted(signal);
+
+    const pages = getPages(utif, buffer);
+    const ifd = pages[page] ?? pages[0];
+    if (!ifd) {
+      throw new Error('TIFF 文件中没有图像');
+    }
+
+    utif.decodeImage(buffer, ifd);
+    throwIfAborted(signal);
+    const rgba = utif.toRGBA8(ifd);
+    return new ImageData(new Uint8ClampedArray(rgba), ifd.width, ifd.height);
+  },
+  countPages: async (buffer) => getPages(await loadUtif(), buffer).length,
+};
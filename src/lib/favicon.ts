@@ -0,0 +1,117 @@
+import type { ExportFile, ProcessStage } from '@/types';
+import type { CanvasFactory, PipelineContext, PipelineSource } from '@/lib/imagePipeline';
+import { throwIfAborted } from '@/lib/imageProcessing';
+import { adjustCanvas } from '@/lib/adjustments';
+import { drawSource } from '@/lib/crop';
+import { encodeIco } from '@/lib/icoEncoder';
+import { optimizePng } from '@/lib/pngOptimizer';
+
+/**
+ * Favicon 套件
+ * 由一张源图生成多尺寸 favicon.ico、各平台 PNG 图标、site.webmanifest 与 <link> 标签
+ */
+
+/**
+ * 套件主文件名，<link> 标签中同样引用
+ */
+const FAVICON_FILE_NAME = 'favicon.ico';
+
+/**
+ * favicon.ico 包含的尺寸
+ */
+const ICO_SIZES = [16, 32, 48];
+
+/**
+ * PNG 图标的文件名与边长
+ */
+const PNG_ICONS = [
+  { name: 'favicon-16x16.png', size: 16 },
+  { name: 'favicon-32x32.png', size: 32 },
+  { name: 'apple-touch-icon.png', size: 180 },
+  { name: 'android-chrome-192x192.png', size: 192 },
+  { name: 'android-chrome-512x512.png', size: 512 },
+];
+
+/**
+ * PWA 清单引用的图标尺寸
+ */
+const MANIFEST_ICON_SIZES = [192, 512];
+
+const LINK_TAGS = [
+  `<link rel="icon" href="/${FAVICON_FILE_NAME}" sizes="48x48">`,
+  '<link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png">',
+  '<link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png">',
+  '<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon.png">',
+  '<link rel="manifest" href="/site.webmanifest">',
+].join('\n');
+
+const createManifest = (): string =>
+  JSON.stringify(
+    {
+      name: '',
+      short_name: '',
+      icons: MANIFEST_ICON_SIZES.map((size) => ({
+        src: `/android-chrome-${size}x${size}.png`,
+        sizes: `${size}x${size}`,
+        type: 'image/png',
+      })),
+      theme_color: '#ffffff',
+      background_color: '#ffffff',
+      display: 'standalone',
+    },
+    null,
+    2
+  );
+
+/**
+ * 等比缩放到正方形画布并居中，不足部分保持透明；应用颜色调整，不绘制水印
+ */
+const drawSquare = (source: PipelineSource, size: number, createCanvas: CanvasFactory) => {
+  const canvas = createCanvas(size, size);
+  const scale = Math.min(size / source.width, size / source.height);
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  canvas.context.imageSmoothingEnabled = true;
+  canvas.context.imageSmoothingQuality = 'high';
+  const rect = { x: Math.round((size - width) / 2), y: Math.round((size - height) / 2), width, height };
+  drawSource(canvas.context, source, rect.x, rect.y, width, height);
+  if (source.adjustments) adjustCanvas(canvas.context, rect, source.adjustments);
+
+  return canvas;
+};
+
+/**
+ * 生成 Favicon 套件，尺寸固定，不受尺寸调整与目标体积设置影响
+ * @param optimize 是否对 PNG 图标做无损优化
+ * @returns blob 为 favicon.ico，files 为套件全部文件
+ */
+export const createFaviconBundle = async (
+  source: PipelineSource,
+  { createCanvas, signal }: PipelineContext,
+  optimize: boolean,
+  report: (stage: ProcessStage, fraction?: number) => void
+): Promise<{ blob: Blob; files: ExportFile[] }> => {
+  report('encode');
+  const icons = ICO_SIZES.map((size) => drawSquare(source, size, createCanvas).context.getImageData(0, 0, size, size));
+  const blob = encodeIco(icons);
+
+  const files: ExportFile[] = [{ name: FAVICON_FILE_NAME, blob }];
+  for (const [index, { name, size }] of PNG_ICONS.entries()) {
+    throwIfAborted(signal);
+    const png = await drawSquare(source, size, createCanvas).toBlob('image/png', 1.0);
+    if (!png) {
+      throw new Error('PNG 图标生成失败');
+    }
+    files.push({ name, blob: optimize ? await optimizePng(png, signal) : png });
+    report(optimize ? 'compress' : 'encode', (index + 1) / PNG_ICONS.length);
+  }
+
+  files.push(
+    { name: 'site.webmanifest', blob: new Blob([createManifest() + '\n'], { type: 'application/manifest+json' }) },
+    { name: 'favicon.html', blob: new Blob([LINK_TAGS + '\n'], { type: 'text/html' }) }
+  );
+
+  throwIfAborted(signal);
+  return { blob, files };
+};
@@ -0,0 +1,58 @@
+import type { AnimationFrame } from '@/lib/animation';
+import { throwIfAborted } from '@/lib/imageProcessing';
+
+/**
+ * GIF 编码（gifenc）
+ * 浏览器 Canvas 均不支持输出 GIF，这里逐帧量化调色板后编码
+ */
+
+/**
+ * GIF 调色板最多 256 色
+ */
+const MAX_COLORS = 256;
+
+const hasTransparency = (pixels: Uint8ClampedArray): boolean => {
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * 将一帧或多帧编码为 GIF，每帧使用独立的局部调色板
+ * @param onProgress 已编码帧数占比（0-1）
+ */
+export const encodeGif = async (
+  frames: AnimationFrame[],
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  // 按需加载，未输出 GIF 时不下载
+  const { GIFEncoder, quantize, applyPalette } = await import('gifenc');
+  const gif = GIFEncoder();
+
+  frames.forEach(({ data, delay }, i) => {
+    throwIfAborted(signal);
+
+    // 不透明帧使用 RGB565 保留更多色彩精度；GIF 只支持 1 位透明度
+    const transparent = hasTransparency(data.data);
+    const format = transparent ? 'rgba4444' : 'rgb565';
+    const palette = quantize(data.data, MAX_COLORS, { format, oneBitAlpha: transparent });
+    const index = applyPalette(data.data, palette, format);
+    const transparentIndex = transparent ? palette.findIndex((color) => color[3] === 0) : -1;
+
+    gif.writeFrame(index, data.width, data.height, {
+      palette,
+      delay,
+      repeat: 0,
+      transparent: transparentIndex >= 0,
+      transparentIndex: Math.max(transparentIndex, 0),
+      // 每帧都是完整画面，带透明的帧需要在绘制下一帧前清除
+      dispose: transparentIndex >= 0 ? 2 : -1,
+    });
+    onProgress?.((i + 1) / frames.length);
+  });
+
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
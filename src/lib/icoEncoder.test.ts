@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeIco } from '@/lib/icoEncoder';
+
+vi.stubGlobal(
+  'ImageData',
+  class {
+    constructor(
+      public data: Uint8ClampedArray,
+      public width: number,
+      public height: number
+    ) {}
+  }
+);
+
+const createImage = (width: number, height: number, fill: (index: number) => number[] = () => [0, 0, 0, 0]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set(fill(i), i * 4);
+  return new ImageData(data, width, height);
+};
+
+// 只检查内嵌方式，编码器不解析 PNG 内容
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+const readIco = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const entries = Array.from({ length: view.getUint16(4, true) }, (_, index) => {
+    const entry = 6 + index * 16;
+    return {
+      width: bytes[entry],
+      height: bytes[entry + 1],
+      colorCount: bytes[entry + 2],
+      reserved: bytes[entry + 3],
+      planes: view.getUint16(entry + 4, true),
+      bitCount: view.getUint16(entry + 6, true),
+      size: view.getUint32(entry + 8, true),
+      offset: view.getUint32(entry + 12, true),
+    };
+  });
+  return { bytes, view, entries };
+};
+
+describe('encodeIco', () => {
+  it('写入 ICONDIR 与各 ICONDIRENTRY，图像数据首尾相接', async () => {
+    const blob = encodeIco([createImage(16, 16), createImage(48, 48), createImage(256, 256)]);
+    expect(blob.type).toBe('image/x-icon');
+
+    const { bytes, view, entries } = await readIco(blob);
+    // 保留字段、类型（1 = 图标）、数量
+    expect([view.getUint16(0, true), view.getUint16(2, true), view.getUint16(4, true)]).toEqual([0, 1, 3]);
+
+    // DIB 大小为信息头、像素与按 4 字节对齐的 AND 遮罩之和
+    const sizes = [40 + 16 * 16 * 4 + 4 * 16, 40 + 48 * 48 * 4 + 8 * 48, 40 + 256 * 256 * 4 + 32 * 256];
+    const header = { colorCount: 0, reserved: 0, planes: 1, bitCount: 32 };
+    // 256 记为 0，第一张图像紧跟 6 字节 ICONDIR 与 3 个 16 字节的 ICONDIRENTRY
+    expect(entries).toEqual([
+      { ...header, width: 16, height: 16, size: sizes[0], offset: 54 },
+      { ...header, width: 48, height: 48, size: sizes[1], offset: 54 + sizes[0] },
+      { ...header, width: 0, height: 0, size: sizes[2], offset: 54 + sizes[0] + sizes[1] },
+    ]);
+    expect(entries[2].offset + entries[2].size).toBe(bytes.length);
+  });
+
+  it('DIB 信息头的高度为图像与遮罩之和，像素自下而上存为 BGRA', async () => {
+    // 第一行红、绿，第二行蓝、半透明白
+    const colors = [
+      [255, 0, 0, 255],
+      [0, 255, 0, 255],
+      [0, 0, 255, 255],
+      [255, 255, 255, 128],
+    ];
+    const { bytes, view, entries } = await readIco(encodeIco([createImage(2, 2, (index) => colors[index])]));
+    const dib = entries[0].offset;
+
+    expect(view.getUint32(dib, true)).toBe(40);
+    expect(view.getInt32(dib + 4, true)).toBe(2);
+    expect(view.getInt32(dib + 8, true)).toBe(4);
+    expect(view.getUint16(dib + 12, true)).toBe(1);
+    expect(view.getUint16(dib + 14, true)).toBe(32);
+    expect(view.getUint32(dib + 20, true)).toBe(2 * 2 * 4 + 4 * 2);
+
+    // 先存第二行
+    expect(Array.from(bytes.subarray(dib + 40, dib + 56))).toEqual([
+      255, 0, 0, 255, 255, 255, 255, 128,
+      0, 0, 255, 255, 0, 255, 0, 255,
+    ]);
+    // AND 遮罩全 0，透明度由 Alpha 决定
+    expect(bytes.subarray(dib + 56).every((byte) => byte === 0)).toBe(true);
+  });
+
+  it('内嵌 PNG 原样写入，与 DIB 混合时偏移连续', async () => {
+    const { bytes, entries } = await readIco(encodeIco([createImage(32, 32), { width: 256, height: 256, png: PNG }]));
+
+    expect(entries[1]).toMatchObject({ width: 0, height: 0, planes: 1, bitCount: 32, size: PNG.length });
+    expect(entries[1].offset).toBe(entries[0].offset + entries[0].size);
+    expect(bytes.subarray(entries[1].offset)).toEqual(PNG);
+  });
+});
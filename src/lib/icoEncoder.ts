@@ -0,0 +1,80 @@
+/**
+ * ICO 编码
+ * 像素数据写入 32 位 BGRA 的 DIB（兼容性优于内嵌 PNG），透明度取自 Alpha 通道；已编码的 PNG 原样内嵌
+ */
+
+const ICONDIR_SIZE = 6;
+const ICONDIRENTRY_SIZE = 16;
+const BITMAPINFOHEADER_SIZE = 40;
+
+/**
+ * 内嵌的 PNG 图标（Vista 起支持，适合 256 等大尺寸）
+ */
+export interface IcoPngImage {
+  width: number;
+  height: number;
+  png: Uint8Array<ArrayBuffer>;
+}
+
+export type IcoImage = ImageData | IcoPngImage;
+
+/**
+ * 单个图标的 DIB 数据：信息头 + 自下而上的 BGRA 像素 + 1 位 AND 遮罩
+ */
+const encodeDib = (image: ImageData): Uint8Array<ArrayBuffer> => {
+  const { width, height, data } = image;
+  const pixelSize = width * height * 4;
+  // AND 遮罩每行按 4 字节对齐，全 0 表示由 Alpha 决定透明度
+  const maskSize = Math.ceil(width / 32) * 4 * height;
+  const bytes = new Uint8Array(BITMAPINFOHEADER_SIZE + pixelSize + maskSize);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, BITMAPINFOHEADER_SIZE, true);
+  view.setInt32(4, width, true);
+  // 高度为图像与遮罩之和
+  view.setInt32(8, height * 2, true);
+  view.setUint16(12, 1, true);
+  view.setUint16(14, 32, true);
+  view.setUint32(20, pixelSize + maskSize, true);
+
+  for (let y = 0; y < height; y++) {
+    const row = BITMAPINFOHEADER_SIZE + (height - 1 - y) * width * 4;
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const target = row + x * 4;
+      bytes[target] = data[source + 2];
+      bytes[target + 1] = data[source + 1];
+      bytes[target + 2] = data[source];
+      bytes[target + 3] = data[source + 3];
+    }
+  }
+
+  return bytes;
+};
+
+/**
+ * 将多个尺寸的图标编码为一个 ICO 文件，尺寸不超过 256
+ */
+export const encodeIco = (images: IcoImage[]): Blob => {
+  const entries = images.map((image) => ('png' in image ? image.png : encodeDib(image)));
+  const header = new Uint8Array(ICONDIR_SIZE + ICONDIRENTRY_SIZE * images.length);
+  const view = new DataView(header.buffer);
+
+  view.setUint16(2, 1, true);
+  view.setUint16(4, images.length, true);
+
+  let offset = header.length;
+  images.forEach((image, index) => {
+    const entry = ICONDIR_SIZE + index * ICONDIRENTRY_SIZE;
+    // 256 记为 0
+    view.setUint8(entry, image.width & 0xff);
+    view.setUint8(entry + 1, image.height & 0xff);
+    view.setUint16(entry + 4, 1, true);
+    view.setUint16(entry + 6, 32, true);
+    view.setUint32(entry + 8, entries[index].length, true);
+    view.setUint32(entry + 12, offset, true);
+    offset += entries[index].length;
+  });
+
+  return new Blob([header, ...entries], { type: 'image/x-icon' });
+};
@@ -0,0 +1,222 @@
+/**
+ * 图片文件头解析
+ * 只读取文件开头的少量字节获取宽高，避免为了调度而完整解码
+ */
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * 读取文件头的字节数（JPEG 的 SOF 可能位于较大的 EXIF 段之后）
+ */
+const HEADER_BYTES = 512 * 1024;
+
+const readAscii = (view: DataView, offset: number, length: number): string => {
+  let result = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+};
+
+/**
+ * PNG：IHDR 固定位于第 16 字节
+ */
+const readPngDimensions = (view: DataView): ImageDimensions | null => {
+  if (view.byteLength < 24 || view.getUint32(0) !== 0x89504e47) return null;
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+/**
+ * GIF：逻辑屏幕描述符
+ */
+const readGifDimensions = (view: DataView): ImageDimensions | null => {
+  if (view.byteLength < 10 || readAscii(view, 0, 3) !== 'GIF') return null;
+  return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+};
+
+/**
+ * BMP：BITMAPINFOHEADER，高度为负表示自上而下存储
+ */
+const readBmpDimensions = (view: DataView): ImageDimensions | null => {
+  if (view.byteLength < 26 || readAscii(view, 0, 2) !== 'BM') return null;
+  return { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+};
+
+/**
+ * JPEG：遍历标记段直到 SOFn
+ */
+const readJpegDimensions = (view: DataView): ImageDimensions | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    // 填充字节
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // SOF0-SOF15，排除 DHT(C4)、JPG(C8)、DAC(CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+};
+
+/**
+ * WebP：VP8 / VP8L / VP8X 三种块
+ */
+const readWebpDimensions = (view: DataView): ImageDimensions | null => {
+  if (view.byteLength < 30 || readAscii(view, 0, 4) !== 'RIFF' || readAscii(view, 8, 4) !== 'WEBP') {
+    return null;
+  }
+
+  const chunk = readAscii(view, 12, 4);
+  if (chunk === 'VP8 ') {
+    return {
+      width: view.getUint16(26, true) & 0x3fff,
+      height: view.getUint16(28, true) & 0x3fff,
+    };
+  }
+  if (chunk === 'VP8L') {
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') {
+    const width = view.getUint8(24) | (view.getUint8(25) << 8) | (view.getUint8(26) << 16);
+    const height = view.getUint8(27) | (view.getUint8(28) << 8) | (view.getUint8(29) << 16);
+    return { width: width + 1, height: height + 1 };
+  }
+  return null;
+};
+
+/**
+ * AVIF / HEIF：查找 ispe（图像空间尺寸）属性盒
+ */
+const readIsobmffDimensions = (view: DataView): ImageDimensions | null => {
+  if (view.byteLength < 12 || readAscii(view, 4, 4) !== 'ftyp') return null;
+
+  for (let offset = 8; offset + 20 <= view.byteLength; offset++) {
+    if (readAscii(view, offset, 4) === 'ispe') {
+      // 4 字节 box 类型 + 4 字节 version/flags
+      return { width: view.getUint32(offset + 8), height: view.getUint32(offset + 12) };
+    }
+  }
+  return null;
+};
+
+const readers = [
+  readPngDimensions,
+  readJpegDimensions,
+  readWebpDimensions,
+  readGifDimensions,
+  readBmpDimensions,
+  readIsobmffDimensions,
+];
+
+/**
+ * 从文件头读取图片宽高，无法识别时返回 null
+ */
+export const readImageDimensions = async (file: Blob): Promise<ImageDimensions | null> => {
+  try {
+    const buffer = await file.slice(0, HEADER_BYTES).arrayBuffer();
+    const view = new DataView(buffer);
+
+    for (const read of readers) {
+      const dimensions = read(view);
+      if (dimensions && dimensions.width > 0 && dimensions.height > 0) {
+        return dimensions;
+      }
+    }
+  } catch {
+    // 读取失败时交给调用方按文件大小估算
+  }
+  return null;
+};
+
+/**
+ * PNG：带 Alpha 的颜色类型（4、6），或在 IDAT 之前出现 tRNS 块
+ */
+const pngMayHaveAlpha = (view: DataView): boolean => {
+  const colorType = view.getUint8(25);
+  if (colorType === 4 || colorType === 6) return true;
+
+  for (let offset = 8; offset + 8 <= view.byteLength; offset += 12 + view.getUint32(offset)) {
+    const type = readAscii(view, offset + 4, 4);
+    if (type === 'tRNS') return true;
+    if (type === 'IDAT') return false;
+  }
+  return true;
+};
+
+/**
+ * WebP：有损 VP8 不含 Alpha；VP8L 看 alpha_is_used 位，VP8X 看 Alpha 标志
+ */
+const webpMayHaveAlpha = (view: DataView): boolean => {
+  const chunk = readAscii(view, 12, 4);
+  if (chunk === 'VP8 ') return false;
+  if (chunk === 'VP8L') return ((view.getUint32(21, true) >> 28) & 1) === 1;
+  if (chunk === 'VP8X') return (view.getUint8(20) & 0x10) !== 0;
+  return true;
+};
+
+/**
+ * 从文件头判断图片是否可能含透明像素，只有确定不透明时返回 false
+ * 结果为 true 时仍需解码检查像素（如 RGBA 的 PNG 可能所有像素都不透明）
+ */
+export const mayHaveAlpha = async (file: Blob): Promise<boolean> => {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    if (readPngDimensions(view)) return pngMayHaveAlpha(view);
+    if (view.byteLength >= 3 && view.getUint16(0) === 0xffd8 && view.getUint8(2) === 0xff) return false;
+    if (readWebpDimensions(view)) return webpMayHaveAlpha(view);
+    // BMP 只有 32 位时带 Alpha
+    if (readBmpDimensions(view)) return view.byteLength >= 30 && view.getUint16(28, true) === 32;
+  } catch {
+    // 读取失败时按可能透明处理
+  }
+  // GIF 的透明色、AVIF / HEIF 的 Alpha 辅助图像等需解码后判断
+  return true;
+};
+
+/**
+ * ISOBMFF 的 ftyp 品牌（主品牌与兼容品牌）
+ */
+const readIsobmffBrands = (view: DataView): string[] => {
+  if (view.byteLength < 16 || readAscii(view, 4, 4) !== 'ftyp') return [];
+
+  const boxEnd = Math.min(view.getUint32(0), view.byteLength);
+  const brands = [readAscii(view, 8, 4)];
+  // 跳过 4 字节次版本号
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(readAscii(view, offset, 4));
+  }
+  return brands;
+};
+
+/**
+ * 根据文件头魔数识别图片的实际格式，无法识别时返回 null
+ */
+export const sniffImageType = async (file: Blob): Promise<string | null> => {
+  const view = new DataView(await file.slice(0, 64).arrayBuffer());
+  if (view.byteLength < 4) return null;
+
+  if (view.getUint32(0) === 0x89504e47) return 'image/png';
+  if (view.getUint16(0) === 0xffd8 && view.getUint8(2) === 0xff) return 'image/jpeg';
+  if (readAscii(view, 0, 4) === 'GIF8') return 'image/gif';
+  if (readAscii(view, 0, 4) === 'RIFF' && readAscii(view, 8, 4) === 'WEBP') return 'image/webp';
+  if (readAscii(view, 0, 2) === 'BM') return 'image/bmp';
+  // ICO：保留字段为 0，类型为 1
+  if (view.getUint32(0) === 0x00000100) return 'image/x-icon';
+
+  const brands = readIsobmffBrands(view);
+  if (brands.includes('avif') || brands.includes('avis')) return 'image/avif';
+
+  return null;
+};
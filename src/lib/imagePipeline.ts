@@ -0,0 +1,788 @@
+import type {
+  ColorAdjustments,
+  CropRect,
+  DimensionChange,
+  ExportFile,
+  FormatFallback,
+  ImageTransform,
+  MetadataPolicy,
+  ProcessMode,
+  ProcessProgress,
+  ProcessStage,
+  ResamplingFilter,
+  ResizeOptions,
+  SharpenSettings,
+  TargetSizeResult,
+  WatermarkSettings,
+} from '@/types';
+import {
+  calculateResizedDimensions,
+  calculateResizeLayout,
+  compressImage,
+  getFallbackFormat,
+  getFrameRect,
+  getStageProgress,
+  isLossyFormat,
+  limitDimensions,
+  supportsTransparency,
+  throwIfAborted,
+  type ResizeFrame,
+} from '@/lib/imageProcessing';
+import { createCheckedCanvas, isCanvasSizeSupported, SAFE_CANVAS_SIZE } from '@/lib/canvasLimits';
+import { adjustCanvas, isNeutralAdjustments } from '@/lib/adjustments';
+import { clampCrop, drawSource } from '@/lib/crop';
+import { canEncodeAnimation, decodeAnimation, detectAnimation, encodeAnimation, resizeFrames } from '@/lib/animation';
+import { createFaviconBundle } from '@/lib/favicon';
+import {
+  createResponsiveFiles,
+  getPrimaryVariant,
+  getResponsiveWidths,
+  type ResponsiveVariant,
+} from '@/lib/responsive';
+import { encodeGif } from '@/lib/gifEncoder';
+import { filterMetadata, getMetadataSize, getOrientation, readMetadata, writeMetadata } from '@/lib/metadata';
+import { optimizePng } from '@/lib/pngOptimizer';
+import { getMaxPixels } from '@/lib/processingQueue';
+import { getSourceTransform, invertTransform, isIdentityTransform, orientationToTransform, transformRect, transformSize } from '@/lib/transform';
+import { canEncodeWithWasm, encodeWithWasm } from '@/lib/wasmEncoders';
+import { resampleImage, unsharpMask } from '@/lib/resample';
+import { flattenImage } from '@/lib/transparency';
+import { drawWatermark, prepareWatermark, type PreparedWatermark } from '@/lib/watermark';
+
+/**
+ * 图片处理流水线
+ * 解码之后的尺寸调整、编码、目标体积搜索和压缩，Worker（OffscreenCanvas）与主线程（DOM Canvas）共用
+ */
+
+/**
+ * 目标体积模式：二分搜索的最低质量、搜索次数和允许缩小到的最小边长
+ */
+const MIN_TARGET_QUALITY = 0.05;
+const TARGET_SEARCH_STEPS = 6;
+const MIN_TARGET_DIMENSION = 32;
+
+/**
+ * 流水线参数
+ */
+export interface PipelineOptions {
+  type: ProcessMode;
+  format: string;
+  enableCompression: boolean;
+  quality: number; // 输出格式的编码质量，由主线程按格式解析
+  resize: ResizeOptions;
+  // 裁剪区域（文件中存储的像素方向），在尺寸调整之前应用
+  crop?: CropRect;
+  // 按 EXIF 方向校正，关闭时忽略方向标签
+  autoOrient: boolean;
+  // 方向校正之后的旋转与翻转
+  transform?: ImageTransform;
+  // 缩放算法
+  resampling: ResamplingFilter;
+  // 缩小后的锐化，为空表示不锐化
+  sharpen?: SharpenSettings;
+  // 尺寸调整之后的颜色调整
+  adjustments?: ColorAdjustments;
+  // 颜色调整之后绘制的水印
+  watermark?: WatermarkSettings;
+  // 输出格式不支持透明时铺在图片下方的背景色
+  matte: string;
+  // 元数据处理策略
+  metadata: MetadataPolicy;
+  // 多页图片（TIFF）要处理的页，由解码阶段使用
+  page?: number;
+  targetSize?: {
+    bytes: number;
+    allowDownscale: boolean;
+  };
+  // 响应式图片集：按各宽度与格式输出，代替单一格式
+  responsive?: {
+    widths: number[];
+    formats: { format: string; quality: number }[];
+    // 输出文件名前缀
+    baseName: string;
+  };
+}
+
+/**
+ * 已解码的源图片
+ */
+export interface PipelineSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  mimeType: string;
+  // 原始文件数据，用于跳过画布重编码的无损路径
+  file: Blob;
+  // 绘制时取用的源区域（裁剪），此时 width / height 为区域尺寸
+  region?: CropRect;
+  // 绘制时的旋转与翻转，此时 width / height 为变换后的尺寸
+  transform?: ImageTransform;
+  // cover 裁切或 contain 留白时图片在输出画布中的区域，为空时铺满画布
+  frame?: ResizeFrame;
+  // contain 留白的颜色，为空时透明
+  padColor?: string;
+  // 重采样的卷积核，为空时使用浏览器缩放
+  resampling?: Exclude<ResamplingFilter, 'browser'>;
+  // 缩小后的锐化
+  sharpen?: SharpenSettings;
+  // 绘制到输出尺寸之后的颜色调整
+  adjustments?: ColorAdjustments;
+  // 颜色调整之后叠加的水印
+  watermark?: PreparedWatermark;
+  // 编码为不支持透明的格式前铺上的背景色
+  matte?: string;
+}
+
+/**
+ * 与运行环境无关的画布封装
+ */
+export interface PipelineCanvas {
+  width: number;
+  height: number;
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  toBlob: (type: string, quality: number) => Promise<Blob | null>;
+}
+
+export type CanvasFactory = (width: number, height: number) => PipelineCanvas;
+
+export interface PipelineContext {
+  createCanvas: CanvasFactory;
+  // 在 Worker 内运行时需关闭，避免压缩库再嵌套创建 Worker
+  useWebWorker: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: ProcessProgress) => void;
+}
+
+export interface PipelineResult {
+  blob: Blob;
+  targetSize?: TargetSizeResult;
+  fallbacks: FormatFallback[];
+  dimensionChange?: DimensionChange;
+  files?: ExportFile[];
+}
+
+/**
+ * 基于 OffscreenCanvas 的画布（Worker 内使用）
+ */
+export const createOffscreenCanvas: CanvasFactory = (width, height) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('无法创建 Canvas 上下文');
+  }
+
+  return {
+    width,
+    height,
+    context,
+    toBlob: (type, quality) => canvas.convertToBlob({ type, quality }),
+  };
+};
+
+/**
+ * 基于 DOM Canvas 的画布（不支持 OffscreenCanvas 时的主线程回退）
+ */
+export const createDomCanvas: CanvasFactory = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('无法创建 Canvas 上下文');
+  }
+
+  return {
+    width,
+    height,
+    context,
+    toBlob: (type, quality) => new Promise((resolve) => canvas.toBlob(resolve, type, quality)),
+  };
+};
+
+/**
+ * 按裁剪区域与方向生成新的源，width / height 为最终输出方向上的尺寸
+ * 裁剪区域以存储的像素为准，解码结果已按 EXIF 方向旋转，需先换算到解码结果中
+ */
+const prepareSource = (source: PipelineSource, options: PipelineOptions, orientation: number): PipelineSource => {
+  const decodedOrientation = orientationToTransform(orientation);
+  const stored = transformSize(source, invertTransform(decodedOrientation));
+  const crop = options.crop && clampCrop(options.crop, stored);
+  const region =
+    crop && (crop.width !== stored.width || crop.height !== stored.height)
+      ? transformRect(crop, stored, decodedOrientation)
+      : undefined;
+
+  const transform = getSourceTransform(orientation, options.autoOrient, options.transform);
+  const size = transformSize(region ?? source, transform);
+  return {
+    ...source,
+    ...size,
+    region,
+    transform: isIdentityTransform(transform) ? undefined : transform,
+  };
+};
+
+/**
+ * 绘制结果：画布，或超出浏览器画布上限时分块绘制得到的像素数据
+ */
+type RenderedImage = PipelineCanvas | ImageData;
+
+/**
+ * 超出画布上限时分块绘制，拼接为完整的像素数据
+ * 每块都按整图尺寸偏移绘制、由浏览器裁剪，缩放采样与整图绘制一致，块间没有接缝
+ */
+const drawInTiles = (
+  source: PipelineSource,
+  width: number,
+  height: number,
+  createCanvas: CanvasFactory,
+  signal?: AbortSignal
+): ImageData => {
+  const tile = createCanvas(Math.min(width, SAFE_CANVAS_SIZE), Math.min(height, SAFE_CANVAS_SIZE));
+  tile.context.imageSmoothingEnabled = true;
+  tile.context.imageSmoothingQuality = 'high';
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const rect = getFrameRect(source.frame, width, height);
+
+  for (let y = 0; y < height; y += tile.height) {
+    for (let x = 0; x < width; x += tile.width) {
+      throwIfAborted(signal);
+      const tileWidth = Math.min(tile.width, width - x);
+      const tileHeight = Math.min(tile.height, height - y);
+      tile.context.clearRect(0, 0, tile.width, tile.height);
+      if (source.padColor) {
+        tile.context.fillStyle = source.padColor;
+        tile.context.fillRect(0, 0, tile.width, tile.height);
+      }
+      drawSource(tile.context, source, rect.x - x, rect.y - y, rect.width, rect.height);
+      if (source.adjustments) {
+        adjustCanvas(tile.context, { ...rect, x: rect.x - x, y: rect.y - y }, source.adjustments);
+      }
+      if (source.watermark) drawWatermark(tile.context, width, height, source.watermark, x, y);
+
+      const data = tile.context.getImageData(0, 0, tileWidth, tileHeight).data;
+      for (let row = 0; row < tileHeight; row++) {
+        pixels.set(data.subarray(row * tileWidth * 4, (row + 1) * tileWidth * 4), ((y + row) * width + x) * 4);
+      }
+    }
+  }
+
+  return new ImageData(pixels, width, height);
+};
+
+/**
+ * 限制输出尺寸：画布可用时以 MAX_PIXELS 为上限；超出画布上限需分块绘制时，
+ * 整张输出的像素数据位于 JS 内存中，另按内存预算限制，避免移动端一次分配数百 MB
+ */
+const limitOutputDimensions = (width: number, height: number, createCanvas: CanvasFactory) => {
+  const limited = limitDimensions(width, height);
+  const maxPixels = getMaxPixels();
+  if (limited.width * limited.height <= maxPixels || isCanvasSizeSupported(limited.width, limited.height, createCanvas)) {
+    return limited;
+  }
+  return limitDimensions(limited.width, limited.height, maxPixels);
+};
+
+/**
+ * 按原尺寸绘制（已裁剪与旋转）的源像素，同一源多次绘制（目标体积、响应式）时复用
+ * 画布超出浏览器上限时为 null，改用浏览器缩放
+ */
+const sourcePixels = new WeakMap<PipelineSource, ImageData | null>();
+
+const readSourcePixels = (source: PipelineSource, createCanvas: CanvasFactory): ImageData | null => {
+  const cached = sourcePixels.get(source);
+  if (cached !== undefined) return cached;
+
+  const canvas = createCheckedCanvas(source.width, source.height, createCanvas);
+  let pixels: ImageData | null = null;
+  if (canvas) {
+    drawSource(canvas.context, source, 0, 0, source.width, source.height);
+    pixels = canvas.context.getImageData(0, 0, source.width, source.height);
+  }
+  sourcePixels.set(source, pixels);
+  return pixels;
+};
+
+/**
+ * 将源图片绘制到指定尺寸，画布超出当前浏览器上限时改为分块绘制
+ * 分块绘制时无法取得完整的源像素，使用浏览器缩放且不锐化
+ */
+const renderImage = async (
+  source: PipelineSource,
+  width: number,
+  height: number,
+  createCanvas: CanvasFactory,
+  signal?: AbortSignal
+): Promise<RenderedImage> => {
+  const canvas = createCheckedCanvas(width, height, createCanvas);
+  if (!canvas) {
+    return drawInTiles(source, width, height, createCanvas, signal);
+  }
+
+  // 图片所在区域：cover 时超出画布的部分被裁掉，contain 时四周留白
+  const rect = getFrameRect(source.frame, width, height);
+  if (source.padColor) {
+    canvas.context.fillStyle = source.padColor;
+    canvas.context.fillRect(0, 0, width, height);
+  }
+
+  const filter = source.resampling;
+  const resized = rect.width !== source.width || rect.height !== source.height;
+  const downscaled = rect.width < source.width || rect.height < source.height;
+  const pixels = filter && resized ? readSourcePixels(source, createCanvas) : null;
+  if (filter && pixels) {
+    const output = await resampleImage(pixels, rect.width, rect.height, filter);
+    throwIfAborted(signal);
+    if (source.sharpen && downscaled) unsharpMask(output, source.sharpen);
+    if (source.padColor) {
+      // putImageData 直接替换像素，需经画布绘制才能与留白颜色混合
+      const layer = createCanvas(rect.width, rect.height);
+      layer.context.putImageData(output, 0, 0);
+      canvas.context.drawImage(layer.context.canvas, rect.x, rect.y);
+    } else {
+      canvas.context.putImageData(output, rect.x, rect.y);
+    }
+  } else {
+    // 启用高质量缩放
+    canvas.context.imageSmoothingEnabled = true;
+    canvas.context.imageSmoothingQuality = 'high';
+    drawSource(canvas.context, source, rect.x, rect.y, rect.width, rect.height);
+    if (source.sharpen && downscaled) {
+      // 只锐化图片所在的部分，留白边缘不产生光晕
+      const x = Math.max(0, rect.x);
+      const y = Math.max(0, rect.y);
+      const visibleWidth = Math.min(width, rect.x + rect.width) - x;
+      const visibleHeight = Math.min(height, rect.y + rect.height) - y;
+      const output = canvas.context.getImageData(x, y, visibleWidth, visibleHeight);
+      unsharpMask(output, source.sharpen);
+      canvas.context.putImageData(output, x, y);
+    }
+  }
+  if (source.adjustments) adjustCanvas(canvas.context, rect, source.adjustments);
+  if (source.watermark) drawWatermark(canvas.context, width, height, source.watermark);
+
+  return canvas;
+};
+
+/**
+ * 输出格式不支持透明时原地铺上背景色，否则透明区域会被编码为黑色
+ */
+const flattenForFormat = (image: RenderedImage, format: string, matte?: string) => {
+  if (matte && !supportsTransparency(format)) flattenImage(image, matte);
+};
+
+/**
+ * WASM 编码器输出的图片，压缩步骤原样返回
+ */
+const wasmEncodedBlobs = new WeakSet<Blob>();
+
+/**
+ * 由像素数据编码 PNG（分块绘制的结果没有画布可用）
+ */
+const encodePngData = async (image: ImageData): Promise<Blob> => {
+  const UPNG = await import('upng-js');
+  // 颜色数为 0 表示无损
+  const output = UPNG.encode([image.data.buffer], image.width, image.height, 0);
+  return new Blob([output], { type: 'image/png' });
+};
+
+/**
+ * 记录格式回退，相同的回退只记录一次
+ */
+const recordFallback = (fallbacks: FormatFallback[] | undefined, from: string, to: string) => {
+  if (fallbacks && !fallbacks.some((fallback) => fallback.from === from && fallback.to === to)) {
+    fallbacks.push({ from, to });
+  }
+};
+
+/**
+ * 将画布编码为指定格式
+ * JPEG/WebP/AVIF 优先使用 WASM 编码器；Canvas 编码时浏览器遇到不支持的格式会静默输出 PNG（或返回 null），因此需要校验实际类型
+ * @param canvas 画布，或分块绘制得到的像素数据（只能使用 WASM 编码器与 PNG 编码）
+ * @param fallbacks 发生格式回退时追加记录
+ */
+export const encodeCanvas = async (
+  canvas: RenderedImage,
+  format: string,
+  quality: number,
+  fallbacks?: FormatFallback[]
+): Promise<Blob> => {
+  const getImageData = () =>
+    canvas instanceof ImageData ? canvas : canvas.context.getImageData(0, 0, canvas.width, canvas.height);
+
+  if (format === 'image/gif') {
+    return encodeGif([{ data: getImageData(), delay: 0 }]);
+  }
+
+  // 优先 WASM 编码，再尝试 Canvas 原生编码
+  const encodeAs = async (type: string): Promise<Blob | null> => {
+    if (canEncodeWithWasm(type)) {
+      const wasmBlob = await encodeWithWasm(getImageData(), type, quality);
+      if (wasmBlob) {
+        wasmEncodedBlobs.add(wasmBlob);
+        return wasmBlob;
+      }
+    }
+    if (canvas instanceof ImageData) {
+      return type === 'image/png' ? encodePngData(canvas) : null;
+    }
+    const nativeBlob = await canvas.toBlob(type, quality);
+    return nativeBlob && nativeBlob.size > 0 && nativeBlob.type === type ? nativeBlob : null;
+  };
+
+  const blob = await encodeAs(format);
+  if (blob) return blob;
+
+  const fallbackFormat = getFallbackFormat(format);
+  if (fallbackFormat !== format) {
+    const fallbackBlob = await encodeAs(fallbackFormat);
+    if (fallbackBlob) {
+      recordFallback(fallbacks, format, fallbackFormat);
+      return fallbackBlob;
+    }
+  }
+
+  // Blob 生成失败，尝试回退到 PNG
+  console.warn(`${format} 生成失败，回退到 PNG`);
+  recordFallback(fallbacks, format, 'image/png');
+  const pngBlob = canvas instanceof ImageData ? await encodePngData(canvas) : await canvas.toBlob('image/png', 1.0);
+  if (!pngBlob) {
+    throw new Error('图片转换失败，请尝试其他格式');
+  }
+  return pngBlob;
+};
+
+const formatKilobytes = (bytes: number): string => `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * 按目标体积编码：先二分搜索质量，最低质量仍超出时按需逐步缩小尺寸
+ */
+const encodeToTargetSize = async (
+  source: PipelineSource,
+  format: string,
+  initialSize: { width: number; height: number },
+  { bytes, allowDownscale }: NonNullable<PipelineOptions['targetSize']>,
+  { createCanvas, signal, onProgress }: PipelineContext,
+  fallbacks: FormatFallback[]
+): Promise<PipelineResult> => {
+  if (!isLossyFormat(format)) {
+    throw new Error('目标体积模式仅支持 JPEG、WebP、AVIF 输出');
+  }
+
+  let { width, height } = initialSize;
+
+  for (;;) {
+    const canvas = await renderImage(source, width, height, createCanvas, signal);
+    flattenForFormat(canvas, format, source.matte);
+    const encodeAt = (quality: number) => {
+      throwIfAborted(signal);
+      return encodeCanvas(canvas, format, quality, fallbacks);
+    };
+
+    const floor = await encodeAt(MIN_TARGET_QUALITY);
+    if (!isLossyFormat(floor.type)) {
+      throw new Error(`当前浏览器无法编码 ${format}，无法按目标体积输出`);
+    }
+
+    if (floor.size <= bytes) {
+      const best = await encodeAt(1);
+      if (best.size <= bytes) {
+        return { blob: best, targetSize: { quality: 1, width, height }, fallbacks };
+      }
+
+      // 二分搜索满足体积的最高质量
+      let low = MIN_TARGET_QUALITY;
+      let high = 1;
+      let bestBlob = floor;
+      for (let step = 0; step < TARGET_SEARCH_STEPS; step++) {
+        const quality = (low + high) / 2;
+        const blob = await encodeAt(quality);
+        if (blob.size <= bytes) {
+          low = quality;
+          bestBlob = blob;
+        } else {
+          high = quality;
+        }
+        onProgress?.({ stage: 'encode', percent: getStageProgress('encode', (step + 1) / TARGET_SEARCH_STEPS) });
+      }
+
+      return { blob: bestBlob, targetSize: { quality: Math.round(low * 100) / 100, width, height }, fallbacks };
+    }
+
+    // 按体积比例估算缩放系数，每次至少缩小 10%，最多缩小一半
+    const scale = Math.min(Math.max(Math.sqrt(bytes / floor.size) * 0.95, 0.5), 0.9);
+    const nextWidth = Math.round(width * scale);
+    const nextHeight = Math.round(height * scale);
+
+    if (!allowDownscale || Math.min(nextWidth, nextHeight) < MIN_TARGET_DIMENSION) {
+      throw new Error(
+        `无法压缩到 ${formatKilobytes(bytes)} 以内（${width}×${height} 最低质量下为 ${formatKilobytes(floor.size)}）`
+      );
+    }
+
+    width = nextWidth;
+    height = nextHeight;
+  }
+};
+
+/**
+ * 压缩已编码的图片：PNG 走 oxipng 无损优化，GIF 已完成调色板量化，WASM 编码结果已按目标质量压缩，
+ * 只有 Canvas 原生编码的结果交给 browser-image-compression
+ */
+const compressEncoded = async (
+  blob: Blob,
+  quality: number,
+  { useWebWorker, signal }: PipelineContext,
+  report: (stage: ProcessStage, fraction?: number) => void
+): Promise<Blob> => {
+  report('compress');
+
+  if (blob.type === 'image/png') {
+    return optimizePng(blob, signal);
+  }
+  // 再经浏览器编码一次会重复有损压缩，且结果又依赖浏览器
+  if (blob.type === 'image/gif' || wasmEncodedBlobs.has(blob)) {
+    return blob;
+  }
+
+  return compressImage(blob, {
+    useWebWorker,
+    quality,
+    signal,
+    onProgress: (fraction) => report('compress', fraction),
+  });
+};
+
+/**
+ * 逐帧缩放并重新编码动画
+ */
+const encodeAnimatedSource = async (
+  buffer: ArrayBuffer,
+  animationType: string,
+  outputFormat: string,
+  { width, height }: { width: number; height: number },
+  placement: Pick<PipelineSource, 'region' | 'transform' | 'adjustments' | 'watermark'>,
+  { createCanvas, signal }: PipelineContext,
+  report: (stage: ProcessStage, fraction?: number) => void
+): Promise<Blob | null> => {
+  report('decode');
+  const frames = await decodeAnimation(buffer, animationType, createCanvas, signal);
+  if (!frames) return null;
+
+  report('resize');
+  const resized = await resizeFrames(frames, width, height, createCanvas, signal, placement);
+
+  report('encode');
+  return encodeAnimation(resized, outputFormat, signal, (fraction) => report('encode', fraction));
+};
+
+/**
+ * 按各档宽度与格式编码响应式图片集，基准尺寸为尺寸调整后的结果
+ * 主输出取最大一档的回退格式（<img> 使用的格式）
+ */
+const encodeResponsiveSet = async (
+  source: PipelineSource,
+  { width, height }: { width: number; height: number },
+  options: PipelineOptions,
+  responsive: NonNullable<PipelineOptions['responsive']>,
+  context: PipelineContext,
+  fallbacks: FormatFallback[],
+  applyMetadata: (blob: Blob) => Promise<Blob>,
+  report: (stage: ProcessStage, fraction?: number) => void
+): Promise<PipelineResult> => {
+  const { createCanvas, signal } = context;
+  const compress = options.type === 'both' && options.enableCompression;
+  const widths = getResponsiveWidths(responsive.widths, width);
+  const total = widths.length * responsive.formats.length;
+  const variants: ResponsiveVariant[] = [];
+  // 先编码保留透明的格式，再原地铺上背景色编码其余格式，同一档宽度只绘制一次
+  const formats = [...responsive.formats].sort(
+    (a, b) => Number(!supportsTransparency(a.format)) - Number(!supportsTransparency(b.format))
+  );
+
+  for (const [widthIndex, targetWidth] of widths.entries()) {
+    const size = calculateResizedDimensions(width, height, { resizeMode: 'custom', width: targetWidth });
+    const canvas = await renderImage(source, size.width, size.height, createCanvas, signal);
+
+    for (const [formatIndex, { format, quality }] of formats.entries()) {
+      throwIfAborted(signal);
+      flattenForFormat(canvas, format, source.matte);
+      let blob = await encodeCanvas(canvas, format, quality, fallbacks);
+      // 分块绘制的图片超出画布上限，只能做 PNG 无损优化
+      if (compress && (!(canvas instanceof ImageData) || blob.type === 'image/png')) {
+        blob = await compressEncoded(blob, quality, context, () => undefined);
+      }
+      // 回退后与已有格式重复时不再重复输出
+      if (!variants.some((variant) => variant.width === size.width && variant.mimeType === blob.type)) {
+        variants.push({ ...size, mimeType: blob.type, blob: await applyMetadata(blob) });
+      }
+      report(compress ? 'compress' : 'encode', (widthIndex * responsive.formats.length + formatIndex + 1) / total);
+    }
+  }
+
+  throwIfAborted(signal);
+  const files = createResponsiveFiles(variants, responsive.baseName);
+  return { blob: getPrimaryVariant(variants).blob, fallbacks, files };
+};
+
+/**
+ * 执行尺寸调整、编码与压缩
+ */
+export const runPipeline = async (
+  input: PipelineSource,
+  options: PipelineOptions,
+  context: PipelineContext
+): Promise<PipelineResult> => {
+  const { createCanvas, signal, onProgress } = context;
+  const report = (stage: ProcessStage, fraction?: number) =>
+    onProgress?.({ stage, percent: getStageProgress(stage, fraction) });
+
+  // 先裁剪与旋转，再按得到的尺寸计算目标尺寸
+  const metadata = await readMetadata(input.file);
+  const orientation = getOrientation(metadata);
+  const prepared = prepareSource(input, options, orientation);
+  const { frame, ...resized } = calculateResizeLayout(prepared.width, prepared.height, options.resize);
+  const { width, height } = limitOutputDimensions(resized.width, resized.height, createCanvas);
+  // 留白颜色只用于 contain，透明时不填充
+  const { fit, padColor } = options.resize;
+  const source: PipelineSource = {
+    ...prepared,
+    frame,
+    padColor: frame && fit === 'contain' && padColor !== 'transparent' ? padColor : undefined,
+    resampling: options.resampling === 'browser' ? undefined : options.resampling,
+    sharpen: options.sharpen,
+    adjustments: isNeutralAdjustments(options.adjustments) ? undefined : options.adjustments,
+    watermark: await prepareWatermark(options.watermark, createCanvas),
+    matte: options.matte,
+  };
+  // 像素不变时可跳过画布重编码；带方向标签的图片需将方向写入像素
+  const pixelsUnchanged =
+    !source.region &&
+    !source.transform &&
+    !source.adjustments &&
+    !source.watermark &&
+    orientation === 1 &&
+    width === source.width &&
+    height === source.height;
+
+  // 超出像素上限或为达到目标体积而缩小时，记录与尺寸设置不一致的实际尺寸
+  const getDimensionChange = (actual: { width: number; height: number }): DimensionChange | undefined => {
+    if (actual.width === resized.width && actual.height === resized.height) return undefined;
+    const reasons: string[] = [];
+    if (width !== resized.width || height !== resized.height) reasons.push('超出内存允许的像素上限');
+    if (actual.width !== width || actual.height !== height) reasons.push('为达到目标体积');
+    return { expected: resized, actual, reason: `${reasons.join('且')}，已等比缩小` };
+  };
+  const dimensionChange = getDimensionChange({ width, height });
+
+  // 确定输出格式：仅压缩时保持原格式
+  const outputFormat = options.type === 'compress' ? source.mimeType : options.format;
+  const fallbacks: FormatFallback[] = [];
+  throwIfAborted(signal);
+
+  // Favicon 套件按固定尺寸生成，动画源只取首帧；图标不写入元数据
+  if (outputFormat === 'image/x-icon' && options.type !== 'compress') {
+    report('resize');
+    const compress = options.type === 'both' && options.enableCompression;
+    return { ...(await createFaviconBundle(source, context, compress, report)), fallbacks };
+  }
+
+  // 画布绘制的像素已是最终方向，写入时需重置方向；原样输出的源文件保持原方向
+  const applyMetadata = async (blob: Blob, resetOrientation = true): Promise<Blob> => {
+    if (blob === source.file && options.metadata === 'keep') return blob;
+    return writeMetadata(blob, filterMetadata(metadata, options.metadata, resetOrientation));
+  };
+
+  // 响应式图片集同样只取动画首帧
+  if (options.responsive && options.type !== 'compress') {
+    report('resize');
+    return encodeResponsiveSet(
+      source,
+      { width, height },
+      options,
+      options.responsive,
+      context,
+      fallbacks,
+      applyMetadata,
+      report
+    );
+  }
+
+  // 动画：输出 GIF / APNG 时保留全部帧，其它格式只能输出首帧
+  const buffer = await source.file.arrayBuffer();
+  const animationType = detectAnimation(buffer);
+  if (animationType) {
+    const keepOriginal = options.type === 'compress' && pixelsUnchanged && !options.targetSize;
+
+    if (canEncodeAnimation(outputFormat) && !options.targetSize) {
+      const blob = await encodeAnimatedSource(
+        buffer,
+        animationType,
+        outputFormat,
+        { width, height },
+        source,
+        context,
+        report
+      );
+      throwIfAborted(signal);
+      // 仅压缩时重新编码反而变大，保留原文件
+      if (blob) {
+        return keepOriginal && blob.size >= source.file.size
+          ? { blob: await applyMetadata(source.file, false), fallbacks }
+          : { blob: await applyMetadata(blob), fallbacks, dimensionChange };
+      }
+    } else if (keepOriginal) {
+      // 无法重新编码的动画格式（如动画 WebP）仅压缩时保留原文件
+      return { blob: await applyMetadata(source.file, false), fallbacks };
+    }
+
+    fallbacks.push({ from: animationType, to: outputFormat, stillFrame: true });
+  }
+
+  report('resize');
+
+  // 仅压缩 PNG 且尺寸不变：直接优化原始数据，避免画布重编码（预乘 Alpha 会改变半透明像素）
+  if (options.type === 'compress' && source.mimeType === 'image/png' && pixelsUnchanged && !options.targetSize) {
+    report('compress');
+    return { blob: await applyMetadata(await optimizePng(source.file, signal), false), fallbacks };
+  }
+
+  // 目标体积模式由质量搜索代替压缩步骤，为写入的元数据预留空间
+  if (options.targetSize) {
+    report('encode');
+    const filtered = filterMetadata(metadata, options.metadata, true);
+    const metadataSize = getMetadataSize(filtered);
+    // 元数据本身已占满目标体积时，质量搜索无从谈起
+    if (metadataSize >= options.targetSize.bytes) {
+      throw new Error(
+        `保留的元数据（约 ${formatKilobytes(metadataSize)}）已超过目标体积 ${formatKilobytes(options.targetSize.bytes)}，请调大目标体积或移除元数据`
+      );
+    }
+    const targetSize = { ...options.targetSize, bytes: options.targetSize.bytes - metadataSize };
+    const result = await encodeToTargetSize(source, outputFormat, { width, height }, targetSize, context, fallbacks);
+    return {
+      ...result,
+      blob: await writeMetadata(result.blob, filtered),
+      dimensionChange: result.targetSize && getDimensionChange(result.targetSize),
+    };
+  }
+
+  const canvas = await renderImage(source, width, height, createCanvas, signal);
+  flattenForFormat(canvas, outputFormat, source.matte);
+  throwIfAborted(signal);
+
+  // 仅压缩时由 Canvas 以最高质量编码中间结果，交给压缩步骤控制质量；WASM 编码直接以目标质量编码
+  // 分块绘制的像素数据只能由 WASM 编码器或 PNG 编码器编码，有损格式同样已按目标质量压缩
+  report('encode');
+  const encodeQuality = options.type === 'compress' && !canEncodeWithWasm(outputFormat) ? 1.0 : options.quality;
+  let blob = await encodeCanvas(canvas, outputFormat, encodeQuality, fallbacks);
+
+  // 压缩：WASM 编码的结果不再重复压缩，PNG 做无损优化
+  const shouldCompress = options.type === 'compress' || (options.type === 'both' && options.enableCompression);
+  if (shouldCompress) {
+    blob = await compressEncoded(blob, options.quality, context, report);
+  }
+
+  throwIfAborted(signal);
+  return { blob: await applyMetadata(blob), fallbacks, dimensionChange };
+};
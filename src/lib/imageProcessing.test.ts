@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import type { ResizeOptions } from '@/types';
+import { calculateResizeLayout, getFrameRect } from '@/lib/imageProcessing';
+
+const custom = (options: Omit<ResizeOptions, 'resizeMode'>): ResizeOptions => ({ resizeMode: 'custom', ...options });
+
+describe('calculateResizeLayout', () => {
+  it('未设置宽高时保持原尺寸，按比例缩放时四舍五入', () => {
+    expect(calculateResizeLayout(400, 200, custom({}))).toEqual({ width: 400, height: 200 });
+    expect(calculateResizeLayout(333, 101, { resizeMode: 'scale', scale: 0.5 })).toEqual({ width: 167, height: 51 });
+  });
+
+  describe('inside / outside', () => {
+    it('只设置一边时按宽高比计算另一边', () => {
+      for (const fit of ['inside', 'outside'] as const) {
+        expect(calculateResizeLayout(400, 200, custom({ fit, width: 100 }))).toEqual({ width: 100, height: 50 });
+        expect(calculateResizeLayout(400, 200, custom({ fit, height: 50 }))).toEqual({ width: 100, height: 50 });
+      }
+    });
+
+    it('两边都设置时分别取较小、较大的缩放比例', () => {
+      expect(calculateResizeLayout(400, 200, custom({ fit: 'inside', width: 100, height: 100 }))).toEqual({
+        width: 100,
+        height: 50,
+      });
+      expect(calculateResizeLayout(400, 200, custom({ fit: 'outside', width: 100, height: 100 }))).toEqual({
+        width: 200,
+        height: 100,
+      });
+    });
+  });
+
+  describe('fill', () => {
+    it('两边各自拉伸', () => {
+      expect(calculateResizeLayout(400, 200, custom({ fit: 'fill', width: 100, height: 100 }))).toEqual({
+        width: 100,
+        height: 100,
+      });
+    });
+
+    it('未设置的一边保持原尺寸', () => {
+      expect(calculateResizeLayout(400, 200, custom({ fit: 'fill', width: 100 }))).toEqual({ width: 100, height: 200 });
+      expect(calculateResizeLayout(400, 200, custom({ fit: 'fill', height: 50 }))).toEqual({ width: 400, height: 50 });
+    });
+  });
+
+  describe('cover', () => {
+    it('按对齐方式裁掉超出的部分', () => {
+      const left = calculateResizeLayout(400, 200, custom({ fit: 'cover', width: 100, height: 100, gravity: 'left' }));
+      expect(left).toMatchObject({ width: 100, height: 100, frame: { y: 0, width: 2, height: 1 } });
+      // 左对齐时 x 为 (100 - 200) × 0，可能是 -0
+      expect(left.frame!.x).toBeCloseTo(0);
+
+      const right = calculateResizeLayout(400, 200, custom({ fit: 'cover', width: 100, height: 100, gravity: 'right' }));
+      expect(right.frame).toEqual({ x: -1, y: 0, width: 2, height: 1 });
+      expect(getFrameRect(right.frame, right.width, right.height)).toEqual({ x: -100, y: 0, width: 200, height: 100 });
+    });
+
+    it('宽高比一致时没有裁切区域', () => {
+      expect(calculateResizeLayout(400, 200, custom({ fit: 'cover', width: 200, height: 100 }))).toEqual({
+        width: 200,
+        height: 100,
+      });
+    });
+  });
+
+  describe('contain', () => {
+    it('按对齐方式在四周留白', () => {
+      const bottom = calculateResizeLayout(400, 200, custom({ fit: 'contain', width: 100, height: 100, gravity: 'bottom' }));
+      expect(bottom).toEqual({ width: 100, height: 100, frame: { x: 0, y: 0.5, width: 1, height: 0.5 } });
+
+      const topLeft = calculateResizeLayout(
+        200,
+        400,
+        custom({ fit: 'contain', width: 100, height: 100, gravity: 'top-left' })
+      );
+      expect(topLeft.frame).toEqual({ x: 0, y: 0, width: 0.5, height: 1 });
+
+      const bottomRight = calculateResizeLayout(
+        200,
+        400,
+        custom({ fit: 'contain', width: 100, height: 100, gravity: 'bottom-right' })
+      );
+      expect(getFrameRect(bottomRight.frame, 100, 100)).toEqual({ x: 50, y: 0, width: 50, height: 100 });
+    });
+  });
+
+  describe('缩放限制', () => {
+    it('只缩小：放大请求保持原尺寸，缩小请求正常生效', () => {
+      expect(calculateResizeLayout(400, 200, custom({ width: 800, guard: 'shrink-only' }))).toEqual({
+        width: 400,
+        height: 200,
+      });
+      expect(calculateResizeLayout(400, 200, custom({ width: 100, guard: 'shrink-only' }))).toEqual({
+        width: 100,
+        height: 50,
+      });
+    });
+
+    it('只放大：缩小请求保持原尺寸，放大请求正常生效', () => {
+      expect(calculateResizeLayout(400, 200, custom({ width: 100, guard: 'enlarge-only' }))).toEqual({
+        width: 400,
+        height: 200,
+      });
+      expect(calculateResizeLayout(400, 200, custom({ width: 800, guard: 'enlarge-only' }))).toEqual({
+        width: 800,
+        height: 400,
+      });
+    });
+
+    it('拉伸时两边分别限制', () => {
+      expect(
+        calculateResizeLayout(400, 200, custom({ fit: 'fill', width: 800, height: 100, guard: 'shrink-only' }))
+      ).toEqual({ width: 400, height: 100 });
+      expect(
+        calculateResizeLayout(400, 200, custom({ fit: 'fill', width: 800, height: 100, guard: 'enlarge-only' }))
+      ).toEqual({ width: 800, height: 200 });
+    });
+
+    it('contain 不放大时图片保持原尺寸，其余部分留白', () => {
+      expect(
+        calculateResizeLayout(400, 200, custom({ fit: 'contain', width: 800, height: 800, guard: 'shrink-only' }))
+      ).toEqual({ width: 800, height: 800, frame: { x: 0.25, y: 0.375, width: 0.5, height: 0.25 } });
+    });
+
+    it('cover 不缩小时图片保持原尺寸，超出部分裁掉', () => {
+      expect(
+        calculateResizeLayout(400, 200, custom({ fit: 'cover', width: 100, height: 100, guard: 'enlarge-only' }))
+      ).toEqual({ width: 100, height: 100, frame: { x: -1.5, y: -0.5, width: 4, height: 2 } });
+    });
+  });
+});
+
+describe('getFrameRect', () => {
+  it('没有区域时铺满画布', () => {
+    expect(getFrameRect(undefined, 120, 80)).toEqual({ x: 0, y: 0, width: 120, height: 80 });
+  });
+
+  it('按画布尺寸换算并四舍五入，宽高至少为 1', () => {
+    expect(getFrameRect({ x: 1 / 3, y: 0.125, width: 1 / 3, height: 0.001 }, 100, 100)).toEqual({
+      x: 33,
+      y: 13,
+      width: 33,
+      height: 1,
+    });
+  });
+
+  it('画布等比缩小后区域随之缩放', () => {
+    const frame = { x: 0.25, y: 0.375, width: 0.5, height: 0.25 };
+    expect(getFrameRect(frame, 800, 800)).toEqual({ x: 200, y: 300, width: 400, height: 200 });
+    expect(getFrameRect(frame, 99, 99)).toEqual({ x: 25, y: 37, width: 50, height: 25 });
+  });
+});
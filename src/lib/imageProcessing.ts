@@ -0,0 +1,316 @@
+import type { Anchor, ProcessStage, QualitySettings, ResizeOptions } from '@/types';
+
+/**
+ * 图片处理公共逻辑
+ * 供 Worker 与主线程回退路径共用，不依赖 DOM
+ */
+
+/**
+ * 单张输出图片的最大像素数（RGBA 像素数据约 512 MB）
+ * 超出画布上限需分块绘制时，另按内存预算限制（见 getMaxPixels）
+ */
+export const MAX_PIXELS = 16384 * 8192;
+
+/**
+ * 各处理阶段在整体进度中所占的区间
+ */
+const STAGE_RANGES: Record<ProcessStage, [number, number]> = {
+  decode: [0, 30],
+  resize: [30, 50],
+  encode: [50, 70],
+  compress: [70, 100],
+};
+
+/**
+ * 将阶段内进度（0-1）换算为整体百分比
+ */
+export const getStageProgress = (stage: ProcessStage, fraction = 0): number => {
+  const [start, end] = STAGE_RANGES[stage];
+  return Math.round(start + (end - start) * Math.min(Math.max(fraction, 0), 1));
+};
+
+/**
+ * 创建取消错误，与 fetch 等原生 API 一致使用 AbortError
+ */
+export const createAbortError = (): DOMException => new DOMException('处理已取消', 'AbortError');
+
+/**
+ * 判断错误是否由取消操作引起
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * 信号已取消时抛出 AbortError
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * 九宫格位置在可放置范围内的比例（0 为左 / 上，1 为右 / 下）
+ */
+export const ANCHOR_POSITIONS: Record<Anchor, [x: number, y: number]> = {
+  'top-left': [0, 0],
+  top: [0.5, 0],
+  'top-right': [1, 0],
+  left: [0, 0.5],
+  center: [0.5, 0.5],
+  right: [1, 0.5],
+  'bottom-left': [0, 1],
+  bottom: [0.5, 1],
+  'bottom-right': [1, 1],
+};
+
+/**
+ * 图片在输出画布中的区域，以画布宽高的比例表示
+ * 画布之后再等比缩小（像素上限、目标体积、响应式宽度）时仍然适用
+ */
+export interface ResizeFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 尺寸调整结果：输出尺寸，cover 裁切或 contain 留白时还有图片所在的区域
+ */
+export interface ResizeLayout {
+  width: number;
+  height: number;
+  frame?: ResizeFrame;
+}
+
+/**
+ * 计算尺寸调整的布局
+ */
+export const calculateResizeLayout = (
+  originalWidth: number,
+  originalHeight: number,
+  options: ResizeOptions
+): ResizeLayout => {
+  if (options.resizeMode === 'scale' && options.scale) {
+    return {
+      width: Math.round(originalWidth * options.scale),
+      height: Math.round(originalHeight * options.scale),
+    };
+  }
+
+  if (options.resizeMode !== 'custom' || (!options.width && !options.height)) {
+    return { width: originalWidth, height: originalHeight };
+  }
+
+  const { fit = 'inside', guard = 'none' } = options;
+  const limit = (scale: number) =>
+    guard === 'shrink-only' ? Math.min(scale, 1) : guard === 'enlarge-only' ? Math.max(scale, 1) : scale;
+  const scaleTo = (scaleX: number, scaleY: number) => ({
+    width: Math.max(1, Math.round(originalWidth * limit(scaleX))),
+    height: Math.max(1, Math.round(originalHeight * limit(scaleY))),
+  });
+
+  // 拉伸：两边各自缩放，未设置的一边保持不变
+  if (fit === 'fill') {
+    return scaleTo((options.width || originalWidth) / originalWidth, (options.height || originalHeight) / originalHeight);
+  }
+
+  // 只设置了一边，根据宽高比计算另一边
+  if (!options.width || !options.height) {
+    const scale = options.width ? options.width / originalWidth : options.height! / originalHeight;
+    return scaleTo(scale, scale);
+  }
+
+  const scaleX = options.width / originalWidth;
+  const scaleY = options.height / originalHeight;
+  const scale = fit === 'inside' || fit === 'contain' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  const image = scaleTo(scale, scale);
+  if (fit === 'inside' || fit === 'outside') return image;
+
+  // cover 的画布不大于图片、contain 的画布不小于图片，未触发缩放限制时均为目标尺寸
+  const pick = fit === 'cover' ? Math.min : Math.max;
+  const width = pick(options.width, image.width);
+  const height = pick(options.height, image.height);
+  if (width === image.width && height === image.height) return { width, height };
+
+  const [fx, fy] = ANCHOR_POSITIONS[options.gravity ?? 'center'];
+  return {
+    width,
+    height,
+    frame: {
+      x: ((width - image.width) * fx) / width,
+      y: ((height - image.height) * fy) / height,
+      width: image.width / width,
+      height: image.height / height,
+    },
+  };
+};
+
+/**
+ * 图片在指定尺寸画布中的像素区域，无 frame 时铺满画布
+ */
+export const getFrameRect = (
+  frame: ResizeFrame | undefined,
+  width: number,
+  height: number
+): { x: number; y: number; width: number; height: number } =>
+  frame
+    ? {
+        x: Math.round(frame.x * width),
+        y: Math.round(frame.y * height),
+        width: Math.max(1, Math.round(frame.width * width)),
+        height: Math.max(1, Math.round(frame.height * height)),
+      }
+    : { x: 0, y: 0, width, height };
+
+/**
+ * 计算调整后的尺寸
+ */
+export const calculateResizedDimensions = (
+  originalWidth: number,
+  originalHeight: number,
+  options: ResizeOptions
+): { width: number; height: number } => {
+  const { width, height } = calculateResizeLayout(originalWidth, originalHeight, options);
+  return { width, height };
+};
+
+/**
+ * 将像素数限制在上限以内，等比缩小
+ */
+export const limitDimensions = (
+  width: number,
+  height: number,
+  maxPixels = MAX_PIXELS
+): { width: number; height: number } => {
+  if (width * height <= maxPixels) {
+    return { width, height };
+  }
+
+  const scale = Math.sqrt(maxPixels / (width * height));
+  return { width: Math.max(1, Math.floor(width * scale)), height: Math.max(1, Math.floor(height * scale)) };
+};
+
+/**
+ * 判断是否为 HEIC/HEIF（含图像序列）
+ */
+export const isHeifType = (type: string): boolean => /^image\/hei[cf](-sequence)?$/.test(type);
+
+/**
+ * 浏览器常给不出 image/ 类型的图片扩展名
+ */
+const IMAGE_EXTENSIONS = /\.(hei[cf]|tiff?|psd|psb|ico|cur|bmp)$/i;
+
+/**
+ * 判断是否为图片文件：type 不是 image/ 时按扩展名判断，实际格式由文件头确认
+ */
+export const isImageFile = (file: File): boolean => {
+  return file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+};
+
+/**
+ * 获取回退格式
+ */
+export const getFallbackFormat = (format: string): string => {
+  // 如果 AVIF 不支持，回退到 WebP
+  if (format === 'image/avif') return 'image/webp';
+  // HEIC 无法编码，仅压缩时改为 JPEG
+  if (isHeifType(format)) return 'image/jpeg';
+  // SVG 栅格化后仅压缩时输出 PNG
+  if (format === 'image/svg+xml') return 'image/png';
+  return format;
+};
+
+/**
+ * 输出格式是否保留透明（GIF 只保留完全透明的像素），无法编码而回退到 JPEG 的格式视为不保留
+ */
+export const supportsTransparency = (format: string): boolean => getFallbackFormat(format) !== 'image/jpeg';
+
+/**
+ * 获取格式对应的文件扩展名
+ */
+export const getExtension = (format: string): string => {
+  const map: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/gif': 'gif',
+    'image/x-icon': 'ico',
+  };
+  return map[format] || 'png';
+};
+
+/**
+ * 有损格式的默认编码质量
+ */
+export const DEFAULT_QUALITY: QualitySettings = {
+  'image/jpeg': 0.92,
+  'image/webp': 0.92,
+  'image/avif': 0.9,
+};
+
+/**
+ * 未单独设置质量的有损格式（如仅压缩模式下的原格式）使用的质量
+ */
+const FALLBACK_QUALITY = 0.95;
+
+/**
+ * 判断是否为支持质量参数的有损格式
+ */
+export const isLossyFormat = (format: string): boolean => {
+  return format === 'image/jpeg' || format === 'image/webp' || format === 'image/avif';
+};
+
+/**
+ * 确定输出质量，无损格式固定为 1.0
+ */
+export const resolveQuality = (format: string, quality: QualitySettings): number => {
+  if (!isLossyFormat(format)) return 1.0;
+  const key = format as keyof QualitySettings;
+  return quality[key] ?? DEFAULT_QUALITY[key] ?? FALLBACK_QUALITY;
+};
+
+/**
+ * 压缩选项
+ */
+export interface CompressOptions {
+  // 在 Worker 内调用时需关闭，避免再嵌套创建 Worker
+  useWebWorker?: boolean;
+  // 初始编码质量，默认 0.95
+  quality?: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * 使用 browser-image-compression 进行无损压缩
+ */
+export const compressImage = async (
+  file: File | Blob,
+  { useWebWorker = true, quality = FALLBACK_QUALITY, signal, onProgress }: CompressOptions = {}
+): Promise<Blob> => {
+  throwIfAborted(signal);
+
+  // 动态导入避免 SSR 问题
+  const imageCompression = (await import('browser-image-compression')).default;
+
+  const options = {
+    // 不限制体积与宽高，避免库内部为满足限制而缩小尺寸
+    useWebWorker,
+    // 元数据由流水线按策略统一写入
+    preserveExif: false,
+    initialQuality: quality,
+    signal,
+    onProgress: onProgress ? (progress: number) => onProgress(progress / 100) : undefined,
+  };
+
+  const fileToCompress = file instanceof File ? file : new File([file], 'image.png', { type: file.type });
+  try {
+    return await imageCompression(fileToCompress, options);
+  } catch (error) {
+    // browser-image-compression 以 signal.reason 拒绝，统一为 AbortError
+    if (signal?.aborted) throw createAbortError();
+    throw error;
+  }
+};
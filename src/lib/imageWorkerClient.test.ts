@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WorkerMessage, WorkerResponse } from '@/workers/image.worker';
+import { isAbortError } from '@/lib/imageProcessing';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * 模拟 Worker：记录收到的任务，取消时回复 cancelled，其余回复由测试发送
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((e: MessageEvent<WorkerResponse>) => void) | null = null;
+  onerror: ((e: ErrorEvent) => void) | null = null;
+  tasks: string[] = [];
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: WorkerMessage | { type: 'cancel'; id: string }) {
+    if ('type' in message && message.type === 'cancel') {
+      setTimeout(() => this.reply({ type: 'cancelled', id: message.id }));
+    } else {
+      this.tasks.push(message.id);
+    }
+  }
+
+  reply(response: WorkerResponse) {
+    this.onmessage?.({ data: response } as MessageEvent<WorkerResponse>);
+  }
+
+  terminate() {}
+}
+
+const findWorker = (id: string) => FakeWorker.instances.find((worker) => worker.tasks.includes(id))!;
+
+const succeed = (id: string) =>
+  findWorker(id).reply({ type: 'success', id, result: { blob: new Blob(), size: 0, fallbacks: [] } });
+
+const createFile = () => new File([new Uint8Array(8)], 'image.png', { type: 'image/png' });
+
+describe('processInWorker', () => {
+  let processInWorker: typeof import('@/lib/imageWorkerClient').processInWorker;
+
+  beforeEach(async () => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('navigator', { hardwareConcurrency: 2 });
+    // 槽位与回调是模块级状态，每个用例重新加载
+    vi.resetModules();
+    ({ processInWorker } = await import('@/lib/imageWorkerClient'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('进度转发给调用方，成功后释放槽位', async () => {
+    const onProgress = vi.fn();
+    const task = processInWorker('a', createFile(), {} as never, onProgress);
+    await flush();
+
+    findWorker('a').reply({ type: 'progress', id: 'a', stage: 'resize', progress: 40 });
+    expect(onProgress).toHaveBeenCalledWith({ stage: 'resize', percent: 40 });
+
+    succeed('a');
+    await expect(task).resolves.toMatchObject({ size: 0 });
+  });
+
+  it('取消进行中的任务时以 AbortError 拒绝，之后不再转发该任务的消息', async () => {
+    const controller = new AbortController();
+    const onProgress = vi.fn();
+    const task = processInWorker('a', createFile(), {} as never, onProgress, controller.signal);
+    await flush();
+    const worker = findWorker('a');
+
+    controller.abort();
+    const error = await task.catch((reason: unknown) => reason);
+    expect(isAbortError(error)).toBe(true);
+
+    // 回调已移除：迟到的消息被忽略
+    worker.reply({ type: 'progress', id: 'a', stage: 'encode', progress: 90 });
+    expect(onProgress).not.toHaveBeenCalled();
+
+    // 槽位已释放，可处理新任务
+    const next = processInWorker('b', createFile(), {} as never);
+    await flush();
+    expect(worker.tasks).toContain('b');
+    succeed('b');
+    await expect(next).resolves.toBeDefined();
+  });
+
+  it('等待槽位时取消会退出等待队列，不占用之后释放的槽位', async () => {
+    const running = [processInWorker('a', createFile(), {} as never), processInWorker('b', createFile(), {} as never)];
+    await flush();
+    expect(FakeWorker.instances).toHaveLength(2);
+
+    const controller = new AbortController();
+    const waiting = processInWorker('c', createFile(), {} as never, undefined, controller.signal);
+    const later = processInWorker('d', createFile(), {} as never);
+    await flush();
+
+    controller.abort();
+    const error = await waiting.catch((reason: unknown) => reason);
+    expect(isAbortError(error)).toBe(true);
+
+    // 释放的槽位交给之后排队的任务，被取消的任务从未发送给 Worker
+    succeed('a');
+    await running[0];
+    await flush();
+    expect(findWorker('d')).toBeDefined();
+    expect(FakeWorker.instances.some((worker) => worker.tasks.includes('c'))).toBe(false);
+
+    succeed('b');
+    succeed('d');
+    await expect(Promise.all([running[1], later])).resolves.toHaveLength(2);
+  });
+
+  it('信号已取消时不等待槽位直接拒绝', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const error = await processInWorker('a', createFile(), {} as never, undefined, controller.signal).catch(
+      (reason: unknown) => reason
+    );
+    expect(isAbortError(error)).toBe(true);
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+});
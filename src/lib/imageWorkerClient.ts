@@ -0,0 +1,211 @@
+import type { ProcessProgress } from '@/types';
+import type { PipelineOptions } from '@/lib/imagePipeline';
+import type { WorkerCancelMessage, WorkerMessage, WorkerResponse } from '@/workers/image.worker';
+import { createAbortError, throwIfAborted } from '@/lib/imageProcessing';
+
+type WorkerCallback = (response: WorkerResponse) => void;
+
+/**
+ * 交给 Worker 的处理参数
+ */
+export type WorkerTaskOptions = PipelineOptions;
+
+/**
+ * Worker 池上限，过多的 Worker 只会增加内存占用
+ */
+const MAX_POOL_SIZE = 4;
+
+/**
+ * Worker 池中的槽位，每个槽位同一时间只处理一个任务
+ */
+interface PoolSlot {
+  worker: Worker | null;
+  busy: boolean;
+  taskId: string | null;
+}
+
+const slots: PoolSlot[] = [];
+const waiting: ((slot: PoolSlot) => void)[] = [];
+let workerSupported: boolean | null = null;
+const callbacks = new Map<string, WorkerCallback>();
+
+/**
+ * 检查当前环境是否支持在 Worker 中处理图片
+ * 需要 Worker 以及带 2D 上下文的 OffscreenCanvas
+ */
+export const isWorkerSupported = (): boolean => {
+  if (workerSupported !== null) return workerSupported;
+
+  if (typeof window === 'undefined' || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    workerSupported = false;
+    return workerSupported;
+  }
+
+  try {
+    workerSupported = new OffscreenCanvas(1, 1).getContext('2d') !== null;
+  } catch {
+    workerSupported = false;
+  }
+  return workerSupported;
+};
+
+/**
+ * 判断文件能否交给 Worker 处理
+ * createImageBitmap 无法在 Worker 中解码 SVG，仍需走主线程
+ */
+export const canProcessInWorker = (file: File): boolean => {
+  return isWorkerSupported() && file.type !== 'image/svg+xml';
+};
+
+/**
+ * 根据 CPU 核心数确定 Worker 池大小
+ */
+export const getPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+  return Math.max(1, Math.min(cores || 2, MAX_POOL_SIZE));
+};
+
+/**
+ * 为槽位创建 Worker
+ */
+const createWorker = (slot: PoolSlot): Worker => {
+  const worker = new Worker(new URL('../workers/image.worker.ts', import.meta.url), { type: 'module' });
+
+  // 监听 Worker 消息
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const { id } = e.data;
+    const callback = callbacks.get(id);
+    if (callback) {
+      // 处理完成或取消后移除回调
+      if (e.data.type !== 'progress') {
+        callbacks.delete(id);
+      }
+      callback(e.data);
+    }
+  };
+
+  // Worker 崩溃时让当前任务失败，下次使用该槽位时重新创建
+  worker.onerror = (error) => {
+    console.error('Worker error:', error);
+    worker.terminate();
+    slot.worker = null;
+
+    const { taskId } = slot;
+    const callback = taskId ? callbacks.get(taskId) : undefined;
+    if (taskId && callback) {
+      callbacks.delete(taskId);
+      callback({ type: 'error', id: taskId, error: 'Worker 运行出错' });
+    }
+  };
+
+  return worker;
+};
+
+/**
+ * 获取空闲槽位，池已满时等待其它任务释放
+ * 等待期间 signal 取消时退出等待队列，并以 AbortError 拒绝
+ */
+const acquireSlot = (signal?: AbortSignal): Promise<PoolSlot> => {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  const idle = slots.find((slot) => !slot.busy);
+  if (idle) {
+    idle.busy = true;
+    return Promise.resolve(idle);
+  }
+
+  if (slots.length < getPoolSize()) {
+    const slot: PoolSlot = { worker: null, busy: true, taskId: null };
+    slots.push(slot);
+    return Promise.resolve(slot);
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter = (slot: PoolSlot) => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve(slot);
+    };
+    const handleAbort = () => {
+      waiting.splice(waiting.indexOf(waiter), 1);
+      reject(createAbortError());
+    };
+    waiting.push(waiter);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+};
+
+/**
+ * 释放槽位，优先交给等待中的任务
+ */
+const releaseSlot = (slot: PoolSlot) => {
+  slot.taskId = null;
+  const next = waiting.shift();
+  if (next) {
+    next(slot);
+  } else {
+    slot.busy = false;
+  }
+};
+
+/**
+ * 在 Worker 中处理单张图片
+ * signal 取消时通知 Worker 在下一个阶段边界停止，并以 AbortError 拒绝
+ */
+export const processInWorker = async (
+  id: string,
+  file: File,
+  options: WorkerTaskOptions,
+  onProgress?: (progress: ProcessProgress) => void,
+  signal?: AbortSignal
+): Promise<NonNullable<WorkerResponse['result']>> => {
+  const slot = await acquireSlot(signal);
+
+  try {
+    throwIfAborted(signal);
+    const imageData = await file.arrayBuffer();
+    throwIfAborted(signal);
+
+    slot.worker = slot.worker ?? createWorker(slot);
+    slot.taskId = id;
+    const target = slot.worker;
+
+    const handleAbort = () => {
+      const message: WorkerCancelMessage = { type: 'cancel', id };
+      target.postMessage(message);
+    };
+
+    return await new Promise((resolve, reject) => {
+      // 设置回调
+      callbacks.set(id, (response: WorkerResponse) => {
+        if (response.type === 'progress') {
+          if (response.stage) {
+            onProgress?.({ stage: response.stage, percent: response.progress || 0 });
+          }
+          return;
+        }
+
+        signal?.removeEventListener('abort', handleAbort);
+        if (response.type === 'success' && response.result) {
+          resolve(response.result);
+        } else if (response.type === 'cancelled') {
+          reject(createAbortError());
+        } else {
+          reject(new Error(response.error || '处理失败'));
+        }
+      });
+
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      // 发送消息给 Worker
+      const message: WorkerMessage = {
+        ...options,
+        id,
+        imageData,
+        mimeType: file.type,
+      };
+      target.postMessage(message, [imageData]);
+    });
+  } finally {
+    releaseSlot(slot);
+  }
+};
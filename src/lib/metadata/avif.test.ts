@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { avifContainer } from '@/lib/metadata/avif';
+import { ascii, concat, expectPolicyApplied, POLICIES, roundTrip, uint16, uint32 } from '@/lib/metadata/testFixtures';
+
+const box = (type: string, parts: (Uint8Array | number[])[]) => {
+  const body = concat(parts);
+  return concat([uint32(8 + body.length), ascii(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, parts: (Uint8Array | number[])[]) =>
+  box(type, [uint32((version << 24) | flags), ...parts]);
+
+const PRIMARY = Uint8Array.from({ length: 21 }, (_, i) => 0xa0 + i);
+const ALPHA = Uint8Array.from({ length: 9 }, (_, i) => 0xc0 + i);
+
+/**
+ * 主图（项 1）与 Alpha 辅助图像（项 2），属性为 ispe、av1C、auxC、irot，数据位于 meta 之后的 mdat
+ */
+const createAvif = () => {
+  const buildMeta = (dataStart: number) =>
+    fullBox('meta', 0, 0, [
+      fullBox('hdlr', 0, 0, [uint32(0), ascii('pict'), new Uint8Array(12), [0]]),
+      fullBox('pitm', 0, 0, [uint16(1)]),
+      fullBox('iloc', 0, 0, [
+        [0x44, 0x00],
+        uint16(2),
+        [...uint16(1), ...uint16(0), ...uint16(1), ...uint32(dataStart), ...uint32(PRIMARY.length)],
+        [...uint16(2), ...uint16(0), ...uint16(1), ...uint32(dataStart + PRIMARY.length), ...uint32(ALPHA.length)],
+      ]),
+      fullBox('iinf', 0, 0, [
+        uint16(2),
+        fullBox('infe', 2, 0, [uint16(1), uint16(0), ascii('av01'), [0]]),
+        fullBox('infe', 2, 0, [uint16(2), uint16(0), ascii('av01'), [0]]),
+      ]),
+      fullBox('iref', 0, 0, [box('auxl', [uint16(2), uint16(1), uint16(1)])]),
+      box('iprp', [
+        box('ipco', [
+          fullBox('ispe', 0, 0, [uint32(2), uint32(2)]),
+          box('av1C', [[0x81, 0x00, 0x0c, 0x00]]),
+          fullBox('auxC', 0, 0, [ascii('urn:mpeg:mpegB:cicp:systems:auxiliary:alpha\0')]),
+          box('irot', [[1]]),
+        ]),
+        // 项 1：ispe、av1C、irot；项 2：ispe、av1C、auxC
+        fullBox('ipma', 0, 0, [uint32(2), [...uint16(1), 3, 0x01, 0x82, 0x84], [...uint16(2), 3, 0x01, 0x82, 0x83]]),
+      ]),
+    ]);
+
+  const ftyp = box('ftyp', [ascii('avif'), uint32(0), ascii('mif1'), ascii('avif'), ascii('miaf')]);
+  const dataStart = ftyp.length + buildMeta(0).length + 8;
+  return concat([ftyp, buildMeta(dataStart), box('mdat', [PRIMARY, ALPHA])]);
+};
+
+interface TestBox {
+  type: string;
+  start: number;
+  end: number;
+  // 盒头之后的位置
+  dataStart: number;
+}
+
+/**
+ * 读取范围内的盒，要求各盒首尾相接、恰好铺满范围
+ */
+const walkBoxes = (bytes: Uint8Array, start: number, end: number): TestBox[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: TestBox[] = [];
+  let offset = start;
+  while (offset < end) {
+    const size = view.getUint32(offset);
+    expect(size).toBeGreaterThanOrEqual(8);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    boxes.push({ type, start: offset, end: offset + size, dataStart: offset + 8 });
+    offset += size;
+  }
+  expect(offset).toBe(end);
+  return boxes;
+};
+
+/**
+ * 解析写入结果中 meta 的各个子盒（iloc 为 4 字节偏移与长度，ipma 为 7 位属性序号）
+ */
+const parseMeta = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const meta = walkBoxes(bytes, 0, bytes.length).find((item) => item.type === 'meta')!;
+  const children = walkBoxes(bytes, meta.dataStart + 4, meta.end);
+  const child = (parent: TestBox[], type: string) => parent.find((item) => item.type === type)!;
+
+  const iloc = child(children, 'iloc');
+  expect(Array.from(bytes.subarray(iloc.dataStart, iloc.dataStart + 6))).toEqual([0, 0, 0, 0, 0x44, 0x00]);
+  const locations = new Map<number, Uint8Array>();
+  let offset = iloc.dataStart + 8;
+  for (let i = view.getUint16(iloc.dataStart + 6); i > 0; i--) {
+    // 项、数据引用、区段数，每项只有一个区段
+    expect(view.getUint16(offset + 4)).toBe(1);
+    const start = view.getUint32(offset + 6);
+    locations.set(view.getUint16(offset), bytes.subarray(start, start + view.getUint32(offset + 10)));
+    offset += 14;
+  }
+
+  const iinf = child(children, 'iinf');
+  const items = walkBoxes(bytes, iinf.dataStart + 6, iinf.end).map((infe) =>
+    String.fromCharCode(...bytes.subarray(infe.dataStart + 8, infe.dataStart + 12))
+  );
+  expect(view.getUint16(iinf.dataStart + 4)).toBe(items.length);
+
+  const iref = child(children, 'iref');
+  const references = walkBoxes(bytes, iref.dataStart + 4, iref.end).map((reference) => {
+    expect(view.getUint16(reference.dataStart + 2)).toBe(1);
+    return [reference.type, view.getUint16(reference.dataStart), view.getUint16(reference.dataStart + 4)];
+  });
+
+  const iprp = walkBoxes(bytes, child(children, 'iprp').dataStart, child(children, 'iprp').end);
+  const properties = walkBoxes(bytes, child(iprp, 'ipco').dataStart, child(iprp, 'ipco').end).map((item) => item.type);
+  const ipma = child(iprp, 'ipma');
+  const associations = new Map<number, string[]>();
+  offset = ipma.dataStart + 8;
+  for (let i = view.getUint32(ipma.dataStart + 4); i > 0; i--) {
+    const count = bytes[offset + 2];
+    const indexes = Array.from(bytes.subarray(offset + 3, offset + 3 + count), (value) => properties[(value & 0x7f) - 1]);
+    associations.set(view.getUint16(offset), indexes);
+    offset += 3 + count;
+  }
+  expect(offset).toBe(ipma.end);
+
+  return { locations, items, references, associations };
+};
+
+describe('avifContainer.write', () => {
+  it.each(POLICIES)('%s：盒长度首尾相接，原有项的 iloc 偏移随 meta 增长移动', async (policy) => {
+    const avif = createAvif();
+    const { output, metadata } = await roundTrip(avifContainer, avif, policy);
+    expectPolicyApplied(policy, metadata);
+
+    if (policy === 'strip') {
+      // 没有可写入的元数据时不修改文件
+      expect(output).toBe(avif);
+      return;
+    }
+
+    expect(walkBoxes(output, 0, output.length).map((item) => item.type)).toEqual(['ftyp', 'meta', 'mdat', 'mdat']);
+    const { locations, items, references, associations } = parseMeta(output);
+    expect(locations.get(1)).toEqual(PRIMARY);
+    expect(locations.get(2)).toEqual(ALPHA);
+    // 新增项的数据位于追加的 mdat 中
+    expect(locations.get(3)!.subarray(0, 4)).toEqual(new Uint8Array(4));
+    expect(locations.get(4)).toEqual(metadata.xmp);
+
+    expect(items).toEqual(['av01', 'av01', 'Exif', 'mime']);
+    expect(references).toEqual([
+      ['auxl', 2, 1],
+      ['cdsc', 3, 1],
+      ['cdsc', 4, 1],
+    ]);
+    // colr 排在变换属性之前，Alpha 图像的关联不变
+    expect(associations.get(1)).toEqual(['ispe', 'av1C', 'colr', 'irot']);
+    expect(associations.get(2)).toEqual(['ispe', 'av1C', 'auxC']);
+  });
+
+  it('已含元数据时保持原样', async () => {
+    const { output } = await roundTrip(avifContainer, createAvif(), 'keep');
+    const { output: again } = await roundTrip(avifContainer, output, 'strip-private');
+    expect(again).toBe(output);
+  });
+
+  it('缺少 meta 时报错', async () => {
+    const avif = box('ftyp', [ascii('avif'), uint32(0), ascii('avif')]);
+    await expect(avifContainer.write(avif, { xmp: new Uint8Array(1) })).rejects.toThrow('meta');
+  });
+});
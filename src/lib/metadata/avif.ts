@@ -0,0 +1,497 @@
+import type { ImageInfo, ImageMetadata, MetadataContainer } from '@/lib/metadata';
+import { concatBytes, matchAscii, readAscii } from '@/lib/metadata/bytes';
+
+/**
+ * AVIF（HEIF/ISOBMFF）元数据：meta 中的 Exif 项、XMP（mime 项）与 colr 属性中的 ICC
+ * 写入只做追加：编码器输出不含元数据，新增项的数据放在文件末尾的 mdat 中
+ */
+
+const XMP_CONTENT_TYPE = 'application/rdf+xml';
+
+// AVIF 与可读取元数据的 HEIF 品牌
+const BRANDS = ['avif', 'avis', 'heic', 'heix', 'mif1'];
+
+// 必须排在描述性属性之后的变换属性
+const TRANSFORM_PROPERTIES = ['clap', 'irot', 'imir'];
+
+interface Box {
+  type: string;
+  start: number;
+  end: number;
+  // 盒头之后的位置（FullBox 的版本与标志也在数据内）
+  dataStart: number;
+}
+
+interface ItemInfo {
+  id: number;
+  type: string;
+  contentType?: string;
+}
+
+interface ItemLocation {
+  id: number;
+  constructionMethod: number;
+  dataReferenceIndex: number;
+  extents: { offset: number; length: number }[];
+}
+
+interface PropertyAssociation {
+  essential: boolean;
+  index: number;
+}
+
+interface MetaInfo {
+  box: Box;
+  children: Box[];
+  primary: number;
+  items: ItemInfo[];
+  locations: { version: number; items: ItemLocation[] };
+  properties: Box[];
+  associations: { box: Box; version: number; flags: number; entries: Map<number, PropertyAssociation[]> };
+}
+
+const encoder = new TextEncoder();
+
+const getView = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const readUint = (view: DataView, offset: number, size: number): number => {
+  if (size === 0) return 0;
+  if (size === 2) return view.getUint16(offset);
+  if (size === 4) return view.getUint32(offset);
+  if (size === 8) return Number(view.getBigUint64(offset));
+  throw new Error('AVIF 字段长度无效');
+};
+
+const uint16 = (value: number) => new Uint8Array([value >> 8, value & 0xff]);
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+const cString = (text: string) => encoder.encode(text + '\0');
+
+const createBox = (type: string, parts: Uint8Array[]): Uint8Array => {
+  const body = concatBytes(parts);
+  return concatBytes([uint32(8 + body.length), encoder.encode(type), body]);
+};
+
+const fullBoxHeader = (version: number, flags: number) => uint32((version << 24) | flags);
+
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const view = getView(bytes);
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let dataStart = offset + 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      dataStart += 8;
+    } else if (size === 0) {
+      // 延伸到容器末尾
+      size = end - offset;
+    }
+    if (size < dataStart - offset || offset + size > end) {
+      throw new Error('AVIF 盒结构无效');
+    }
+    boxes.push({ type: readAscii(bytes, offset + 4, 4), start: offset, end: offset + size, dataStart });
+    offset += size;
+  }
+  return boxes;
+};
+
+const readCString = (bytes: Uint8Array, offset: number, end: number): { text: string; next: number } => {
+  let terminator = bytes.indexOf(0, offset);
+  if (terminator < 0 || terminator > end) terminator = end;
+  return { text: new TextDecoder().decode(bytes.subarray(offset, terminator)), next: terminator + 1 };
+};
+
+const readItemInfos = (bytes: Uint8Array, iinf: Box): ItemInfo[] => {
+  const view = getView(bytes);
+  const countSize = bytes[iinf.dataStart] === 0 ? 2 : 4;
+  const items: ItemInfo[] = [];
+
+  for (const infe of readBoxes(bytes, iinf.dataStart + 4 + countSize, iinf.end)) {
+    const version = bytes[infe.dataStart];
+    // 早期版本不含项类型，不可能是元数据项
+    if (infe.type !== 'infe' || version < 2) continue;
+    let offset = infe.dataStart + 4;
+    const id = version === 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += (version === 2 ? 2 : 4) + 2;
+    const type = readAscii(bytes, offset, 4);
+    const name = readCString(bytes, offset + 4, infe.end);
+    items.push({
+      id,
+      type,
+      contentType: type === 'mime' ? readCString(bytes, name.next, infe.end).text : undefined,
+    });
+  }
+  return items;
+};
+
+const readItemLocations = (bytes: Uint8Array, iloc: Box): MetaInfo['locations'] => {
+  const view = getView(bytes);
+  const version = bytes[iloc.dataStart];
+  let offset = iloc.dataStart + 4;
+  const offsetSize = bytes[offset] >> 4;
+  const lengthSize = bytes[offset] & 0x0f;
+  const baseOffsetSize = bytes[offset + 1] >> 4;
+  const indexSize = version > 0 ? bytes[offset + 1] & 0x0f : 0;
+  offset += 2;
+
+  const idSize = version < 2 ? 2 : 4;
+  const count = readUint(view, offset, idSize);
+  offset += idSize;
+
+  const items: ItemLocation[] = [];
+  for (let i = 0; i < count; i++) {
+    const id = readUint(view, offset, idSize);
+    offset += idSize;
+    let constructionMethod = 0;
+    if (version > 0) {
+      constructionMethod = view.getUint16(offset) & 0x0f;
+      offset += 2;
+    }
+    const dataReferenceIndex = view.getUint16(offset);
+    const baseOffset = readUint(view, offset + 2, baseOffsetSize);
+    offset += 2 + baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+
+    const extents: ItemLocation['extents'] = [];
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      // 统一换算为相对基准 0 的偏移
+      extents.push({
+        offset: baseOffset + readUint(view, offset, offsetSize),
+        length: readUint(view, offset + offsetSize, lengthSize),
+      });
+      offset += offsetSize + lengthSize;
+    }
+    items.push({ id, constructionMethod, dataReferenceIndex, extents });
+  }
+  return { version, items };
+};
+
+const readAssociations = (bytes: Uint8Array, ipma: Box): MetaInfo['associations'] => {
+  const view = getView(bytes);
+  const version = bytes[ipma.dataStart];
+  const flags = view.getUint32(ipma.dataStart) & 0xffffff;
+  let offset = ipma.dataStart + 4;
+  const count = view.getUint32(offset);
+  offset += 4;
+
+  const entries = new Map<number, PropertyAssociation[]>();
+  for (let i = 0; i < count; i++) {
+    const id = version < 1 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 1 ? 2 : 4;
+    const associationCount = bytes[offset++];
+    const associations: PropertyAssociation[] = [];
+    for (let a = 0; a < associationCount; a++) {
+      if (flags & 1) {
+        const value = view.getUint16(offset);
+        associations.push({ essential: (value & 0x8000) !== 0, index: value & 0x7fff });
+        offset += 2;
+      } else {
+        const value = bytes[offset++];
+        associations.push({ essential: (value & 0x80) !== 0, index: value & 0x7f });
+      }
+    }
+    entries.set(id, associations);
+  }
+  return { box: ipma, version, flags, entries };
+};
+
+/**
+ * 解析 meta 盒，缺少必要结构时返回 null
+ */
+const readMeta = (bytes: Uint8Array): MetaInfo | null => {
+  const box = readBoxes(bytes, 0, bytes.length).find((child) => child.type === 'meta');
+  if (!box) return null;
+
+  const children = readBoxes(bytes, box.dataStart + 4, box.end);
+  const find = (type: string) => children.find((child) => child.type === type);
+  const pitm = find('pitm');
+  const iinf = find('iinf');
+  const iloc = find('iloc');
+  const iprp = find('iprp');
+  if (!pitm || !iinf || !iloc || !iprp) return null;
+
+  const iprpChildren = readBoxes(bytes, iprp.dataStart, iprp.end);
+  const ipco = iprpChildren.find((child) => child.type === 'ipco');
+  const ipma = iprpChildren.find((child) => child.type === 'ipma');
+  if (!ipco || !ipma) return null;
+
+  const view = getView(bytes);
+  return {
+    box,
+    children,
+    primary: bytes[pitm.dataStart] === 0 ? view.getUint16(pitm.dataStart + 4) : view.getUint32(pitm.dataStart + 4),
+    items: readItemInfos(bytes, iinf),
+    locations: readItemLocations(bytes, iloc),
+    properties: readBoxes(bytes, ipco.dataStart, ipco.end),
+    associations: readAssociations(bytes, ipma),
+  };
+};
+
+const readItemData = (bytes: Uint8Array, meta: MetaInfo, id: number): Uint8Array | null => {
+  const location = meta.locations.items.find((item) => item.id === id);
+  // 仅支持数据位于本文件内
+  if (!location || location.dataReferenceIndex !== 0) return null;
+
+  let base = 0;
+  if (location.constructionMethod === 1) {
+    const idat = meta.children.find((child) => child.type === 'idat');
+    if (!idat) return null;
+    base = idat.dataStart;
+  } else if (location.constructionMethod !== 0) {
+    return null;
+  }
+
+  return concatBytes(
+    location.extents.map(({ offset, length }) =>
+      bytes.subarray(base + offset, length ? base + offset + length : bytes.length)
+    )
+  );
+};
+
+const readIcc = (bytes: Uint8Array, meta: MetaInfo): Uint8Array | undefined => {
+  for (const { index } of meta.associations.entries.get(meta.primary) ?? []) {
+    const property = meta.properties[index - 1];
+    if (property?.type !== 'colr') continue;
+    const colourType = readAscii(bytes, property.dataStart, 4);
+    if (colourType === 'prof' || colourType === 'rICC') {
+      return bytes.slice(property.dataStart + 4, property.end);
+    }
+  }
+  return undefined;
+};
+
+const getSubsampling = (x: boolean, y: boolean) => (x ? (y ? '4:2:0' : '4:2:2') : '4:4:4');
+
+/**
+ * 主图的位深与色度采样（pixi、av1C 或 HEVC 的 hvcC 属性），存在 Alpha 辅助图像即视为带透明度
+ */
+const readAvifInfo = (bytes: Uint8Array): ImageInfo => {
+  const meta = readMeta(bytes);
+  if (!meta) return {};
+
+  const info: ImageInfo = {
+    alpha: meta.properties.some(
+      (property) => property.type === 'auxC' && readCString(bytes, property.dataStart + 4, property.end).text.includes('alpha')
+    ),
+  };
+  for (const { index } of meta.associations.entries.get(meta.primary) ?? []) {
+    const property = meta.properties[index - 1];
+    const data = property?.dataStart ?? 0;
+    if (property?.type === 'pixi') {
+      // 版本与标志、通道数之后为各通道位深
+      info.bitDepth ??= bytes[data + 5];
+    } else if (property?.type === 'av1C') {
+      const flags = bytes[data + 2];
+      info.bitDepth ??= flags & 0x40 ? (flags & 0x20 ? 12 : 10) : 8;
+      info.colorType = flags & 0x10 ? '灰度' : `YUV ${getSubsampling((flags & 0x08) !== 0, (flags & 0x04) !== 0)}`;
+    } else if (property?.type === 'hvcC') {
+      const chromaFormat = bytes[data + 16] & 0x03;
+      info.bitDepth ??= (bytes[data + 17] & 0x07) + 8;
+      info.colorType = chromaFormat === 0 ? '灰度' : `YUV ${getSubsampling(chromaFormat < 3, chromaFormat === 1)}`;
+    }
+  }
+  return info;
+};
+
+const readAvifMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const meta = readMeta(bytes);
+  if (!meta) return {};
+  const metadata: ImageMetadata = { icc: readIcc(bytes, meta) };
+
+  for (const item of meta.items) {
+    if (item.type === 'Exif' && !metadata.exif) {
+      const data = readItemData(bytes, meta, item.id);
+      // 开头 4 字节为 TIFF 头之前的字节数
+      if (data && data.length > 4) {
+        metadata.exif = data.slice(4 + getView(data).getUint32(0));
+      }
+    } else if (item.type === 'mime' && item.contentType === XMP_CONTENT_TYPE && !metadata.xmp) {
+      metadata.xmp = readItemData(bytes, meta, item.id)?.slice();
+    }
+  }
+  return metadata;
+};
+
+const createItemInfo = (id: number, type: string, contentType?: string): Uint8Array => {
+  const version = id > 0xffff ? 3 : 2;
+  return createBox('infe', [
+    fullBoxHeader(version, 0),
+    version === 2 ? uint16(id) : uint32(id),
+    uint16(0),
+    encoder.encode(type),
+    cString(''),
+    ...(contentType ? [cString(contentType)] : []),
+  ]);
+};
+
+const createItemLocations = (version: number, items: ItemLocation[]): Uint8Array => {
+  const id = version < 2 ? uint16 : uint32;
+  return createBox('iloc', [
+    fullBoxHeader(version, 0),
+    // 偏移与长度均为 4 字节，不使用基准偏移与索引
+    new Uint8Array([0x44, 0x00]),
+    id(items.length),
+    ...items.flatMap((item) => [
+      id(item.id),
+      ...(version > 0 ? [uint16(item.constructionMethod)] : []),
+      uint16(item.dataReferenceIndex),
+      uint16(item.extents.length),
+      ...item.extents.flatMap((extent) => [uint32(extent.offset), uint32(extent.length)]),
+    ]),
+  ]);
+};
+
+const createAssociations = ({ version, flags, entries }: Omit<MetaInfo['associations'], 'box'>): Uint8Array => {
+  // 属性序号超出 7 位时改用 15 位
+  const wide = (flags & 1) !== 0 || [...entries.values()].some((list) => list.some(({ index }) => index > 0x7f));
+  return createBox('ipma', [
+    fullBoxHeader(version, wide ? flags | 1 : flags),
+    uint32(entries.size),
+    ...[...entries].flatMap(([id, associations]) => [
+      version < 1 ? uint16(id) : uint32(id),
+      new Uint8Array([associations.length]),
+      ...associations.map(({ essential, index }) =>
+        wide ? uint16((essential ? 0x8000 : 0) | index) : new Uint8Array([(essential ? 0x80 : 0) | index])
+      ),
+    ]),
+  ]);
+};
+
+const createReferences = (bytes: Uint8Array, iref: Box | undefined, from: number[], to: number): Uint8Array => {
+  const version = iref ? bytes[iref.dataStart] : from.some((id) => id > 0xffff) || to > 0xffff ? 1 : 0;
+  const id = version === 0 ? uint16 : uint32;
+  return createBox('iref', [
+    fullBoxHeader(version, 0),
+    ...(iref ? [bytes.subarray(iref.dataStart + 4, iref.end)] : []),
+    // 元数据项以 cdsc（内容描述）引用主图
+    ...from.map((itemId) => createBox('cdsc', [id(itemId), uint16(1), id(to)])),
+  ]);
+};
+
+export const avifContainer: MetadataContainer = {
+  detect: (bytes) => matchAscii(bytes, 4, 'ftyp') && BRANDS.some((brand) => matchAscii(bytes, 8, brand)),
+  readInfo: readAvifInfo,
+  read: async (bytes) => readAvifMetadata(bytes),
+  write: async (bytes, metadata) => {
+    if (!metadata.exif && !metadata.xmp && !metadata.icc) return bytes;
+    const meta = readMeta(bytes);
+    if (!meta) {
+      throw new Error('AVIF 缺少 meta 结构');
+    }
+    // 只为编码器的输出追加元数据，已含元数据时保持原样
+    const existing = readAvifMetadata(bytes);
+    if (existing.exif || existing.xmp || existing.icc) return bytes;
+
+    const payloads: { type: string; contentType?: string; data: Uint8Array }[] = [];
+    if (metadata.exif) {
+      payloads.push({ type: 'Exif', data: concatBytes([uint32(0), metadata.exif]) });
+    }
+    if (metadata.xmp) {
+      payloads.push({ type: 'mime', contentType: XMP_CONTENT_TYPE, data: metadata.xmp });
+    }
+    const firstId = Math.max(meta.primary, ...meta.items.map((item) => item.id)) + 1;
+    const newIds = payloads.map((_, index) => firstId + index);
+
+    // 属性：在主图的变换属性之前关联新的 colr
+    const properties = meta.properties.map((property) => bytes.subarray(property.start, property.end));
+    const entries = new Map(meta.associations.entries);
+    if (metadata.icc) {
+      properties.push(createBox('colr', [encoder.encode('prof'), metadata.icc]));
+      const associations = [...(entries.get(meta.primary) ?? [])];
+      const transform = associations.findIndex(
+        ({ index }) => TRANSFORM_PROPERTIES.includes(meta.properties[index - 1]?.type ?? '')
+      );
+      associations.splice(transform < 0 ? associations.length : transform, 0, {
+        essential: false,
+        index: properties.length,
+      });
+      entries.set(meta.primary, associations);
+    }
+
+    const iinf = meta.children.find((child) => child.type === 'iinf')!;
+    const iref = meta.children.find((child) => child.type === 'iref');
+    const iinfVersion = bytes[iinf.dataStart];
+    const countSize = iinfVersion === 0 ? 2 : 4;
+    const itemCount = readUint(getView(bytes), iinf.dataStart + 4, countSize);
+
+    // 新 meta 的长度与偏移取值无关，先以 0 偏移构建一次求出长度变化
+    const buildMeta = (sizeDelta: number, payloadStart: number) => {
+      let payloadOffset = payloadStart;
+      const locations: ItemLocation[] = [
+        ...meta.locations.items.map((item) => ({
+          ...item,
+          extents: item.extents.map((extent) => ({
+            ...extent,
+            // meta 之后的数据随 meta 长度变化整体移动
+            offset:
+              item.constructionMethod === 0 && extent.offset >= meta.box.end ? extent.offset + sizeDelta : extent.offset,
+          })),
+        })),
+        ...payloads.map((payload, index) => {
+          const location = {
+            id: newIds[index],
+            constructionMethod: 0,
+            dataReferenceIndex: 0,
+            extents: [{ offset: payloadOffset, length: payload.data.length }],
+          };
+          payloadOffset += payload.data.length;
+          return location;
+        }),
+      ];
+
+      const children = meta.children.map((child) => {
+        switch (child.type) {
+          case 'iinf':
+            return createBox('iinf', [
+              fullBoxHeader(iinfVersion, 0),
+              iinfVersion === 0 ? uint16(itemCount + payloads.length) : uint32(itemCount + payloads.length),
+              bytes.subarray(iinf.dataStart + 4 + countSize, iinf.end),
+              ...payloads.map((payload, index) => createItemInfo(newIds[index], payload.type, payload.contentType)),
+            ]);
+          case 'iloc':
+            return createItemLocations(meta.locations.version, locations);
+          case 'iref':
+            return createReferences(bytes, child, newIds, meta.primary);
+          case 'iprp':
+            return createBox(
+              'iprp',
+              readBoxes(bytes, child.dataStart, child.end).map((property) => {
+                if (property.type === 'ipco') return createBox('ipco', properties);
+                if (property.start === meta.associations.box.start) {
+                  return createAssociations({ ...meta.associations, entries });
+                }
+                return bytes.subarray(property.start, property.end);
+              })
+            );
+          default:
+            return bytes.subarray(child.start, child.end);
+        }
+      });
+      if (!iref && payloads.length > 0) {
+        children.push(createReferences(bytes, undefined, newIds, meta.primary));
+      }
+
+      return createBox('meta', [bytes.subarray(meta.box.dataStart, meta.box.dataStart + 4), ...children]);
+    };
+
+    const sizeDelta = buildMeta(0, 0).length - (meta.box.end - meta.box.start);
+    // 新 mdat 追加在文件末尾，数据紧跟其盒头
+    const payloadStart = bytes.length + sizeDelta + 8;
+    const mdat = createBox('mdat', payloads.map((payload) => payload.data));
+
+    return concatBytes([
+      bytes.subarray(0, meta.box.start),
+      buildMeta(sizeDelta, payloadStart),
+      bytes.subarray(meta.box.end),
+      ...(payloads.length > 0 ? [mdat] : []),
+    ]);
+  },
+};
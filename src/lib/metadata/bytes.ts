@@ -0,0 +1,33 @@
+/**
+ * 元数据读写共用的字节工具
+ */
+
+/**
+ * 拼接多段字节
+ */
+export const concatBytes = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+/**
+ * 判断指定位置是否为给定的 ASCII 字符串
+ */
+export const matchAscii = (bytes: Uint8Array, offset: number, text: string): boolean => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+/**
+ * 读取指定位置的 ASCII 字符串
+ */
+export const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
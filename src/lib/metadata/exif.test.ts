@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createTiffReader, readExifTags, readIfd, removeExifThumbnail, stripPrivateExif } from '@/lib/metadata/exif';
+import { filterMetadata } from '@/lib/metadata';
+
+const THUMBNAIL_OFFSET = 86;
+const THUMBNAIL_LENGTH = 16;
+
+/**
+ * 构造小端 TIFF：IFD0（方向、Make、版权）→ IFD1（JPEG 缩略图）
+ */
+const createExif = (): Uint8Array => {
+  const bytes = new Uint8Array(THUMBNAIL_OFFSET + THUMBNAIL_LENGTH);
+  const view = new DataView(bytes.buffer);
+  const entry = (position: number, tag: number, type: number, count: number, value: number) => {
+    view.setUint16(position, tag, true);
+    view.setUint16(position + 2, type, true);
+    view.setUint32(position + 4, count, true);
+    view.setUint32(position + 8, value, true);
+  };
+
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  // IFD0：8-50，Make 的值位于 50-56
+  view.setUint16(8, 3, true);
+  entry(10, 0x0112, 3, 1, 6);
+  entry(22, 0x010f, 2, 6, 50);
+  entry(34, 0x8298, 2, 4, 0x00434241);
+  view.setUint32(46, 56, true);
+  bytes.set(new TextEncoder().encode('Canon\0'), 50);
+
+  // IFD1：56-86，缩略图位于 86 之后
+  view.setUint16(56, 2, true);
+  entry(58, 0x0201, 4, 1, THUMBNAIL_OFFSET);
+  entry(70, 0x0202, 4, 1, THUMBNAIL_LENGTH);
+  view.setUint32(82, 0, true);
+  bytes.fill(0xab, THUMBNAIL_OFFSET);
+  bytes.set([0xff, 0xd8, 0xff], THUMBNAIL_OFFSET);
+
+  return bytes;
+};
+
+const readNextIfd = (tiff: Uint8Array) => {
+  const reader = createTiffReader(tiff)!;
+  return readIfd(reader, reader.firstIfd).next;
+};
+
+const hasThumbnailData = (tiff: Uint8Array) =>
+  tiff.subarray(THUMBNAIL_OFFSET, THUMBNAIL_OFFSET + THUMBNAIL_LENGTH).some((byte) => byte !== 0);
+
+describe('stripPrivateExif', () => {
+  it('移除 IFD1 缩略图', () => {
+    const exif = createExif();
+    expect(readNextIfd(exif)).toBe(56);
+
+    const stripped = stripPrivateExif(exif)!;
+    expect(readNextIfd(stripped)).toBe(0);
+    expect(hasThumbnailData(stripped)).toBe(false);
+    expect(stripped.subarray(56, THUMBNAIL_OFFSET).every((byte) => byte === 0)).toBe(true);
+  });
+
+  it('删除设备信息，保留方向与版权', () => {
+    const tags = readExifTags(stripPrivateExif(createExif())!);
+    expect(tags.map((tag) => tag.tag)).toEqual([0x0112, 0x8298]);
+  });
+});
+
+describe('removeExifThumbnail', () => {
+  it('只移除缩略图，其它标签不变', () => {
+    const exif = createExif();
+    const result = removeExifThumbnail(exif);
+    expect(readNextIfd(result)).toBe(0);
+    expect(hasThumbnailData(result)).toBe(false);
+    expect(readExifTags(result)).toEqual(readExifTags(exif));
+  });
+
+  it('同时删除误写在 IFD0 中的缩略图标签', () => {
+    const exif = createExif();
+    // 将版权条目改为 JPEGInterchangeFormat
+    new DataView(exif.buffer).setUint16(34, 0x0201, true);
+    const tags = readExifTags(removeExifThumbnail(exif));
+    expect(tags.map((tag) => tag.tag)).toEqual([0x0112, 0x010f]);
+  });
+});
+
+describe('filterMetadata', () => {
+  it('像素重新绘制后即使保留元数据也移除缩略图', () => {
+    const { exif } = filterMetadata({ exif: createExif() }, 'keep', true);
+    expect(readNextIfd(exif!)).toBe(0);
+    expect(hasThumbnailData(exif!)).toBe(false);
+  });
+
+  it('原样输出时保留缩略图', () => {
+    const { exif } = filterMetadata({ exif: createExif() }, 'keep', false);
+    expect(readNextIfd(exif!)).toBe(56);
+    expect(hasThumbnailData(exif!)).toBe(true);
+  });
+});
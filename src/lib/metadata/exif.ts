@@ -0,0 +1,325 @@
+/**
+ * EXIF（TIFF 结构）处理
+ * 按需清除位置与设备字段：在原数据上删除 IFD 条目并清零其值数据，不重排偏移量
+ */
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const TAG_THUMBNAIL_OFFSET = 0x0201; // JPEGInterchangeFormat
+const TAG_THUMBNAIL_LENGTH = 0x0202; // JPEGInterchangeFormatLength
+
+/**
+ * 查看时每个标签最多读取的数值个数（条带偏移等数组可能很长）
+ */
+const MAX_INSPECT_VALUES = 16;
+
+/**
+ * 位置与设备相关的标签；版权（Copyright、Artist）与方向保留
+ */
+const PRIVATE_TAGS = new Set([
+  0x010f, // Make
+  0x0110, // Model
+  0x0131, // Software
+  0x013c, // HostComputer
+  TAG_GPS_IFD,
+  0x927c, // MakerNote
+  0xa420, // ImageUniqueID
+  0xa430, // CameraOwnerName
+  0xa431, // BodySerialNumber
+  0xa432, // LensSpecification
+  0xa433, // LensMake
+  0xa434, // LensModel
+  0xa435, // LensSerialNumber
+  0xc62f, // CameraSerialNumber（DNG）
+]);
+
+/**
+ * 各数据类型的单个值字节数
+ */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+export interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // 值数据的位置：不超过 4 字节时位于条目内
+  valueOffset: number;
+  valueSize: number;
+}
+
+export interface TiffReader {
+  view: DataView;
+  littleEndian: boolean;
+  // IFD0 的位置
+  firstIfd: number;
+}
+
+/**
+ * 解析 TIFF 头，格式无效时返回 null
+ */
+export const createTiffReader = (tiff: Uint8Array): TiffReader | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+  return { view, littleEndian, firstIfd: view.getUint32(4, littleEndian) };
+};
+
+/**
+ * 读取一个 IFD 的全部条目与下一个 IFD 的位置
+ */
+export const readIfd = ({ view, littleEndian }: TiffReader, offset: number): { entries: IfdEntry[]; next: number } => {
+  if (offset < 8 || offset + 2 > view.byteLength) {
+    throw new Error('EXIF 数据无效');
+  }
+  const count = view.getUint16(offset, littleEndian);
+  if (offset + 2 + count * 12 + 4 > view.byteLength) {
+    throw new Error('EXIF 数据无效');
+  }
+
+  const entries: IfdEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const valueSize = (TYPE_SIZES[type] ?? 1) * valueCount;
+    entries.push({
+      tag: view.getUint16(entry, littleEndian),
+      type,
+      count: valueCount,
+      valueOffset: valueSize <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian),
+      valueSize,
+    });
+  }
+  return { entries, next: view.getUint32(offset + 2 + count * 12, littleEndian) };
+};
+
+/**
+ * 将 IFD 改写为只包含保留的条目，被删除条目的值数据清零
+ */
+const rewriteIfd = (reader: TiffReader, offset: number, keep: (entry: IfdEntry) => boolean) => {
+  const { view, littleEndian } = reader;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  const { entries, next } = readIfd(reader, offset);
+  const kept: Uint8Array[] = [];
+
+  entries.forEach((entry, index) => {
+    const position = offset + 2 + index * 12;
+    if (keep(entry)) {
+      kept.push(bytes.slice(position, position + 12));
+    } else if (entry.valueSize > 4 && entry.valueOffset + entry.valueSize <= bytes.length) {
+      bytes.fill(0, entry.valueOffset, entry.valueOffset + entry.valueSize);
+    }
+  });
+
+  bytes.fill(0, offset, offset + 2 + entries.length * 12 + 4);
+  view.setUint16(offset, kept.length, littleEndian);
+  kept.forEach((entry, index) => bytes.set(entry, offset + 2 + index * 12));
+  view.setUint32(offset + 2 + kept.length * 12, next, littleEndian);
+};
+
+/**
+ * 原地移除 IFD1 缩略图：缩略图数据与 IFD1 清零，IFD0 的下一个 IFD 位置改为 0
+ */
+const dropThumbnail = (reader: TiffReader) => {
+  const { view, littleEndian } = reader;
+  const { next } = readIfd(reader, reader.firstIfd);
+
+  if (next) {
+    try {
+      const { entries } = readIfd(reader, next);
+      const offset = entries.find((entry) => entry.tag === TAG_THUMBNAIL_OFFSET);
+      const length = entries.find((entry) => entry.tag === TAG_THUMBNAIL_LENGTH);
+      if (offset && length) {
+        const start = view.getUint32(offset.valueOffset, littleEndian);
+        const end = Math.min(start + view.getUint32(length.valueOffset, littleEndian), view.byteLength);
+        new Uint8Array(view.buffer, view.byteOffset, view.byteLength).fill(0, Math.min(start, end), end);
+      }
+      rewriteIfd(reader, next, () => false);
+      new Uint8Array(view.buffer, view.byteOffset, view.byteLength).fill(0, next, next + 6);
+    } catch {
+      // IFD1 无效时只断开链接
+    }
+  }
+
+  // 缩略图标签偶尔误写在 IFD0 中，一并删除
+  rewriteIfd(reader, reader.firstIfd, (entry) => entry.tag !== TAG_THUMBNAIL_OFFSET && entry.tag !== TAG_THUMBNAIL_LENGTH);
+  const count = view.getUint16(reader.firstIfd, littleEndian);
+  view.setUint32(reader.firstIfd + 2 + count * 12, 0, littleEndian);
+};
+
+/**
+ * 移除 IFD1 缩略图，像素改变后缩略图已不再对应；无法解析时原样返回
+ */
+export const removeExifThumbnail = (tiff: Uint8Array): Uint8Array => {
+  const copy = tiff.slice();
+  const reader = createTiffReader(copy);
+  if (!reader) return copy;
+
+  try {
+    dropThumbnail(reader);
+  } catch {
+    // 无法解析时保持原样
+  }
+  return copy;
+};
+
+/**
+ * 清除 EXIF 中的位置与设备信息及缩略图，返回新的数据；无法解析时返回 null（调用方应整体丢弃）
+ */
+export const stripPrivateExif = (tiff: Uint8Array): Uint8Array | null => {
+  const copy = tiff.slice();
+  const reader = createTiffReader(copy);
+  if (!reader) return null;
+
+  try {
+    // 缩略图是未处理的原图，可能包含已裁切掉的内容
+    dropThumbnail(reader);
+    const visited = new Set<number>();
+    const scrub = (offset: number) => {
+      if (!offset || visited.has(offset)) return;
+      visited.add(offset);
+      const { entries, next } = readIfd(reader, offset);
+
+      for (const entry of entries) {
+        if (entry.tag === TAG_EXIF_IFD || entry.tag === TAG_INTEROP_IFD) {
+          scrub(reader.view.getUint32(entry.valueOffset, reader.littleEndian));
+        } else if (entry.tag === TAG_GPS_IFD) {
+          // GPS IFD 整体清空
+          rewriteIfd(reader, reader.view.getUint32(entry.valueOffset, reader.littleEndian), () => false);
+        }
+      }
+      rewriteIfd(reader, offset, (entry) => !PRIVATE_TAGS.has(entry.tag));
+      scrub(next);
+    };
+
+    scrub(reader.firstIfd);
+    return copy;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 读取方向标签（1-8），缺失或无效时返回 1
+ */
+export const readExifOrientation = (tiff: Uint8Array): number => {
+  const reader = createTiffReader(tiff);
+  if (!reader) return 1;
+
+  try {
+    const entry = readIfd(reader, reader.firstIfd).entries.find((item) => item.tag === TAG_ORIENTATION);
+    const orientation = entry ? reader.view.getUint16(entry.valueOffset, reader.littleEndian) : 1;
+    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+  } catch {
+    return 1;
+  }
+};
+
+/**
+ * 将方向标签改为 1（正常），像素已按原方向旋转后使用
+ */
+export const resetExifOrientation = (tiff: Uint8Array): Uint8Array => {
+  const copy = tiff.slice();
+  const reader = createTiffReader(copy);
+  if (!reader) return copy;
+
+  try {
+    const orientation = readIfd(reader, reader.firstIfd).entries.find((entry) => entry.tag === TAG_ORIENTATION);
+    if (orientation) {
+      reader.view.setUint16(orientation.valueOffset, 1, reader.littleEndian);
+    }
+  } catch {
+    // 无法解析时保持原样
+  }
+  return copy;
+};
+
+export type ExifIfd = 'image' | 'exif' | 'gps' | 'interop';
+
+const SUB_IFDS: Record<number, ExifIfd> = {
+  [TAG_EXIF_IFD]: 'exif',
+  [TAG_GPS_IFD]: 'gps',
+  [TAG_INTEROP_IFD]: 'interop',
+};
+
+/**
+ * 各数值类型的读取方式，有理数换算为小数
+ */
+const VALUE_READERS: Record<number, (offset: number, view: DataView, littleEndian: boolean) => number> = {
+  3: (offset, view, le) => view.getUint16(offset, le),
+  4: (offset, view, le) => view.getUint32(offset, le),
+  5: (offset, view, le) => view.getUint32(offset, le) / view.getUint32(offset + 4, le),
+  6: (offset, view) => view.getInt8(offset),
+  8: (offset, view, le) => view.getInt16(offset, le),
+  9: (offset, view, le) => view.getInt32(offset, le),
+  10: (offset, view, le) => view.getInt32(offset, le) / view.getInt32(offset + 4, le),
+  11: (offset, view, le) => view.getFloat32(offset, le),
+  12: (offset, view, le) => view.getFloat64(offset, le),
+};
+
+export interface ExifTag {
+  ifd: ExifIfd;
+  tag: number;
+  type: number;
+  count: number;
+  // 文本、数值（有理数已换算为小数），或无法识别为文本的原始字节
+  value: string | number[] | Uint8Array;
+}
+
+const readEntryValue = ({ view, littleEndian }: TiffReader, entry: IfdEntry): ExifTag['value'] => {
+  const { type, valueOffset, valueSize } = entry;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, valueSize);
+
+  // ASCII 与可打印的 UNDEFINED（如 ExifVersion）按文本读取
+  if (type === 2 || (type === 7 && valueSize <= 16 && bytes.every((byte) => byte === 0 || (byte >= 0x20 && byte < 0x7f)))) {
+    return new TextDecoder().decode(bytes).replace(/\0+$/, '').trim();
+  }
+  if (type === 7) return bytes;
+
+  const size = TYPE_SIZES[type] ?? 1;
+  const read = VALUE_READERS[type] ?? ((offset: number) => view.getUint8(offset));
+  const values: number[] = [];
+  for (let i = 0; i < Math.min(entry.count, MAX_INSPECT_VALUES); i++) {
+    values.push(read(valueOffset + i * size, view, littleEndian));
+  }
+  return values;
+};
+
+/**
+ * 读取 IFD0 及其 Exif、GPS、互操作性子 IFD 中的全部标签，用于查看；无法解析的部分跳过
+ */
+export const readExifTags = (tiff: Uint8Array): ExifTag[] => {
+  const reader = createTiffReader(tiff);
+  if (!reader) return [];
+
+  const tags: ExifTag[] = [];
+  const visited = new Set<number>();
+  const visit = (offset: number, ifd: ExifIfd) => {
+    if (!offset || visited.has(offset)) return;
+    visited.add(offset);
+
+    let entries: IfdEntry[];
+    try {
+      entries = readIfd(reader, offset).entries;
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.valueOffset + entry.valueSize > reader.view.byteLength) continue;
+      const subIfd = SUB_IFDS[entry.tag];
+      if (subIfd) {
+        visit(reader.view.getUint32(entry.valueOffset, reader.littleEndian), subIfd);
+      } else {
+        tags.push({ ifd, tag: entry.tag, type: entry.type, count: entry.count, value: readEntryValue(reader, entry) });
+      }
+    }
+  };
+
+  visit(reader.firstIfd, 'image');
+  return tags;
+};
@@ -0,0 +1,120 @@
+import type { MetadataPolicy } from '@/types';
+import { avifContainer } from '@/lib/metadata/avif';
+import { readExifOrientation, removeExifThumbnail, resetExifOrientation, stripPrivateExif } from '@/lib/metadata/exif';
+import { jpegContainer } from '@/lib/metadata/jpeg';
+import { pngContainer } from '@/lib/metadata/png';
+import { webpContainer } from '@/lib/metadata/webp';
+import { resetXmpOrientation, stripPrivateXmp } from '@/lib/metadata/xmp';
+
+/**
+ * 图片元数据（EXIF、XMP、ICC）
+ * 画布重编码会丢失全部元数据：从源文件读取后按策略过滤，再写入输出文件
+ */
+
+/**
+ * 各容器格式中提取出的元数据，EXIF 为 TIFF 结构（不含 Exif 前缀）
+ */
+export interface ImageMetadata {
+  exif?: Uint8Array;
+  xmp?: Uint8Array;
+  icc?: Uint8Array;
+  // IPTC-IIM 记录（JPEG 的 Photoshop 资源段），仅读取用于查看，不写入输出
+  iptc?: Uint8Array;
+}
+
+/**
+ * 像素格式信息，无法识别的字段为空
+ */
+export interface ImageInfo {
+  bitDepth?: number;
+  colorType?: string;
+  alpha?: boolean;
+}
+
+export interface MetadataContainer {
+  // 根据文件开头的字节判断格式
+  detect: (bytes: Uint8Array) => boolean;
+  read: (bytes: Uint8Array) => Promise<ImageMetadata>;
+  readInfo: (bytes: Uint8Array) => ImageInfo;
+  // 替换文件中的全部元数据，字段为空表示移除
+  write: (bytes: Uint8Array, metadata: ImageMetadata) => Promise<Uint8Array>;
+}
+
+const containers: MetadataContainer[] = [jpegContainer, pngContainer, webpContainer, avifContainer];
+
+export const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/**
+ * 按文件头查找容器格式，不支持时返回 undefined
+ */
+export const findContainer = (bytes: Uint8Array): MetadataContainer | undefined =>
+  containers.find((container) => container.detect(bytes));
+
+/**
+ * 读取图片的元数据，不支持的格式或结构无效时返回空
+ */
+export const readMetadata = async (blob: Blob): Promise<ImageMetadata> => {
+  try {
+    const bytes = await readBytes(blob);
+    return (await findContainer(bytes)?.read(bytes)) ?? {};
+  } catch (error) {
+    console.warn('读取图片元数据失败', error);
+    return {};
+  }
+};
+
+/**
+ * EXIF 方向（1-8），没有 EXIF 时为 1
+ */
+export const getOrientation = (metadata: ImageMetadata): number =>
+  metadata.exif ? readExifOrientation(metadata.exif) : 1;
+
+/**
+ * 按策略过滤元数据
+ * @param resetOrientation 像素已由画布重新绘制（已按方向旋转），需将方向标签改为正常，并移除不再对应的缩略图
+ */
+export const filterMetadata = (
+  metadata: ImageMetadata,
+  policy: MetadataPolicy,
+  resetOrientation: boolean
+): ImageMetadata => {
+  if (policy === 'strip') return {};
+
+  let { exif, xmp } = metadata;
+  if (policy === 'strip-private') {
+    exif = exif && (stripPrivateExif(exif) ?? undefined);
+    xmp = xmp && stripPrivateXmp(xmp);
+  }
+  if (resetOrientation) {
+    exif = exif && removeExifThumbnail(resetExifOrientation(exif));
+    xmp = xmp && resetXmpOrientation(xmp);
+  }
+  // ICC 决定颜色显示，不含隐私信息
+  return { exif, xmp, icc: metadata.icc };
+};
+
+/**
+ * 每段元数据在容器中的结构开销（段头、块头、盒等）上限
+ */
+const CONTAINER_OVERHEAD = 64;
+
+/**
+ * 写入后增加的字节数上限，用于目标体积预留空间
+ */
+export const getMetadataSize = (metadata: ImageMetadata): number =>
+  [metadata.exif, metadata.xmp, metadata.icc].reduce(
+    (sum, data) => sum + (data ? data.length + CONTAINER_OVERHEAD : 0),
+    0
+  );
+
+/**
+ * 将元数据写入图片（替换原有元数据），GIF、ICO 等不支持的格式原样返回
+ */
+export const writeMetadata = async (blob: Blob, metadata: ImageMetadata): Promise<Blob> => {
+  const bytes = await readBytes(blob);
+  const container = findContainer(bytes);
+  if (!container) return blob;
+
+  const output = await container.write(bytes, metadata);
+  return output === bytes ? blob : new Blob([output.slice()], { type: blob.type });
+};
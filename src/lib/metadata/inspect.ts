@@ -0,0 +1,328 @@
+import { findContainer, readBytes, type ImageInfo, type ImageMetadata } from '@/lib/metadata';
+import { matchAscii } from '@/lib/metadata/bytes';
+import { readExifTags, type ExifTag } from '@/lib/metadata/exif';
+
+/**
+ * 元数据查看：把 EXIF、GPS、XMP、IPTC、ICC 与像素格式整理为可读的字段，用于对比原图与输出
+ */
+
+export interface MetadataField {
+  label: string;
+  value: string;
+}
+
+export type MetadataSection = 'image' | 'exif' | 'gps' | 'xmp' | 'iptc';
+
+export type MetadataReport = Record<MetadataSection, MetadataField[]>;
+
+export const sectionLabels: Record<MetadataSection, string> = {
+  image: '图像',
+  exif: 'EXIF',
+  gps: 'GPS 位置',
+  xmp: 'XMP',
+  iptc: 'IPTC',
+};
+
+/**
+ * 文本值的最大显示长度
+ */
+const MAX_VALUE_LENGTH = 120;
+
+const ORIENTATIONS: Record<number, string> = {
+  1: '正常',
+  2: '水平翻转',
+  3: '旋转 180°',
+  4: '垂直翻转',
+  5: '水平翻转并顺时针旋转 270°',
+  6: '顺时针旋转 90°',
+  7: '水平翻转并顺时针旋转 90°',
+  8: '顺时针旋转 270°',
+};
+
+const round = (value: number, digits = 4) => String(Number(value.toFixed(digits)));
+
+/**
+ * 常用 EXIF 标签的名称与格式化方式（IFD0 与 Exif IFD），未列出的标签按编号显示
+ */
+const EXIF_TAGS: Record<number, [string, ((values: number[]) => string)?]> = {
+  0x010e: ['图像描述'],
+  0x010f: ['相机厂商'],
+  0x0110: ['相机型号'],
+  0x0112: ['方向', ([value]) => ORIENTATIONS[value] ?? String(value)],
+  0x011a: ['水平分辨率'],
+  0x011b: ['垂直分辨率'],
+  0x0131: ['软件'],
+  0x0132: ['修改时间'],
+  0x013b: ['作者'],
+  0x013c: ['主机'],
+  0x8298: ['版权'],
+  0x829a: ['曝光时间', ([value]) => (value < 1 ? `1/${Math.round(1 / value)} s` : `${round(value)} s`)],
+  0x829d: ['光圈', ([value]) => `f/${round(value, 1)}`],
+  0x8827: ['ISO'],
+  0x9003: ['拍摄时间'],
+  0x9004: ['数字化时间'],
+  0x9010: ['时区'],
+  0x9209: ['闪光灯', ([value]) => (value & 1 ? '已闪光' : '未闪光')],
+  0x920a: ['焦距', ([value]) => `${round(value, 1)} mm`],
+  0x927c: ['厂商注释'],
+  0xa001: ['色彩空间', ([value]) => (value === 1 ? 'sRGB' : '未校准')],
+  0xa002: ['像素宽度'],
+  0xa003: ['像素高度'],
+  0xa420: ['图像唯一 ID'],
+  0xa430: ['相机所有者'],
+  0xa431: ['机身序列号'],
+  0xa433: ['镜头厂商'],
+  0xa434: ['镜头型号'],
+  0xa435: ['镜头序列号'],
+};
+
+const GPS_TAGS: Record<number, [string, ((values: number[]) => string)?]> = {
+  0x06: ['海拔', ([value]) => `${round(value, 1)} m`],
+  0x07: ['时间（UTC）', (values) => values.map((value) => String(Math.floor(value)).padStart(2, '0')).join(':')],
+  0x1d: ['日期'],
+};
+
+// IPTC-IIM 应用记录（2:xx）
+const IPTC_DATASETS: Record<number, string> = {
+  5: '名称',
+  25: '关键词',
+  80: '作者',
+  85: '作者职位',
+  90: '城市',
+  92: '地点',
+  95: '省/州',
+  100: '国家代码',
+  101: '国家',
+  105: '标题',
+  110: '署名',
+  115: '来源',
+  116: '版权',
+  120: '说明',
+};
+
+const truncate = (text: string) => (text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text);
+
+const formatTag = ({ value, count }: ExifTag, format?: (values: number[]) => string): string => {
+  if (typeof value === 'string') return truncate(value);
+  if (value instanceof Uint8Array) return `${value.length} 字节`;
+  if (format && value.length > 0) return format(value);
+  return value.map((item) => round(item)).join(', ') + (count > value.length ? ' …' : '');
+};
+
+const formatHex = (tag: number) => `0x${tag.toString(16).padStart(4, '0')}`;
+
+/**
+ * 度分秒换算为带符号的十进制度数
+ */
+const toDegrees = (values: number[] | undefined, ref: string | undefined, negative: string): number | null => {
+  if (!values || values.length < 3) return null;
+  const degrees = values[0] + values[1] / 60 + values[2] / 3600;
+  return ref?.startsWith(negative) ? -degrees : degrees;
+};
+
+const readGps = (tags: ExifTag[]): MetadataField[] => {
+  const byTag = new Map(tags.map((tag) => [tag.tag, tag.value]));
+  const numbers = (tag: number) => {
+    const value = byTag.get(tag);
+    return Array.isArray(value) ? value : undefined;
+  };
+  const text = (tag: number) => {
+    const value = byTag.get(tag);
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const fields: MetadataField[] = [];
+  const latitude = toDegrees(numbers(0x02), text(0x01), 'S');
+  const longitude = toDegrees(numbers(0x04), text(0x03), 'W');
+  if (latitude !== null && longitude !== null) {
+    fields.push({
+      label: '坐标',
+      value: `${Math.abs(latitude).toFixed(6)}° ${latitude < 0 ? 'S' : 'N'}, ${Math.abs(longitude).toFixed(6)}° ${longitude < 0 ? 'W' : 'E'}`,
+    });
+  }
+
+  for (const tag of tags) {
+    // 经纬度及其参考方向已合并为坐标，海拔参考并入海拔
+    if (tag.tag <= 0x05) continue;
+    const [label, format] = GPS_TAGS[tag.tag] ?? [`GPS 标签 ${formatHex(tag.tag)}`];
+    const value = formatTag(tag, format);
+    const belowSeaLevel = tag.tag === 0x06 && numbers(0x05)?.[0] === 1;
+    fields.push({ label, value: belowSeaLevel ? `-${value}` : value });
+  }
+  return fields;
+};
+
+const readExif = (exif: Uint8Array | undefined): Pick<MetadataReport, 'exif' | 'gps'> => {
+  const tags = exif ? readExifTags(exif) : [];
+  return {
+    exif: tags
+      .filter((tag) => tag.ifd !== 'gps')
+      .map((tag) => {
+        const [label, format] = EXIF_TAGS[tag.tag] ?? [`标签 ${formatHex(tag.tag)}`];
+        return { label, value: formatTag(tag, format) };
+      }),
+    gps: readGps(tags.filter((tag) => tag.ifd === 'gps')),
+  };
+};
+
+/**
+ * 列出 rdf:Description 的属性与子元素，列表（rdf:Seq/Bag/Alt）合并为一个值
+ */
+const readXmp = (xmp: Uint8Array | undefined): MetadataField[] => {
+  if (!xmp) return [];
+  const text = new TextDecoder().decode(xmp);
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    return [{ label: 'XMP', value: `${xmp.length} 字节（无法解析）` }];
+  }
+
+  const fields: MetadataField[] = [];
+  for (const description of Array.from(document.getElementsByTagName('rdf:Description'))) {
+    for (const attribute of Array.from(description.attributes)) {
+      if (attribute.name.startsWith('xmlns') || attribute.name.startsWith('rdf:')) continue;
+      fields.push({ label: attribute.name, value: truncate(attribute.value) });
+    }
+    for (const child of Array.from(description.children)) {
+      const items = Array.from(child.getElementsByTagName('rdf:li'));
+      const value = items.length > 0
+        ? items.map((item) => item.textContent?.trim()).filter(Boolean).join('、')
+        : (child.textContent ?? '').replace(/\s+/g, ' ').trim();
+      if (value) fields.push({ label: child.tagName, value: truncate(value) });
+    }
+  }
+  return fields;
+};
+
+/**
+ * IPTC-IIM：每条记录以 0x1C、记录号、数据集号与 2 字节长度开头；重复的数据集（如关键词）合并
+ */
+const readIptc = (iptc: Uint8Array | undefined): MetadataField[] => {
+  if (!iptc) return [];
+  const view = new DataView(iptc.buffer, iptc.byteOffset, iptc.byteLength);
+  const decoder = new TextDecoder();
+  const values = new Map<string, string[]>();
+  let offset = 0;
+
+  while (offset + 5 <= iptc.length && iptc[offset] === 0x1c) {
+    const record = iptc[offset + 1];
+    const dataset = iptc[offset + 2];
+    const length = view.getUint16(offset + 3);
+    // 扩展长度（最高位为 1）的数据集不常见，遇到即停止
+    if (length & 0x8000) break;
+    const data = iptc.subarray(offset + 5, offset + 5 + length);
+    offset += 5 + length;
+
+    if (record !== 2 || dataset === 0) continue;
+    const label = IPTC_DATASETS[dataset] ?? `数据集 2:${dataset}`;
+    values.set(label, [...(values.get(label) ?? []), decoder.decode(data).trim()]);
+  }
+
+  return Array.from(values, ([label, list]) => ({ label, value: truncate(list.join('、')) }));
+};
+
+/**
+ * ICC 配置名称：v2 为 desc 类型（ASCII），v4 为 mluc 类型（UTF-16BE，多语言取第一条）
+ */
+const readIccName = (icc: Uint8Array): string | null => {
+  const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength);
+  if (icc.length < 132) return null;
+  const count = view.getUint32(128);
+
+  for (let i = 0; i < count && 132 + i * 12 + 12 <= icc.length; i++) {
+    const entry = 132 + i * 12;
+    if (!matchAscii(icc, entry, 'desc')) continue;
+    const offset = view.getUint32(entry + 4);
+    if (offset + 12 > icc.length) return null;
+
+    if (matchAscii(icc, offset, 'desc')) {
+      const length = view.getUint32(offset + 8);
+      return new TextDecoder().decode(icc.subarray(offset + 12, offset + 12 + length)).replace(/\0+$/, '');
+    }
+    if (matchAscii(icc, offset, 'mluc') && offset + 28 <= icc.length) {
+      const length = view.getUint32(offset + 20);
+      const start = offset + view.getUint32(offset + 24);
+      return new TextDecoder('utf-16be').decode(icc.subarray(start, start + length));
+    }
+    return null;
+  }
+  return null;
+};
+
+/**
+ * GIF：逻辑屏幕描述中的全局调色板位数，图形控制扩展带透明色索引即视为带透明度
+ */
+const readGifInfo = (bytes: Uint8Array): ImageInfo => {
+  let alpha = false;
+  for (let i = 13; i + 3 < bytes.length && !alpha; i++) {
+    alpha = bytes[i] === 0x21 && bytes[i + 1] === 0xf9 && bytes[i + 2] === 0x04 && (bytes[i + 3] & 1) === 1;
+  }
+  return { bitDepth: (bytes[10] & 0x07) + 1, colorType: '索引色', alpha };
+};
+
+const TIFF_PHOTOMETRIC: Record<number, string> = {
+  0: '灰度',
+  1: '灰度',
+  2: 'RGB',
+  3: '索引色',
+  5: 'CMYK',
+  6: 'YCbCr',
+};
+
+/**
+ * TIFF：像素格式同样记录在 IFD0 的标签中
+ */
+const readTiffInfo = (tags: ExifTag[]): ImageInfo => {
+  const numbers = (tag: number) => {
+    const value = tags.find((item) => item.ifd === 'image' && item.tag === tag)?.value;
+    return Array.isArray(value) ? value : undefined;
+  };
+  const photometric = numbers(0x0106)?.[0];
+  return {
+    bitDepth: numbers(0x0102)?.[0],
+    colorType: photometric === undefined ? undefined : TIFF_PHOTOMETRIC[photometric],
+    alpha: numbers(0x0152) !== undefined,
+  };
+};
+
+const isTiff = (bytes: Uint8Array) => matchAscii(bytes, 0, 'II*\0') || matchAscii(bytes, 0, 'MM\0*');
+
+const readImageSection = (info: ImageInfo, icc: Uint8Array | undefined): MetadataField[] => {
+  const fields: MetadataField[] = [];
+  if (info.bitDepth !== undefined) fields.push({ label: '位深', value: `${info.bitDepth} 位` });
+  if (info.colorType) fields.push({ label: '颜色类型', value: info.colorType });
+  if (info.alpha !== undefined) fields.push({ label: '透明通道', value: info.alpha ? '有' : '无' });
+  if (icc) fields.push({ label: 'ICC 配置', value: readIccName(icc) || `${icc.length} 字节` });
+  return fields;
+};
+
+/**
+ * 读取并整理图片的元数据，结构无效的部分跳过
+ */
+export const inspectMetadata = async (blob: Blob): Promise<MetadataReport> => {
+  const bytes = await readBytes(blob);
+  const container = findContainer(bytes);
+  let metadata: ImageMetadata = {};
+  let info: ImageInfo = {};
+
+  try {
+    if (container) {
+      metadata = await container.read(bytes);
+      info = container.readInfo(bytes);
+    } else if (isTiff(bytes)) {
+      // TIFF 文件本身即为 EXIF 结构
+      metadata = { exif: bytes };
+      info = readTiffInfo(readExifTags(bytes));
+    } else if (matchAscii(bytes, 0, 'GIF8')) {
+      info = readGifInfo(bytes);
+    }
+  } catch (error) {
+    console.warn('解析图片元数据失败', error);
+  }
+
+  return {
+    image: readImageSection(info, metadata.icc),
+    ...readExif(metadata.exif),
+    xmp: readXmp(metadata.xmp),
+    iptc: readIptc(metadata.iptc),
+  };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { jpegContainer } from '@/lib/metadata/jpeg';
+import {
+  ascii,
+  concat,
+  createExif,
+  createIcc,
+  createMetadata,
+  expectPolicyApplied,
+  POLICIES,
+  roundTrip,
+  uint16,
+} from '@/lib/metadata/testFixtures';
+
+const segment = (marker: number, data: Uint8Array | number[]) =>
+  concat([[0xff, marker, ...uint16(data.length + 2)], data]);
+
+// SOS 及之后的扫描数据，写入时应原样保留
+const SCAN = concat([segment(0xda, [1, 1, 0, 0, 0x3f, 0]), [0x12, 0x34, 0xff, 0x00, 0x56], [0xff, 0xd9]]);
+
+/**
+ * SOI、JFIF、已有的 EXIF、量化表、帧头，随后是扫描数据
+ */
+const createJpeg = () =>
+  concat([
+    [0xff, 0xd8],
+    segment(0xe0, concat([ascii('JFIF\0'), [1, 1, 0, 0, 1, 0, 1, 0, 0]])),
+    segment(0xe1, concat([ascii('Exif\0\0'), createExif()])),
+    segment(0xdb, new Uint8Array(65)),
+    segment(0xc0, [8, 0, 1, 0, 1, 1, 1, 0x11, 0]),
+    SCAN,
+  ]);
+
+/**
+ * 逐段读取到 SOS，返回每段的标记、头部与长度，以及 SOS 的位置
+ */
+const walkSegments = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: { marker: number; header: string; length: number; start: number }[] = [];
+  let offset = 2;
+  while (bytes[offset + 1] !== 0xda) {
+    expect(bytes[offset]).toBe(0xff);
+    const length = view.getUint16(offset + 2);
+    const header = String.fromCharCode(...bytes.subarray(offset + 4, offset + 4 + 12));
+    segments.push({ marker: bytes[offset + 1], header, length, start: offset });
+    offset += 2 + length;
+  }
+  return { segments, scanStart: offset };
+};
+
+const markers = (bytes: Uint8Array) => walkSegments(bytes).segments.map((item) => item.marker);
+
+describe('jpegContainer.write', () => {
+  it.each(POLICIES)('%s：元数据段放在 JFIF 之后，段长度连续，扫描数据不变', async (policy) => {
+    const { output, metadata } = await roundTrip(jpegContainer, createJpeg(), policy);
+    expectPolicyApplied(policy, metadata);
+
+    const { scanStart } = walkSegments(output);
+    expect(output.subarray(scanStart)).toEqual(SCAN);
+    // 原有的 EXIF 段被替换而不是重复
+    expect(markers(output)).toEqual(
+      policy === 'strip' ? [0xe0, 0xdb, 0xc0] : [0xe0, 0xe1, 0xe1, 0xe2, 0xdb, 0xc0]
+    );
+  });
+
+  it('ICC 超出单段长度时拆分并按序号读回', async () => {
+    const icc = createIcc(70000);
+    const output = await jpegContainer.write(createJpeg(), { icc });
+
+    const iccSegments = walkSegments(output).segments.filter((item) => item.marker === 0xe2);
+    expect(iccSegments.map((item) => item.length)).toEqual([65535, 2 + 12 + 2 + (70000 - 65519)]);
+    expect(iccSegments.every((item) => item.header === 'ICC_PROFILE\0')).toBe(true);
+
+    // 标记、长度、头部之后是序号与总数
+    expect(iccSegments.map(({ start }) => Array.from(output.subarray(start + 16, start + 18)))).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+    expect((await jpegContainer.read(output)).icc).toEqual(icc);
+  });
+
+  it('没有 APP0 时元数据段放在 SOI 之后', async () => {
+    const jpeg = concat([[0xff, 0xd8], segment(0xdb, new Uint8Array(65)), SCAN]);
+    const output = await jpegContainer.write(jpeg, createMetadata());
+    expect(markers(output)).toEqual([0xe1, 0xe1, 0xe2, 0xdb]);
+  });
+});
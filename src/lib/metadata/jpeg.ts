@@ -0,0 +1,189 @@
+import type { ImageInfo, ImageMetadata, MetadataContainer } from '@/lib/metadata';
+import { concatBytes, matchAscii } from '@/lib/metadata/bytes';
+
+/**
+ * JPEG 元数据：APP1（EXIF、XMP）与 APP2（ICC，可分为多段）
+ */
+
+const MARKER_SOS = 0xda;
+const MARKER_EOI = 0xd9;
+const MARKER_APP0 = 0xe0;
+const MARKER_APP1 = 0xe1;
+const MARKER_APP2 = 0xe2;
+const MARKER_APP13 = 0xed;
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+
+// Photoshop 图像资源中的 IPTC-IIM 记录
+const RESOURCE_IPTC = 0x0404;
+
+// 帧头（SOF）标记，不含 DHT、JPG 与 DAC
+const SOF_MARKERS = [0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf];
+
+const COMPONENT_TYPES: Record<number, string> = { 1: '灰度', 3: 'YCbCr', 4: 'CMYK' };
+
+/**
+ * 段数据（不含标记与长度字段）的最大长度
+ */
+const MAX_SEGMENT_DATA = 65533;
+
+interface Segment {
+  marker: number;
+  // 整段（含标记）在文件中的范围
+  start: number;
+  end: number;
+  // 段数据的起始位置
+  dataStart: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * 读取 SOS 之前的所有段，返回段列表与图像数据的起始位置
+ */
+const readSegments = (bytes: Uint8Array): { segments: Segment[]; scanStart: number } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: Segment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error('JPEG 段结构无效');
+    }
+    const marker = bytes[offset + 1];
+    // 填充字节
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === MARKER_SOS || marker === MARKER_EOI) break;
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    segments.push({ marker, start: offset, end, dataStart: offset + 4 });
+    offset = end;
+  }
+
+  return { segments, scanStart: offset };
+};
+
+const isExif = (bytes: Uint8Array, segment: Segment) =>
+  segment.marker === MARKER_APP1 && matchAscii(bytes, segment.dataStart, EXIF_HEADER);
+const isXmp = (bytes: Uint8Array, segment: Segment) =>
+  segment.marker === MARKER_APP1 && matchAscii(bytes, segment.dataStart, XMP_HEADER);
+const isIcc = (bytes: Uint8Array, segment: Segment) =>
+  segment.marker === MARKER_APP2 && matchAscii(bytes, segment.dataStart, ICC_HEADER);
+
+/**
+ * 在 Photoshop 图像资源（8BIM）中查找 IPTC 记录
+ */
+const readIptc = (bytes: Uint8Array, segment: Segment): Uint8Array | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = segment.dataStart + PHOTOSHOP_HEADER.length;
+
+  while (offset + 12 <= segment.end && matchAscii(bytes, offset, '8BIM')) {
+    const id = view.getUint16(offset + 4);
+    // 资源名称为 Pascal 字符串，连同长度字节补齐到偶数
+    const nameLength = bytes[offset + 6];
+    const sizeOffset = offset + 6 + ((nameLength + 2) & ~1);
+    const size = view.getUint32(sizeOffset);
+    const dataStart = sizeOffset + 4;
+    if (dataStart + size > segment.end) break;
+    if (id === RESOURCE_IPTC) return bytes.slice(dataStart, dataStart + size);
+    offset = dataStart + size + (size & 1);
+  }
+  return undefined;
+};
+
+const createSegment = (marker: number, header: string, data: Uint8Array): Uint8Array => {
+  const headerBytes = encoder.encode(header);
+  const segment = new Uint8Array(4 + headerBytes.length + data.length);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  new DataView(segment.buffer).setUint16(2, segment.length - 2);
+  segment.set(headerBytes, 4);
+  segment.set(data, 4 + headerBytes.length);
+  return segment;
+};
+
+/**
+ * ICC 超出单段长度时按序号拆分
+ */
+const createIccSegments = (icc: Uint8Array): Uint8Array[] => {
+  const chunkSize = MAX_SEGMENT_DATA - ICC_HEADER.length - 2;
+  const count = Math.ceil(icc.length / chunkSize);
+  if (count > 255) return [];
+
+  return Array.from({ length: count }, (_, index) => {
+    const chunk = icc.subarray(index * chunkSize, (index + 1) * chunkSize);
+    const data = new Uint8Array(2 + chunk.length);
+    data[0] = index + 1;
+    data[1] = count;
+    data.set(chunk, 2);
+    return createSegment(MARKER_APP2, ICC_HEADER, data);
+  });
+};
+
+const readJpegInfo = (bytes: Uint8Array): ImageInfo => {
+  const frame = readSegments(bytes).segments.find((segment) => SOF_MARKERS.includes(segment.marker));
+  if (!frame) return { alpha: false };
+  // 帧头：采样精度、高、宽、分量数
+  return { bitDepth: bytes[frame.dataStart], colorType: COMPONENT_TYPES[bytes[frame.dataStart + 5]], alpha: false };
+};
+
+export const jpegContainer: MetadataContainer = {
+  detect: (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  readInfo: readJpegInfo,
+  read: async (bytes) => {
+    const { segments } = readSegments(bytes);
+    const metadata: ImageMetadata = {};
+    const iccChunks: { index: number; data: Uint8Array }[] = [];
+
+    for (const segment of segments) {
+      if (isExif(bytes, segment)) {
+        metadata.exif ??= bytes.slice(segment.dataStart + EXIF_HEADER.length, segment.end);
+      } else if (isXmp(bytes, segment)) {
+        metadata.xmp ??= bytes.slice(segment.dataStart + XMP_HEADER.length, segment.end);
+      } else if (isIcc(bytes, segment)) {
+        const dataStart = segment.dataStart + ICC_HEADER.length;
+        iccChunks.push({ index: bytes[dataStart], data: bytes.subarray(dataStart + 2, segment.end) });
+      } else if (segment.marker === MARKER_APP13 && matchAscii(bytes, segment.dataStart, PHOTOSHOP_HEADER)) {
+        metadata.iptc ??= readIptc(bytes, segment);
+      }
+    }
+
+    if (iccChunks.length > 0) {
+      metadata.icc = concatBytes(iccChunks.sort((a, b) => a.index - b.index).map((chunk) => chunk.data));
+    }
+    return metadata;
+  },
+  write: async (bytes, metadata) => {
+    const { segments, scanStart } = readSegments(bytes);
+    const kept = segments.filter(
+      (segment) => !isExif(bytes, segment) && !isXmp(bytes, segment) && !isIcc(bytes, segment)
+    );
+
+    const inserted: Uint8Array[] = [];
+    if (metadata.exif && metadata.exif.length + EXIF_HEADER.length <= MAX_SEGMENT_DATA) {
+      inserted.push(createSegment(MARKER_APP1, EXIF_HEADER, metadata.exif));
+    }
+    if (metadata.xmp && metadata.xmp.length + XMP_HEADER.length <= MAX_SEGMENT_DATA) {
+      inserted.push(createSegment(MARKER_APP1, XMP_HEADER, metadata.xmp));
+    }
+    if (metadata.icc) {
+      inserted.push(...createIccSegments(metadata.icc));
+    }
+
+    // 新段放在 JFIF（APP0）之后
+    const leading = kept[0]?.marker === MARKER_APP0 ? 1 : 0;
+    return concatBytes([
+      bytes.subarray(0, 2),
+      ...kept.slice(0, leading).map((segment) => bytes.subarray(segment.start, segment.end)),
+      ...inserted,
+      ...kept.slice(leading).map((segment) => bytes.subarray(segment.start, segment.end)),
+      bytes.subarray(scanStart),
+    ]);
+  },
+};
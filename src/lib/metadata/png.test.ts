@@ -0,0 +1,62 @@
+import { crc32 } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { pngContainer } from '@/lib/metadata/png';
+import { ascii, concat, createExif, expectPolicyApplied, POLICIES, roundTrip, uint32 } from '@/lib/metadata/testFixtures';
+
+const chunk = (type: string, data: Uint8Array | number[]) => {
+  const body = concat([ascii(type), data]);
+  return concat([uint32(data.length), body, uint32(crc32(body))]);
+};
+
+const IDAT = chunk('IDAT', [0x78, 0x9c, 0x63, 0x60, 0x00, 0x00, 0x00, 0x02, 0x00, 0x01]);
+
+/**
+ * 签名、IHDR、sRGB、已有的 eXIf、IDAT、IEND
+ */
+const createPng = () =>
+  concat([
+    [0x89, ...ascii('PNG\r\n\x1a\n')],
+    chunk('IHDR', [...uint32(1), ...uint32(1), 8, 6, 0, 0, 0]),
+    chunk('sRGB', [0]),
+    chunk('eXIf', createExif()),
+    IDAT,
+    chunk('IEND', []),
+  ]);
+
+/**
+ * 逐块读取并校验 CRC，要求恰好读到文件末尾
+ */
+const walkChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; bytes: Uint8Array }[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    expect(view.getUint32(end - 4)).toBe(crc32(bytes.subarray(offset + 4, end - 4)));
+    chunks.push({ type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)), bytes: bytes.subarray(offset, end) });
+    offset = end;
+  }
+  expect(offset).toBe(bytes.length);
+  return chunks;
+};
+
+describe('pngContainer.write', () => {
+  it.each(POLICIES)('%s：元数据块紧跟 IHDR，CRC 有效，图像数据不变', async (policy) => {
+    const { output, metadata } = await roundTrip(pngContainer, createPng(), policy);
+    expectPolicyApplied(policy, metadata);
+
+    const chunks = walkChunks(output);
+    // 写入 ICC 时移除 sRGB，原有的 eXIf 被替换
+    expect(chunks.map((item) => item.type)).toEqual(
+      policy === 'strip' ? ['IHDR', 'sRGB', 'IDAT', 'IEND'] : ['IHDR', 'iCCP', 'eXIf', 'iTXt', 'IDAT', 'IEND']
+    );
+    expect(chunks.find((item) => item.type === 'IDAT')!.bytes).toEqual(IDAT);
+  });
+
+  it('XMP 写入为未压缩的 iTXt', async () => {
+    const { output } = await roundTrip(pngContainer, createPng(), 'keep');
+    const itxt = walkChunks(output).find((item) => item.type === 'iTXt')!.bytes;
+    expect(String.fromCharCode(...itxt.subarray(8, 8 + 22))).toBe('XML:com.adobe.xmp\0\0\0\0\0');
+  });
+});
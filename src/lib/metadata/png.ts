@@ -0,0 +1,165 @@
+import type { ImageInfo, ImageMetadata, MetadataContainer } from '@/lib/metadata';
+import { concatBytes, matchAscii, readAscii } from '@/lib/metadata/bytes';
+
+/**
+ * PNG 元数据：eXIf（EXIF）、iTXt（XMP）与 iCCP（zlib 压缩的 ICC）
+ * 写入位置紧跟 IHDR，均位于 IDAT 之前
+ */
+
+const PNG_SIGNATURE_SIZE = 8;
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const ICC_PROFILE_NAME = 'ICC Profile';
+
+const COLOR_TYPES: Record<number, string> = {
+  0: '灰度',
+  2: 'RGB',
+  3: '索引色',
+  4: '灰度 + Alpha',
+  6: 'RGBA',
+};
+
+interface Chunk {
+  type: string;
+  // 整块（含长度、类型与 CRC）在文件中的范围
+  start: number;
+  end: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * zlib 压缩与解压（CompressionStream 的 deflate 即 zlib 格式）
+ */
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([data.slice()]).stream().pipeThrough(stream)).arrayBuffer());
+const deflate = (data: Uint8Array) => transform(data, new CompressionStream('deflate'));
+const inflate = (data: Uint8Array) => transform(data, new DecompressionStream('deflate'));
+
+const readChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE_SIZE;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const dataStart = offset + 8;
+    const end = dataStart + length + 4;
+    if (end > bytes.length) {
+      throw new Error('PNG 数据块结构无效');
+    }
+    chunks.push({ type: readAscii(bytes, offset + 4, 4), start: offset, end, dataStart, dataEnd: dataStart + length });
+    offset = end;
+  }
+  return chunks;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const isXmpChunk = (bytes: Uint8Array, chunk: Chunk) =>
+  chunk.type === 'iTXt' && matchAscii(bytes, chunk.dataStart, XMP_KEYWORD + '\0');
+
+/**
+ * iTXt：关键字、压缩标记、压缩方式、语言标签、翻译关键字，之后为 UTF-8 文本
+ */
+const readXmp = async (data: Uint8Array): Promise<Uint8Array> => {
+  const flagOffset = XMP_KEYWORD.length + 1;
+  const compressed = data[flagOffset] === 1;
+  let offset = flagOffset + 2;
+  // 跳过语言标签与翻译关键字
+  for (let field = 0; field < 2; field++) {
+    offset = data.indexOf(0, offset) + 1;
+  }
+  const text = data.slice(offset);
+  return compressed ? inflate(text) : text;
+};
+
+/**
+ * IHDR 中的位深与颜色类型；索引色与无 Alpha 的类型可由 tRNS 提供透明度
+ */
+const readPngInfo = (bytes: Uint8Array): ImageInfo => {
+  const chunks = readChunks(bytes);
+  const header = chunks.find((chunk) => chunk.type === 'IHDR');
+  if (!header) return {};
+  const colorType = bytes[header.dataStart + 9];
+  return {
+    bitDepth: bytes[header.dataStart + 8],
+    colorType: COLOR_TYPES[colorType],
+    alpha: colorType === 4 || colorType === 6 || chunks.some((chunk) => chunk.type === 'tRNS'),
+  };
+};
+
+export const pngContainer: MetadataContainer = {
+  detect: (bytes) => bytes.length >= PNG_SIGNATURE_SIZE && matchAscii(bytes, 1, 'PNG\r\n\x1a\n'),
+  readInfo: readPngInfo,
+  read: async (bytes) => {
+    const metadata: ImageMetadata = {};
+
+    for (const chunk of readChunks(bytes)) {
+      const data = bytes.subarray(chunk.dataStart, chunk.dataEnd);
+      if (chunk.type === 'eXIf') {
+        metadata.exif ??= data.slice();
+      } else if (isXmpChunk(bytes, chunk)) {
+        metadata.xmp ??= await readXmp(data);
+      } else if (chunk.type === 'iCCP') {
+        // 配置名称、压缩方式（0 = zlib）之后为压缩数据
+        metadata.icc ??= await inflate(data.subarray(data.indexOf(0) + 2));
+      }
+    }
+    return metadata;
+  },
+  write: async (bytes, metadata) => {
+    const chunks = readChunks(bytes);
+    const inserted: Uint8Array[] = [];
+
+    if (metadata.icc) {
+      const name = encoder.encode(ICC_PROFILE_NAME);
+      inserted.push(createChunk('iCCP', concatBytes([name, new Uint8Array([0, 0]), await deflate(metadata.icc)])));
+    }
+    if (metadata.exif) {
+      inserted.push(createChunk('eXIf', metadata.exif));
+    }
+    if (metadata.xmp) {
+      // 不压缩，无语言标签与翻译关键字
+      const header = encoder.encode(XMP_KEYWORD + '\0\0\0\0\0');
+      inserted.push(createChunk('iTXt', concatBytes([header, metadata.xmp])));
+    }
+
+    // iCCP 与 sRGB 不能同时存在
+    const kept = chunks.filter(
+      (chunk) =>
+        chunk.type !== 'eXIf' &&
+        chunk.type !== 'iCCP' &&
+        !(metadata.icc && chunk.type === 'sRGB') &&
+        !isXmpChunk(bytes, chunk)
+    );
+
+    return concatBytes([
+      bytes.subarray(0, PNG_SIGNATURE_SIZE),
+      ...kept.slice(0, 1).map((chunk) => bytes.subarray(chunk.start, chunk.end)),
+      ...inserted,
+      ...kept.slice(1).map((chunk) => bytes.subarray(chunk.start, chunk.end)),
+    ]);
+  },
+};
@@ -0,0 +1,106 @@
+import { expect } from 'vitest';
+import type { MetadataPolicy } from '@/types';
+import { filterMetadata, type ImageMetadata, type MetadataContainer } from '@/lib/metadata';
+import { readExifTags } from '@/lib/metadata/exif';
+
+/**
+ * 元数据读写测试共用的样例数据
+ */
+
+const TAG_MAKE = 0x010f;
+const TAG_ORIENTATION = 0x0112;
+const TAG_COPYRIGHT = 0x8298;
+
+export const ascii = (text: string) => new TextEncoder().encode(text);
+
+export const concat = (parts: (Uint8Array | number[])[]): Uint8Array<ArrayBuffer> => {
+  const arrays = parts.map((part) => (part instanceof Uint8Array ? part : new Uint8Array(part)));
+  const bytes = new Uint8Array(arrays.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of arrays) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+export const uint16 = (value: number) => [value >> 8, value & 0xff];
+export const uint32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+/**
+ * 小端 TIFF，IFD0 含 Make、方向（6）与版权，值均位于条目内
+ */
+export const createExif = (): Uint8Array => {
+  const bytes = new Uint8Array(8 + 2 + 3 * 12 + 4);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, 3, true);
+  const entries: [number, number, number, number[]][] = [
+    [TAG_MAKE, 2, 4, [...ascii('Cam'), 0]],
+    [TAG_ORIENTATION, 3, 1, [6, 0]],
+    [TAG_COPYRIGHT, 2, 4, [...ascii('Me!'), 0]],
+  ];
+  entries.forEach(([tag, type, count, value], index) => {
+    const offset = 10 + index * 12;
+    view.setUint16(offset, tag, true);
+    view.setUint16(offset + 2, type, true);
+    view.setUint32(offset + 4, count, true);
+    bytes.set(value, offset + 8);
+  });
+  return bytes;
+};
+
+/**
+ * 含设备、方向与版权属性的 XMP，长度为奇数以覆盖补齐字节
+ */
+export const createXmp = (): Uint8Array => {
+  const text =
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description tiff:Make="Cam" tiff:Orientation="6" dc:rights="Me"/></rdf:RDF></x:xmpmeta>';
+  return ascii(text.length % 2 === 1 ? text : text + ' ');
+};
+
+export const createIcc = (length = 301): Uint8Array => Uint8Array.from({ length }, (_, i) => (i * 7) & 0xff);
+
+export const createMetadata = (): ImageMetadata => ({ exif: createExif(), xmp: createXmp(), icc: createIcc() });
+
+/**
+ * 按策略过滤（像素已重新绘制）后写入，再从结果中读回
+ */
+export const roundTrip = async (
+  container: MetadataContainer,
+  image: Uint8Array,
+  policy: MetadataPolicy,
+  metadata = createMetadata()
+) => {
+  const output = await container.write(image, filterMetadata(metadata, policy, true));
+  return { output, metadata: await container.read(output) };
+};
+
+/**
+ * 检查读回的元数据符合策略：保留时方向已重置，去除隐私时只删设备信息，全部移除时为空
+ */
+export const expectPolicyApplied = (policy: MetadataPolicy, metadata: ImageMetadata) => {
+  if (policy === 'strip') {
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.xmp).toBeUndefined();
+    expect(metadata.icc).toBeUndefined();
+    return;
+  }
+
+  const tags = new Map(readExifTags(metadata.exif!).map((tag) => [tag.tag, tag.value]));
+  expect(tags.get(TAG_ORIENTATION)).toEqual([1]);
+  expect(tags.get(TAG_COPYRIGHT)).toBe('Me!');
+  expect(tags.has(TAG_MAKE)).toBe(policy === 'keep');
+
+  const xmp = new TextDecoder().decode(metadata.xmp);
+  expect(xmp).toContain('tiff:Orientation="1"');
+  expect(xmp).toContain('dc:rights="Me"');
+  expect(xmp.includes('tiff:Make')).toBe(policy === 'keep');
+
+  expect(metadata.icc).toEqual(createIcc());
+};
+
+export const POLICIES: MetadataPolicy[] = ['keep', 'strip-private', 'strip'];
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { webpContainer } from '@/lib/metadata/webp';
+import { ascii, concat, createExif, expectPolicyApplied, POLICIES, roundTrip } from '@/lib/metadata/testFixtures';
+
+const FLAG_ANIMATION = 0x02;
+
+const uint32le = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+const uint24le = (value: number) => uint32le(value).slice(0, 3);
+
+const chunk = (type: string, data: Uint8Array | number[]) =>
+  concat([ascii(type), uint32le(data.length), data, data.length & 1 ? [0] : []]);
+
+const riff = (chunks: Uint8Array[]) => {
+  const body = concat(chunks);
+  return concat([ascii('RIFF'), uint32le(body.length + 4), ascii('WEBP'), body]);
+};
+
+// 无损位流：签名之后为 14 位宽减 1、14 位高减 1、1 位透明度（3×5，有透明度），长度为奇数
+const VP8L = chunk('VP8L', [0x2f, ...uint32le(2 | (4 << 14) | (1 << 28)), 0xaa, 0xbb]);
+
+// 有损位流：帧标记、起始码、宽 6、高 7
+const VP8 = chunk('VP8 ', [0x10, 0x02, 0x00, 0x9d, 0x01, 0x2a, 6, 0, 7, 0, 0xcc, 0xdd]);
+
+const ANIM = chunk('ANIM', new Uint8Array(6));
+const ANMF = chunk('ANMF', concat([new Uint8Array(16), VP8L]));
+
+/**
+ * 动画 WebP：VP8X（动画、EXIF）、ANIM、ANMF 与已有的 EXIF
+ */
+const createAnimatedWebp = () =>
+  riff([
+    chunk('VP8X', [FLAG_ANIMATION | 0x08, 0, 0, 0, ...uint24le(3), ...uint24le(3)]),
+    ANIM,
+    ANMF,
+    chunk('EXIF', createExif()),
+  ]);
+
+/**
+ * 校验 RIFF 长度并逐块读取（含补齐字节），要求恰好读到文件末尾
+ */
+const walkChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('RIFF');
+  expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+
+  const chunks: { type: string; bytes: Uint8Array }[] = [];
+  let offset = 12;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    const end = offset + 8 + length + (length & 1);
+    if (length & 1) expect(bytes[end - 1]).toBe(0);
+    chunks.push({ type: String.fromCharCode(...bytes.subarray(offset, offset + 4)), bytes: bytes.subarray(offset, end) });
+    offset = end;
+  }
+  expect(offset).toBe(bytes.length);
+  return chunks;
+};
+
+/**
+ * VP8X 的标志位与画布宽高
+ */
+const readVp8x = (chunk: Uint8Array) => {
+  const read24 = (offset: number) => chunk[offset] | (chunk[offset + 1] << 8) | (chunk[offset + 2] << 16);
+  return { flags: chunk[8], width: read24(12) + 1, height: read24(15) + 1 };
+};
+
+const types = (chunks: { type: string }[]) => chunks.map((item) => item.type);
+
+describe('webpContainer.write', () => {
+  it.each(POLICIES)('%s：简单格式（VP8L）补上 VP8X，块顺序与长度正确', async (policy) => {
+    const webp = riff([VP8L]);
+    const { output, metadata } = await roundTrip(webpContainer, webp, policy);
+    expectPolicyApplied(policy, metadata);
+
+    if (policy === 'strip') {
+      // 没有元数据时保持简单格式
+      expect(output).toEqual(webp);
+      return;
+    }
+    const chunks = walkChunks(output);
+    expect(types(chunks)).toEqual(['VP8X', 'ICCP', 'VP8L', 'EXIF', 'XMP ']);
+    // ICC、透明度、EXIF、XMP
+    expect(readVp8x(chunks[0].bytes)).toEqual({ flags: 0x3c, width: 3, height: 5 });
+    expect(chunks[2].bytes).toEqual(VP8L);
+  });
+
+  it('简单格式（VP8）的 VP8X 尺寸取自帧头，无透明度', async () => {
+    const output = await webpContainer.write(riff([VP8]), { exif: createExif() });
+    const chunks = walkChunks(output);
+    expect(types(chunks)).toEqual(['VP8X', 'VP8 ', 'EXIF']);
+    expect(readVp8x(chunks[0].bytes)).toEqual({ flags: 0x08, width: 6, height: 7 });
+  });
+
+  it.each(POLICIES)('%s：扩展格式保留动画块与标志位，替换已有的元数据块', async (policy) => {
+    const { output, metadata } = await roundTrip(webpContainer, createAnimatedWebp(), policy);
+    expectPolicyApplied(policy, metadata);
+
+    const chunks = walkChunks(output);
+    expect(types(chunks)).toEqual(
+      policy === 'strip' ? ['VP8X', 'ANIM', 'ANMF'] : ['VP8X', 'ICCP', 'ANIM', 'ANMF', 'EXIF', 'XMP ']
+    );
+    expect(readVp8x(chunks[0].bytes)).toEqual({
+      flags: policy === 'strip' ? FLAG_ANIMATION : FLAG_ANIMATION | 0x2c,
+      width: 4,
+      height: 4,
+    });
+    expect(chunks.find((item) => item.type === 'ANMF')!.bytes).toEqual(ANMF);
+  });
+});
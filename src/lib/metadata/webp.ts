@@ -0,0 +1,160 @@
+import type { ImageInfo, ImageMetadata, MetadataContainer } from '@/lib/metadata';
+import { concatBytes, matchAscii, readAscii } from '@/lib/metadata/bytes';
+
+/**
+ * WebP 元数据：扩展格式（VP8X）中的 ICCP、EXIF 与 XMP 块
+ * 简单格式（仅 VP8 / VP8L）写入元数据时需先补上 VP8X 头
+ */
+
+const RIFF_HEADER_SIZE = 12;
+
+// VP8X 标志位
+const FLAG_ICC = 0x20;
+const FLAG_ALPHA = 0x10;
+const FLAG_EXIF = 0x08;
+const FLAG_XMP = 0x04;
+
+interface Chunk {
+  type: string;
+  start: number;
+  end: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+const encoder = new TextEncoder();
+
+const readChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = RIFF_HEADER_SIZE;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    const dataStart = offset + 8;
+    // 块数据按偶数字节对齐
+    const end = Math.min(dataStart + length + (length & 1), bytes.length);
+    chunks.push({ type: readAscii(bytes, offset, 4), start: offset, end, dataStart, dataEnd: dataStart + length });
+    offset = end;
+  }
+  return chunks;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(encoder.encode(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+/**
+ * 由图像数据块推算画布尺寸与透明度，用于生成 VP8X
+ */
+const readImageInfo = (bytes: Uint8Array, chunks: Chunk[]): { width: number; height: number; alpha: boolean } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const vp8l = chunks.find((chunk) => chunk.type === 'VP8L');
+  if (vp8l) {
+    // 签名 0x2f 之后：14 位宽、14 位高、1 位透明度
+    const bits = view.getUint32(vp8l.dataStart + 1, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, alpha: ((bits >> 28) & 1) === 1 };
+  }
+
+  const vp8 = chunks.find((chunk) => chunk.type === 'VP8 ');
+  if (!vp8) {
+    throw new Error('WebP 缺少图像数据');
+  }
+  // 3 字节帧标记与 3 字节起始码之后为 14 位宽高
+  return {
+    width: view.getUint16(vp8.dataStart + 6, true) & 0x3fff,
+    height: view.getUint16(vp8.dataStart + 8, true) & 0x3fff,
+    alpha: chunks.some((chunk) => chunk.type === 'ALPH'),
+  };
+};
+
+const createVp8x = (width: number, height: number): Uint8Array => {
+  const data = new Uint8Array(10);
+  const view = new DataView(data.buffer);
+  // 画布宽高减 1，各 24 位
+  view.setUint32(4, width - 1, true);
+  view.setUint32(6, ((height - 1) << 8) | data[6], true);
+  return createChunk('VP8X', data);
+};
+
+/**
+ * 有损为 8 位 YUV 4:2:0（透明度另存于 ALPH），无损为 8 位 ARGB
+ */
+const readWebpInfo = (bytes: Uint8Array): ImageInfo => {
+  const chunks = readChunks(bytes);
+  const vp8x = chunks.find((chunk) => chunk.type === 'VP8X');
+  const hasChunk = (type: string) => chunks.some((chunk) => chunk.type === type);
+  const lossless = hasChunk('VP8L');
+  // 动画的图像数据位于各帧（ANMF）内
+  const colorType = lossless ? 'ARGB（无损）' : hasChunk('VP8 ') ? 'YUV 4:2:0（有损）' : undefined;
+  const alpha = vp8x
+    ? (bytes[vp8x.dataStart] & FLAG_ALPHA) !== 0
+    : lossless
+      ? readImageInfo(bytes, chunks).alpha
+      : hasChunk('ALPH');
+  return { bitDepth: 8, colorType, alpha };
+};
+
+export const webpContainer: MetadataContainer = {
+  detect: (bytes) => matchAscii(bytes, 0, 'RIFF') && matchAscii(bytes, 8, 'WEBP'),
+  readInfo: readWebpInfo,
+  read: async (bytes) => {
+    const metadata: ImageMetadata = {};
+
+    for (const chunk of readChunks(bytes)) {
+      let data = bytes.subarray(chunk.dataStart, chunk.dataEnd);
+      if (chunk.type === 'EXIF') {
+        // 部分编码器带有 JPEG 的 Exif 前缀
+        if (matchAscii(data, 0, 'Exif\0\0')) data = data.subarray(6);
+        metadata.exif ??= data.slice();
+      } else if (chunk.type === 'XMP ') {
+        metadata.xmp ??= data.slice();
+      } else if (chunk.type === 'ICCP') {
+        metadata.icc ??= data.slice();
+      }
+    }
+    return metadata;
+  },
+  write: async (bytes, metadata) => {
+    const chunks = readChunks(bytes);
+    const vp8x = chunks.find((chunk) => chunk.type === 'VP8X');
+    const hasMetadata = Boolean(metadata.exif || metadata.xmp || metadata.icc);
+    if (!vp8x && !hasMetadata) {
+      // 简单格式不含元数据
+      return bytes;
+    }
+
+    const imageChunks = chunks.filter((chunk) => !['VP8X', 'ICCP', 'EXIF', 'XMP '].includes(chunk.type));
+    let flags: number;
+    let header: Uint8Array;
+    if (vp8x) {
+      flags = bytes[vp8x.dataStart] & ~(FLAG_ICC | FLAG_EXIF | FLAG_XMP);
+      header = bytes.slice(vp8x.start, vp8x.end);
+    } else {
+      const { width, height, alpha } = readImageInfo(bytes, chunks);
+      flags = alpha ? FLAG_ALPHA : 0;
+      header = createVp8x(width, height);
+    }
+    if (metadata.icc) flags |= FLAG_ICC;
+    if (metadata.exif) flags |= FLAG_EXIF;
+    if (metadata.xmp) flags |= FLAG_XMP;
+    header[8] = flags;
+
+    // 块顺序：VP8X、ICCP、图像数据（含 ANIM/ANMF/ALPH）、EXIF、XMP
+    const body = concatBytes([
+      header,
+      ...(metadata.icc ? [createChunk('ICCP', metadata.icc)] : []),
+      ...imageChunks.map((chunk) => bytes.subarray(chunk.start, chunk.end)),
+      ...(metadata.exif ? [createChunk('EXIF', metadata.exif)] : []),
+      ...(metadata.xmp ? [createChunk('XMP ', metadata.xmp)] : []),
+    ]);
+
+    const output = concatBytes([encoder.encode('RIFF'), new Uint8Array(4), encoder.encode('WEBP'), body]);
+    new DataView(output.buffer).setUint32(4, output.length - 8, true);
+    return output;
+  },
+};
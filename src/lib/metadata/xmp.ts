@@ -0,0 +1,51 @@
+/**
+ * XMP 处理
+ * XMP 为 RDF/XML 文本，属性可写作元素属性或子元素两种形式，按属性名匹配删除
+ */
+
+/**
+ * 位置与设备相关的属性；dc:rights 等版权信息保留
+ */
+const PRIVATE_PROPERTIES = [
+  'exif:GPS\\w*',
+  'tiff:Make',
+  'tiff:Model',
+  'tiff:Software',
+  'xmp:CreatorTool',
+  'aux:SerialNumber',
+  'aux:Lens\\w*',
+  'exifEX:BodySerialNumber',
+  'exifEX:CameraOwnerName',
+  'exifEX:Lens\\w*',
+  'photoshop:City',
+  'photoshop:State',
+  'photoshop:Country',
+  'Iptc4xmpCore:Location',
+  'Iptc4xmpCore:CountryCode',
+  'Iptc4xmpExt:Location\\w*',
+].join('|');
+
+const PRIVATE_ATTRIBUTE = new RegExp(`\\s(?:${PRIVATE_PROPERTIES})\\s*=\\s*("[^"]*"|'[^']*')`, 'g');
+const PRIVATE_ELEMENT = new RegExp(`<(${PRIVATE_PROPERTIES})\\b[^>]*?(?:/>|>[\\s\\S]*?</\\1\\s*>)`, 'g');
+
+const ORIENTATION_ATTRIBUTE = /(\stiff:Orientation\s*=\s*["'])\d(["'])/g;
+const ORIENTATION_ELEMENT = /(<tiff:Orientation>)\s*\d\s*(<\/tiff:Orientation>)/g;
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+/**
+ * 删除 XMP 中的位置与设备属性
+ */
+export const stripPrivateXmp = (xmp: Uint8Array): Uint8Array =>
+  encoder.encode(decoder.decode(xmp).replace(PRIVATE_ELEMENT, '').replace(PRIVATE_ATTRIBUTE, ''));
+
+/**
+ * 将方向属性改为 1（正常）
+ */
+export const resetXmpOrientation = (xmp: Uint8Array): Uint8Array => {
+  const normal = (_: string, start: string, end: string) => `${start}1${end}`;
+  return encoder.encode(
+    decoder.decode(xmp).replace(ORIENTATION_ATTRIBUTE, normal).replace(ORIENTATION_ELEMENT, normal)
+  );
+};
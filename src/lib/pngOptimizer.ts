@@ -0,0 +1,32 @@
+import { throwIfAborted } from '@/lib/imageProcessing';
+
+/**
+ * PNG 无损优化（oxipng WASM）
+ * 重新选择行过滤器、重新 deflate 压缩并移除非必要的辅助块，像素数据保持不变
+ */
+
+/**
+ * oxipng 优化等级（0-6），等级越高越慢
+ */
+const OXIPNG_LEVEL = 3;
+
+/**
+ * 无损优化 PNG 数据，结果不小于原文件时返回原文件
+ * 关闭 optimiseAlpha：否则会改写全透明像素的 RGB 值，输出不再逐像素一致
+ */
+export const optimizePng = async (input: Blob, signal?: AbortSignal): Promise<Blob> => {
+  throwIfAborted(signal);
+
+  // 按需加载 WASM，未使用 PNG 时不下载
+  const { default: optimise } = await import('@jsquash/oxipng/optimise');
+  const data = await input.arrayBuffer();
+  throwIfAborted(signal);
+
+  const output = await optimise(data, { level: OXIPNG_LEVEL, interlace: false, optimiseAlpha: false });
+  throwIfAborted(signal);
+
+  if (output.byteLength >= input.size) {
+    return input.type === 'image/png' ? input : new Blob([input], { type: 'image/png' });
+  }
+  return new Blob([output], { type: 'image/png' });
+};
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import type { QueueStats } from '@/types';
+import { isAbortError, MAX_PIXELS } from '@/lib/imageProcessing';
+import { createProcessingQueue, getMaxPixels } from '@/lib/processingQueue';
+
+// 等待 Promise 回调与队列调度完成
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * 由测试控制何时完成的任务，记录启动顺序
+ */
+const createTasks = () => {
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+  const task = (name: string) => () =>
+    new Promise<string>((resolve) => {
+      started.push(name);
+      finishers.set(name, () => resolve(name));
+    });
+  const finish = async (name: string) => {
+    finishers.get(name)!();
+    await flush();
+  };
+  return { started, task, finish };
+};
+
+describe('createProcessingQueue', () => {
+  it('按先进先出顺序启动，超出内存预算时等待，不越过排在前面的任务', async () => {
+    const queue = createProcessingQueue({ concurrency: 3, memoryBudget: 100 });
+    const { started, task, finish } = createTasks();
+
+    const results = [
+      queue.enqueue(60, task('a')),
+      queue.enqueue(30, task('b')),
+      queue.enqueue(20, task('c')),
+      // 预算足够但排在 c 之后
+      queue.enqueue(10, task('d')),
+    ];
+    await flush();
+    expect(started).toEqual(['a', 'b']);
+    expect(queue.getStats()).toEqual({ queued: 2, running: 2, finished: 0 });
+
+    await finish('a');
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+    expect(queue.getStats()).toEqual({ queued: 0, running: 3, finished: 1 });
+
+    await finish('b');
+    await finish('c');
+    await finish('d');
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c', 'd']);
+    expect(queue.getStats()).toEqual({ queued: 0, running: 0, finished: 4 });
+  });
+
+  it('不超过并发数', async () => {
+    const queue = createProcessingQueue({ concurrency: 2, memoryBudget: 1000 });
+    const { started, task, finish } = createTasks();
+
+    ['a', 'b', 'c'].forEach((name) => queue.enqueue(1, task(name)));
+    await flush();
+    expect(started).toEqual(['a', 'b']);
+
+    await finish('b');
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('超出预算的单个任务在队列空闲时独占执行', async () => {
+    const queue = createProcessingQueue({ concurrency: 4, memoryBudget: 100 });
+    const { started, task, finish } = createTasks();
+
+    queue.enqueue(500, task('huge'));
+    await flush();
+    expect(started).toEqual(['huge']);
+
+    // 独占期间其它任务等待
+    queue.enqueue(10, task('small'));
+    await flush();
+    expect(started).toEqual(['huge']);
+
+    await finish('huge');
+    expect(started).toEqual(['huge', 'small']);
+
+    // 有任务在运行时，超大任务等待其完成
+    queue.enqueue(500, task('huge-2'));
+    await flush();
+    expect(started).toEqual(['huge', 'small']);
+    await finish('small');
+    expect(started).toEqual(['huge', 'small', 'huge-2']);
+  });
+
+  it('串行任务逐个运行，可与其它任务并行，不越过排在前面的串行任务', async () => {
+    const queue = createProcessingQueue({ concurrency: 4, memoryBudget: 100 });
+    const { started, task, finish } = createTasks();
+
+    queue.enqueue(1, task('svg-1'), { serial: true });
+    queue.enqueue(1, task('a'));
+    queue.enqueue(1, task('svg-2'), { serial: true });
+    // 排在等待中的串行任务之后
+    queue.enqueue(1, task('b'));
+    await flush();
+    expect(started).toEqual(['svg-1', 'a']);
+
+    await finish('a');
+    expect(started).toEqual(['svg-1', 'a']);
+
+    await finish('svg-1');
+    expect(started).toEqual(['svg-1', 'a', 'svg-2', 'b']);
+  });
+
+  it('暂停后不再启动新任务，进行中的任务继续完成，恢复后继续调度', async () => {
+    const queue = createProcessingQueue({ concurrency: 1, memoryBudget: 100 });
+    const { started, task, finish } = createTasks();
+
+    const first = queue.enqueue(1, task('a'));
+    queue.enqueue(1, task('b'));
+    await flush();
+    queue.pause();
+
+    await finish('a');
+    await expect(first).resolves.toBe('a');
+    expect(started).toEqual(['a']);
+    expect(queue.getStats()).toEqual({ queued: 1, running: 0, finished: 1 });
+
+    queue.resume();
+    await flush();
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('取消时排队中的任务以 AbortError 拒绝且不会启动，进行中的任务不受影响', async () => {
+    const stats: QueueStats[] = [];
+    const queue = createProcessingQueue({ concurrency: 1, memoryBudget: 100, onChange: (value) => stats.push(value) });
+    const { started, task, finish } = createTasks();
+
+    const running = queue.enqueue(1, task('a'));
+    const queued = [queue.enqueue(1, task('b')), queue.enqueue(1, task('c'))];
+    await flush();
+
+    queue.cancel();
+    const errors = await Promise.all(queued.map((promise) => promise.catch((error: unknown) => error)));
+    expect(errors.every(isAbortError)).toBe(true);
+    expect(stats.at(-1)).toEqual({ queued: 0, running: 1, finished: 0 });
+
+    await finish('a');
+    await expect(running).resolves.toBe('a');
+    await flush();
+    expect(started).toEqual(['a']);
+    expect(stats.at(-1)).toEqual({ queued: 0, running: 0, finished: 1 });
+  });
+
+  it('任务失败时释放内存并继续调度', async () => {
+    const queue = createProcessingQueue({ concurrency: 1, memoryBudget: 100 });
+    const { started, task } = createTasks();
+
+    const failed = queue.enqueue(100, () => Promise.reject(new Error('失败')));
+    queue.enqueue(100, task('b'));
+    await expect(failed).rejects.toThrow('失败');
+    await flush();
+    expect(started).toEqual(['b']);
+  });
+});
+
+describe('getMaxPixels', () => {
+  it('分块绘制的像素数据与编码副本不超过内存预算，且不超过 MAX_PIXELS', () => {
+    // 每像素 4 字节像素数据 + 4 字节编码副本
+    expect(getMaxPixels(256 * 1024 * 1024)).toBe(32 * 1024 * 1024);
+    expect(getMaxPixels(4 * 1024 * 1024 * 1024)).toBe(MAX_PIXELS);
+  });
+});
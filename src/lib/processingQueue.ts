@@ -0,0 +1,164 @@
+import type { QueueStats } from '@/types';
+import { createAbortError, MAX_PIXELS } from '@/lib/imageProcessing';
+
+/**
+ * 内存感知的处理队列
+ * 同时限制并发数和已解码位图的估算内存，避免批量处理时一次性解码所有图片
+ */
+
+/**
+ * 无法获取设备内存时的默认预算（移动端 Safari 的画布内存上限较低）
+ */
+const DEFAULT_MEMORY_BUDGET = 256 * 1024 * 1024;
+const MAX_MEMORY_BUDGET = 1024 * 1024 * 1024;
+
+/**
+ * 分块绘制时输出图片每像素占用的内存：拼接的 RGBA 像素数据，以及编码时复制到 WASM 模块内存的一份
+ */
+const TILED_BYTES_PER_PIXEL = 8;
+
+interface QueueJob {
+  cost: number;
+  serial: boolean;
+  run: () => Promise<void>;
+  cancel: () => void;
+}
+
+export interface EnqueueOptions {
+  // 串行任务（如在主线程处理的图片）同一时间只运行一个，可与其它任务并行
+  serial?: boolean;
+}
+
+export interface ProcessingQueueOptions {
+  concurrency: number;
+  memoryBudget: number;
+  onChange?: (stats: QueueStats) => void;
+}
+
+/**
+ * 根据 navigator.deviceMemory 估算可用于解码的内存预算（字节）
+ */
+export const getMemoryBudget = (): number => {
+  const deviceMemory =
+    typeof navigator !== 'undefined'
+      ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+      : undefined;
+  if (!deviceMemory) return DEFAULT_MEMORY_BUDGET;
+
+  // 取设备内存的 1/16，例如 8GB 设备为 512MB
+  const budget = (deviceMemory * 1024 * 1024 * 1024) / 16;
+  return Math.min(Math.max(budget, DEFAULT_MEMORY_BUDGET), MAX_MEMORY_BUDGET);
+};
+
+/**
+ * 分块绘制的输出图片的像素数上限，使其像素数据不超过内存预算，且不超过 MAX_PIXELS
+ */
+export const getMaxPixels = (memoryBudget = getMemoryBudget()): number =>
+  Math.min(MAX_PIXELS, Math.floor(memoryBudget / TILED_BYTES_PER_PIXEL));
+
+/**
+ * 估算一张图片处理时占用的内存：源位图 + 输出画布，每像素 4 字节
+ * 重采样（resampled 为图片所在区域的尺寸）时另加源像素副本（WASM 还需复制一份到模块内存）、
+ * 水平缩放后的浮点中间结果（目标宽 × 源高，每像素 16 字节）和重采样输出
+ */
+export const estimateMemoryCost = (
+  source: { width: number; height: number },
+  target: { width: number; height: number },
+  resampled?: { width: number; height: number }
+): number => {
+  const bitmaps = (source.width * source.height + target.width * target.height) * 4;
+  if (!resampled) return bitmaps;
+
+  const pixels = source.width * source.height * 4 * 2;
+  const temp = resampled.width * source.height * 16;
+  const output = resampled.width * resampled.height * 4;
+  return bitmaps + pixels + temp + output;
+};
+
+/**
+ * 创建处理队列
+ */
+export const createProcessingQueue = ({ concurrency, memoryBudget, onChange }: ProcessingQueueOptions) => {
+  const pending: QueueJob[] = [];
+  let running = 0;
+  let finished = 0;
+  let usedMemory = 0;
+  let runningSerial = 0;
+  let paused = false;
+
+  const getStats = (): QueueStats => ({ queued: pending.length, running, finished });
+
+  const notify = () => onChange?.(getStats());
+
+  /**
+   * 按先进先出顺序启动任务，直到并发数或内存预算用尽
+   */
+  const pump = () => {
+    while (!paused && pending.length > 0 && running < concurrency) {
+      const job = pending[0];
+      // 超出预算时等待其它任务释放内存；单个超大任务在队列空闲时独占执行
+      if (running > 0 && usedMemory + job.cost > memoryBudget) break;
+      // 串行任务等待前一个完成，同样不越过
+      if (job.serial && runningSerial > 0) break;
+
+      pending.shift();
+      running++;
+      usedMemory += job.cost;
+      if (job.serial) runningSerial++;
+
+      job.run().finally(() => {
+        running--;
+        finished++;
+        usedMemory -= job.cost;
+        if (job.serial) runningSerial--;
+        notify();
+        pump();
+      });
+    }
+    notify();
+  };
+
+  /**
+   * 加入队列，返回任务完成时 resolve 的 Promise
+   */
+  const enqueue = <T>(cost: number, task: () => Promise<T>, { serial = false }: EnqueueOptions = {}): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      pending.push({
+        cost,
+        serial,
+        run: () => task().then(resolve, reject),
+        cancel: () => reject(createAbortError()),
+      });
+      pump();
+    });
+  };
+
+  /**
+   * 暂停：不再启动新任务，进行中的任务继续完成
+   */
+  const pause = () => {
+    paused = true;
+    notify();
+  };
+
+  /**
+   * 恢复调度
+   */
+  const resume = () => {
+    paused = false;
+    pump();
+  };
+
+  /**
+   * 取消所有排队中的任务，对应的 Promise 以 AbortError 拒绝
+   */
+  const cancel = () => {
+    const cancelled = pending.splice(0);
+    cancelled.forEach((job) => job.cancel());
+    notify();
+  };
+
+  return { enqueue, getStats, pause, resume, cancel };
+};
+
+export type ProcessingQueue = ReturnType<typeof createProcessingQueue>;
@@ -0,0 +1,302 @@
+import type { ResamplingFilter, SharpenSettings } from '@/types';
+
+/**
+ * 重采样与锐化
+ * 不依赖 Canvas 的内置缩放（各浏览器质量不一，大比例缩小时发虚、有锯齿），按卷积核分离为水平、垂直两次计算
+ * 缩小时按比例放宽卷积核，覆盖所有参与的源像素；滤波在预乘 Alpha 下进行，透明边缘不产生暗边
+ * 可用 WebAssembly 时由 jSquash（Squoosh 的 Rust resize 模块）计算，否则使用下方的 JS 实现
+ */
+
+interface Kernel {
+  // 半径（源像素，缩放前）
+  support: number;
+  weight: (x: number) => number;
+}
+
+/**
+ * Mitchell-Netravali 三次卷积，B = C = 1/3
+ */
+const mitchell = (x: number) => {
+  const B = 1 / 3;
+  const C = 1 / 3;
+  const t = Math.abs(x);
+  if (t < 1) {
+    return ((12 - 9 * B - 6 * C) * t ** 3 + (-18 + 12 * B + 6 * C) * t ** 2 + (6 - 2 * B)) / 6;
+  }
+  if (t < 2) {
+    return ((-B - 6 * C) * t ** 3 + (6 * B + 30 * C) * t ** 2 + (-12 * B - 48 * C) * t + (8 * B + 24 * C)) / 6;
+  }
+  return 0;
+};
+
+const sinc = (x: number) => {
+  if (x === 0) return 1;
+  const t = Math.PI * x;
+  return Math.sin(t) / t;
+};
+
+const KERNELS: Record<Exclude<ResamplingFilter, 'browser' | 'nearest'>, Kernel> = {
+  bilinear: { support: 1, weight: (x) => Math.max(0, 1 - Math.abs(x)) },
+  mitchell: { support: 2, weight: mitchell },
+  lanczos3: { support: 3, weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+};
+
+/**
+ * 一个方向上每个目标像素的源像素范围与归一化权重
+ */
+interface AxisWeights {
+  start: Int32Array;
+  count: Int32Array;
+  weights: Float32Array;
+  // 每个目标像素在 weights 中占用的长度
+  stride: number;
+}
+
+const computeWeights = (srcSize: number, dstSize: number, filter: Exclude<ResamplingFilter, 'browser'>): AxisWeights => {
+  const scale = srcSize / dstSize;
+
+  if (filter === 'nearest') {
+    const start = new Int32Array(dstSize);
+    for (let i = 0; i < dstSize; i++) {
+      start[i] = Math.min(Math.floor((i + 0.5) * scale), srcSize - 1);
+    }
+    return { start, count: new Int32Array(dstSize).fill(1), weights: new Float32Array(dstSize).fill(1), stride: 1 };
+  }
+
+  const kernel = KERNELS[filter];
+  // 缩小时核按比例放宽，放大时保持原宽度
+  const filterScale = Math.max(scale, 1);
+  const support = kernel.support * filterScale;
+  const stride = Math.ceil(support * 2) + 2;
+  const start = new Int32Array(dstSize);
+  const count = new Int32Array(dstSize);
+  const weights = new Float32Array(dstSize * stride);
+
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) * scale;
+    const left = Math.max(0, Math.floor(center - support));
+    const right = Math.min(srcSize, Math.ceil(center + support));
+    let total = 0;
+    let n = 0;
+    for (let j = left; j < right && n < stride; j++, n++) {
+      const weight = kernel.weight((j + 0.5 - center) / filterScale);
+      weights[i * stride + n] = weight;
+      total += weight;
+    }
+
+    if (total === 0) {
+      // 权重全为 0（极端比例下的边缘），退回最近的像素
+      weights[i * stride] = 1;
+      start[i] = Math.min(Math.floor(center), srcSize - 1);
+      count[i] = 1;
+      continue;
+    }
+    for (let k = 0; k < n; k++) {
+      weights[i * stride + k] /= total;
+    }
+    start[i] = left;
+    count[i] = n;
+  }
+
+  return { start, count, weights, stride };
+};
+
+/**
+ * 将像素重采样到指定尺寸
+ */
+export const resamplePixels = (
+  source: ImageData,
+  width: number,
+  height: number,
+  filter: Exclude<ResamplingFilter, 'browser'>
+): ImageData => {
+  const { width: srcWidth, height: srcHeight, data: src } = source;
+  const horizontal = computeWeights(srcWidth, width, filter);
+  const vertical = computeWeights(srcHeight, height, filter);
+
+  // 水平方向：源图每一行缩放到目标宽度，结果为预乘 Alpha 的浮点值
+  const temp = new Float32Array(width * srcHeight * 4);
+  for (let y = 0; y < srcHeight; y++) {
+    const rowOffset = y * srcWidth;
+    for (let x = 0; x < width; x++) {
+      const base = x * horizontal.stride;
+      const first = horizontal.start[x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < horizontal.count[x]; k++) {
+        const index = (rowOffset + first + k) * 4;
+        const weight = horizontal.weights[base + k];
+        const alpha = src[index + 3] * weight;
+        r += src[index] * alpha;
+        g += src[index + 1] * alpha;
+        b += src[index + 2] * alpha;
+        a += alpha;
+      }
+      const index = (y * width + x) * 4;
+      temp[index] = r;
+      temp[index + 1] = g;
+      temp[index + 2] = b;
+      temp[index + 3] = a;
+    }
+  }
+
+  // 垂直方向：合并到目标高度并还原为非预乘的 8 位值
+  const output = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const base = y * vertical.stride;
+    const first = vertical.start[y];
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < vertical.count[y]; k++) {
+        const index = ((first + k) * width + x) * 4;
+        const weight = vertical.weights[base + k];
+        r += temp[index] * weight;
+        g += temp[index + 1] * weight;
+        b += temp[index + 2] * weight;
+        a += temp[index + 3] * weight;
+      }
+      const index = (y * width + x) * 4;
+      // Lanczos / Mitchell 的负权重可能产生越界值，写入时由 Uint8ClampedArray 限制
+      if (a > 0) {
+        output[index] = r / a;
+        output[index + 1] = g / a;
+        output[index + 2] = b / a;
+      }
+      output[index + 3] = a;
+    }
+  }
+
+  return new ImageData(output, width, height);
+};
+
+type WasmResize = (data: ImageData, options: { width: number; height: number; method: WasmMethod }) => Promise<ImageData>;
+
+/**
+ * 各算法对应的 WASM 方法；最近邻不插值，JS 实现已足够快
+ */
+const WASM_METHODS = {
+  bilinear: 'triangle',
+  mitchell: 'mitchell',
+  lanczos3: 'lanczos3',
+} as const;
+
+type WasmMethod = (typeof WASM_METHODS)[keyof typeof WASM_METHODS];
+
+// 按需加载；加载失败记为 null，之后不再重试
+let wasmResize: Promise<WasmResize | null> | null = null;
+
+const loadWasmResize = (): Promise<WasmResize | null> => {
+  wasmResize ??= import('@jsquash/resize')
+    .then(({ default: resize }): WasmResize =>
+      // 与 JS 实现一致：预乘 Alpha，在 sRGB 空间内插值
+      (data, options) => resize(data, { ...options, fitMethod: 'stretch', premultiply: true, linearRGB: false })
+    )
+    .catch((error) => {
+      console.warn('WASM 重采样模块加载失败，回退到 JS 实现', error);
+      return null;
+    });
+  return wasmResize;
+};
+
+/**
+ * 将像素重采样到指定尺寸，优先使用 WASM，不可用或失败时使用 JS 实现
+ */
+export const resampleImage = async (
+  source: ImageData,
+  width: number,
+  height: number,
+  filter: Exclude<ResamplingFilter, 'browser'>
+): Promise<ImageData> => {
+  const method = filter === 'nearest' ? undefined : WASM_METHODS[filter];
+  const resize = method && typeof WebAssembly === 'object' ? await loadWasmResize() : null;
+  if (method && resize) {
+    try {
+      return await resize(source, { width, height, method });
+    } catch (error) {
+      console.warn('WASM 重采样失败，回退到 JS 实现', error);
+    }
+  }
+  return resamplePixels(source, width, height, filter);
+};
+
+/**
+ * 一维高斯核，半径取 3σ
+ */
+const gaussianKernel = (sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let total = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const weight = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + radius] = weight;
+    total += weight;
+  }
+  return kernel.map((weight) => weight / total);
+};
+
+/**
+ * 沿水平或垂直方向模糊 RGB 通道，边缘重复最外侧像素
+ */
+const blurPass = (
+  src: Uint8ClampedArray,
+  dst: Uint8ClampedArray,
+  width: number,
+  height: number,
+  kernel: Float32Array,
+  horizontal: boolean
+) => {
+  const radius = (kernel.length - 1) / 2;
+  const length = horizontal ? width : height;
+  const lines = horizontal ? height : width;
+  const step = horizontal ? 1 : width;
+
+  for (let line = 0; line < lines; line++) {
+    const origin = horizontal ? line * width : line;
+    for (let i = 0; i < length; i++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const position = Math.min(length - 1, Math.max(0, i + k));
+        const index = (origin + position * step) * 4;
+        const weight = kernel[k + radius];
+        r += src[index] * weight;
+        g += src[index + 1] * weight;
+        b += src[index + 2] * weight;
+      }
+      const index = (origin + i * step) * 4;
+      dst[index] = r;
+      dst[index + 1] = g;
+      dst[index + 2] = b;
+    }
+  }
+};
+
+/**
+ * 原地进行 USM 锐化：与高斯模糊结果的差值超过阈值时按强度放大，Alpha 不变
+ */
+export const unsharpMask = (image: ImageData, { amount, radius, threshold }: SharpenSettings) => {
+  const { width, height, data } = image;
+  if (amount <= 0 || radius <= 0) return;
+
+  const kernel = gaussianKernel(radius);
+  const temp = new Uint8ClampedArray(data.length);
+  const blurred = new Uint8ClampedArray(data.length);
+  blurPass(data, temp, width, height, kernel, true);
+  blurPass(temp, blurred, width, height, kernel, false);
+
+  const strength = amount / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = data[i + c] - blurred[i + c];
+      if (Math.abs(diff) >= threshold) {
+        data[i + c] = data[i + c] + diff * strength;
+      }
+    }
+  }
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createResponsiveFiles, getPrimaryVariant, getResponsiveWidths, type ResponsiveVariant } from '@/lib/responsive';
+
+const variant = (width: number, mimeType: string): ResponsiveVariant => ({
+  width,
+  height: width / 2,
+  mimeType,
+  blob: new Blob([`${mimeType} ${width}`]),
+});
+
+/**
+ * 三档宽度、三种格式，按宽度升序
+ */
+const VARIANTS = [480, 960, 1600].flatMap((width) =>
+  ['image/jpeg', 'image/avif', 'image/webp'].map((mimeType) => variant(width, mimeType))
+);
+
+describe('getResponsiveWidths', () => {
+  it('去重并升序排列', () => {
+    expect(getResponsiveWidths([960, 480, 960, 320], 2000)).toEqual([320, 480, 960]);
+  });
+
+  it('超过原图的档位统一改为原图宽度，只保留一档', () => {
+    expect(getResponsiveWidths([480, 1600, 3200], 1200)).toEqual([480, 1200]);
+    expect(getResponsiveWidths([1200, 480], 1200)).toEqual([480, 1200]);
+  });
+
+  it('忽略无效宽度，全部无效时输出原图宽度', () => {
+    expect(getResponsiveWidths([0, -100, 640], 1000)).toEqual([640]);
+    expect(getResponsiveWidths([], 1000)).toEqual([1000]);
+  });
+});
+
+describe('getPrimaryVariant', () => {
+  it('取回退格式中最大的一档', () => {
+    expect(getPrimaryVariant(VARIANTS)).toMatchObject({ width: 1600, mimeType: 'image/jpeg' });
+  });
+});
+
+describe('createResponsiveFiles', () => {
+  it('按宽度与扩展名命名图片，最后附上 picture.html', () => {
+    const files = createResponsiveFiles(VARIANTS, 'photo');
+    expect(files.map((file) => file.name)).toEqual([
+      'photo-480w.jpg',
+      'photo-480w.avif',
+      'photo-480w.webp',
+      'photo-960w.jpg',
+      'photo-960w.avif',
+      'photo-960w.webp',
+      'photo-1600w.jpg',
+      'photo-1600w.avif',
+      'photo-1600w.webp',
+      'picture.html',
+    ]);
+    expect(files[0].blob).toBe(VARIANTS[0].blob);
+  });
+
+  it('新格式的 <source> 在前，<img> 使用回退格式并带最大一档的宽高', async () => {
+    const markup = await createResponsiveFiles(VARIANTS, 'photo').at(-1)!.blob.text();
+    const sizes = 'sizes="(max-width: 1600px) 100vw, 1600px"';
+
+    expect(markup).toBe(
+      [
+        '<picture>',
+        `  <source type="image/avif" srcset="photo-480w.avif 480w, photo-960w.avif 960w, photo-1600w.avif 1600w" ${sizes}>`,
+        `  <source type="image/webp" srcset="photo-480w.webp 480w, photo-960w.webp 960w, photo-1600w.webp 1600w" ${sizes}>`,
+        `  <img src="photo-1600w.jpg" srcset="photo-480w.jpg 480w, photo-960w.jpg 960w, photo-1600w.jpg 1600w" ${sizes} ` +
+          'width="1600" height="800" alt="" loading="lazy" decoding="async">',
+        '</picture>',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('只有一种格式时没有 <source>', async () => {
+    const markup = await createResponsiveFiles([variant(320, 'image/webp'), variant(640, 'image/webp')], 'a')
+      .at(-1)!
+      .blob.text();
+    expect(markup).not.toContain('<source');
+    expect(markup).toContain('<img src="a-640w.webp" srcset="a-320w.webp 320w, a-640w.webp 640w"');
+  });
+});
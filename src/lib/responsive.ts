@@ -0,0 +1,90 @@
+import type { ExportFile } from '@/types';
+import { getExtension } from '@/lib/imageProcessing';
+
+/**
+ * 响应式图片集
+ * 计算各档宽度，并为编码结果生成文件名与 <picture> / srcset 代码
+ */
+
+/**
+ * 单个宽度、单个格式的编码结果
+ */
+export interface ResponsiveVariant {
+  width: number;
+  height: number;
+  mimeType: string;
+  blob: Blob;
+}
+
+/**
+ * <source> 的排列顺序：新格式在前，最后一种作为 <img> 回退
+ */
+const TYPE_ORDER = ['image/avif', 'image/webp', 'image/png', 'image/jpeg', 'image/gif'];
+
+/**
+ * 代码片段文件名
+ */
+const MARKUP_FILE_NAME = 'picture.html';
+
+/**
+ * 计算输出宽度（升序），不放大：超过原图的档位统一改为原图宽度
+ */
+export const getResponsiveWidths = (widths: number[], maxWidth: number): number[] => {
+  const smaller = [...new Set(widths.filter((width) => width > 0 && width < maxWidth))].sort((a, b) => a - b);
+  return smaller.length === 0 || widths.some((width) => width >= maxWidth) ? [...smaller, maxWidth] : smaller;
+};
+
+const getVariantFileName = (variant: ResponsiveVariant, baseName: string): string =>
+  `${baseName}-${variant.width}w.${getExtension(variant.mimeType)}`;
+
+const getSortedTypes = (variants: ResponsiveVariant[]): string[] =>
+  [...new Set(variants.map((variant) => variant.mimeType))].sort(
+    (a, b) => TYPE_ORDER.indexOf(a) - TYPE_ORDER.indexOf(b)
+  );
+
+/**
+ * <img> 使用的结果：回退格式中最大的一档
+ * @param variants 按宽度升序排列
+ */
+export const getPrimaryVariant = (variants: ResponsiveVariant[]): ResponsiveVariant => {
+  const types = getSortedTypes(variants);
+  return variants.filter((variant) => variant.mimeType === types[types.length - 1]).at(-1) as ResponsiveVariant;
+};
+
+/**
+ * 生成 <picture> 代码，宽高取最大一档，防止布局偏移
+ */
+const createPictureMarkup = (variants: ResponsiveVariant[], baseName: string): string => {
+  const types = getSortedTypes(variants);
+  const largest = getPrimaryVariant(variants);
+  const fallbackType = largest.mimeType;
+  const srcset = (type: string) =>
+    variants
+      .filter((variant) => variant.mimeType === type)
+      .map((variant) => `${getVariantFileName(variant, baseName)} ${variant.width}w`)
+      .join(', ');
+
+  const sizes = `(max-width: ${largest.width}px) 100vw, ${largest.width}px`;
+
+  return [
+    '<picture>',
+    ...types
+      .slice(0, -1)
+      .map((type) => `  <source type="${type}" srcset="${srcset(type)}" sizes="${sizes}">`),
+    `  <img src="${getVariantFileName(largest, baseName)}" srcset="${srcset(fallbackType)}" sizes="${sizes}" ` +
+      `width="${largest.width}" height="${largest.height}" alt="" loading="lazy" decoding="async">`,
+    '</picture>',
+  ].join('\n');
+};
+
+/**
+ * 由编码结果生成导出文件：各尺寸图片与 picture.html
+ * @param variants 按宽度升序排列
+ */
+export const createResponsiveFiles = (variants: ResponsiveVariant[], baseName: string): ExportFile[] => [
+  ...variants.map((variant) => ({ name: getVariantFileName(variant, baseName), blob: variant.blob })),
+  {
+    name: MARKUP_FILE_NAME,
+    blob: new Blob([createPictureMarkup(variants, baseName) + '\n'], { type: 'text/html' }),
+  },
+];
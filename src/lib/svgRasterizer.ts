@@ -0,0 +1,155 @@
+/**
+ * SVG 栅格化
+ * SVG 作为矢量输入按目标尺寸直接渲染，避免先按固有尺寸生成位图再放大导致模糊
+ * 依赖 DOMParser，仅在主线程使用
+ */
+
+/**
+ * CSS 像素对应的 DPI，即 SVG 的原始尺寸
+ */
+export const SVG_BASE_DPI = 96;
+
+/**
+ * 未声明尺寸且没有 viewBox 时浏览器使用的默认尺寸
+ */
+const DEFAULT_SVG_WIDTH = 300;
+const DEFAULT_SVG_HEIGHT = 150;
+
+/**
+ * 绝对长度单位换算为 CSS 像素
+ */
+const UNIT_TO_PX: Record<string, number> = {
+  '': 1,
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  q: 96 / 101.6,
+};
+
+/**
+ * 可执行脚本或嵌入外部内容的元素
+ */
+const UNSAFE_ELEMENTS = ['script', 'foreignObject', 'iframe', 'embed', 'object', 'audio', 'video'];
+
+/**
+ * 指向外部资源的 url()（文档内引用与 data URL 除外）
+ */
+const EXTERNAL_URL = /url\(\s*(?!['"]?\s*(?:#|data:))[^)]*\)/gi;
+
+export interface SvgSource {
+  // 已清理的 <svg> 根元素
+  root: Element;
+  // 固有尺寸（CSS 像素）
+  width: number;
+  height: number;
+}
+
+/**
+ * 解析长度属性，百分比、em 等相对单位无法确定尺寸，返回 null
+ */
+const parseLength = (value: string | null): number | null => {
+  const match = value?.trim().match(/^(\d*\.?\d+(?:e[-+]?\d+)?)\s*(px|pt|pc|in|cm|mm|q)?$/i);
+  if (!match) return null;
+  const px = parseFloat(match[1]) * UNIT_TO_PX[(match[2] ?? '').toLowerCase()];
+  return px > 0 ? px : null;
+};
+
+/**
+ * 引用仅允许文档内锚点与内嵌图片
+ */
+const isSafeReference = (value: string): boolean => {
+  const reference = value.trim();
+  return reference.startsWith('#') || /^data:image\//i.test(reference);
+};
+
+/**
+ * 移除脚本、事件属性与外部引用
+ */
+const sanitizeSvg = (root: Element) => {
+  root.querySelectorAll(UNSAFE_ELEMENTS.join(',')).forEach((element) => element.remove());
+
+  for (const element of [root, ...root.querySelectorAll('*')]) {
+    for (const attribute of [...element.attributes]) {
+      const name = attribute.name.toLowerCase();
+      const isReference = name === 'href' || name === 'xlink:href';
+      if (
+        name.startsWith('on') ||
+        (isReference && !isSafeReference(attribute.value)) ||
+        (!isReference && new RegExp(EXTERNAL_URL.source, 'i').test(attribute.value))
+      ) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+  }
+
+  root.querySelectorAll('style').forEach((style) => {
+    style.textContent = (style.textContent ?? '')
+      .replace(/@import[^;]*;?/gi, '')
+      .replace(EXTERNAL_URL, 'none');
+  });
+};
+
+/**
+ * 解析并清理 SVG，计算固有尺寸
+ */
+export const parseSvg = async (file: Blob): Promise<SvgSource> => {
+  const doc = new DOMParser().parseFromString(await file.text(), 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+    throw new Error('SVG 文件解析失败');
+  }
+  sanitizeSvg(root);
+
+  const viewBox = root.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  const hasViewBox = viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+  let width = parseLength(root.getAttribute('width'));
+  let height = parseLength(root.getAttribute('height'));
+
+  // 缺少的一边按 viewBox 比例推算
+  if (viewBox && hasViewBox) {
+    const ratio = viewBox[2] / viewBox[3];
+    if (width && !height) height = width / ratio;
+    else if (!width && height) width = height * ratio;
+    else if (!width && !height) [width, height] = [viewBox[2], viewBox[3]];
+  }
+  width ??= DEFAULT_SVG_WIDTH;
+  height ??= DEFAULT_SVG_HEIGHT;
+
+  // 没有 viewBox 时按固有尺寸补上，修改 width/height 后内容随之缩放而不是被裁切
+  if (!hasViewBox) {
+    root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  }
+
+  return { root, width, height };
+};
+
+/**
+ * 读取 SVG 固有尺寸，解析失败时返回 null
+ */
+export const readSvgDimensions = async (file: Blob): Promise<{ width: number; height: number } | null> => {
+  try {
+    const { width, height } = await parseSvg(file);
+    return { width: Math.round(width), height: Math.round(height) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 生成按目标尺寸渲染的 SVG，交给 <img> 解码即得到该尺寸的位图
+ */
+export const serializeSvg = (svg: SvgSource, width: number, height: number): Blob => {
+  const root = svg.root.cloneNode(true) as Element;
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+
+  // 不保持宽高比时拉伸填满，与位图缩放行为一致
+  if (Math.abs(width / height - svg.width / svg.height) > 0.01) {
+    root.setAttribute('preserveAspectRatio', 'none');
+  }
+
+  return new Blob([new XMLSerializer().serializeToString(root)], { type: 'image/svg+xml' });
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { ImageTransform } from '@/types';
+import {
+  composeTransforms,
+  flipTransform,
+  getSourceTransform,
+  identityTransform,
+  invertTransform,
+  orientationToTransform,
+  rotateTransform,
+  transformRect,
+  transformSize,
+} from '@/lib/transform';
+
+// 全部 8 种旋转与翻转组合
+const TRANSFORMS: ImageTransform[] = ([0, 90, 180, 270] as const).flatMap((rotate) => [
+  { rotate, flip: false },
+  { rotate, flip: true },
+]);
+
+const SIZE = { width: 400, height: 300 };
+
+describe('composeTransforms / invertTransform', () => {
+  it('与逆变换组合后回到原样，先后顺序均可', () => {
+    for (const transform of TRANSFORMS) {
+      expect(composeTransforms(transform, invertTransform(transform))).toEqual(identityTransform);
+      expect(composeTransforms(invertTransform(transform), transform)).toEqual(identityTransform);
+    }
+  });
+
+  it('组合的逆等于逆的反向组合', () => {
+    for (const first of TRANSFORMS) {
+      for (const second of TRANSFORMS) {
+        expect(invertTransform(composeTransforms(first, second))).toEqual(
+          composeTransforms(invertTransform(second), invertTransform(first))
+        );
+      }
+    }
+  });
+
+  it('旋转四次、翻转两次回到原样', () => {
+    let transform = identityTransform;
+    for (let i = 0; i < 4; i++) transform = rotateTransform(transform, 90);
+    expect(transform).toEqual(identityTransform);
+    expect(flipTransform(flipTransform(identityTransform, 'vertical'), 'vertical')).toEqual(identityTransform);
+  });
+
+  it('旋转后的翻转按屏幕方向进行', () => {
+    // 结果为先旋转、再水平翻转的形式；垂直翻转等于再旋转 180° 后水平翻转
+    const rotated = rotateTransform(identityTransform, 90);
+    expect(flipTransform(rotated, 'horizontal')).toEqual({ rotate: 90, flip: true });
+    expect(flipTransform(rotated, 'vertical')).toEqual({ rotate: 270, flip: true });
+    expect(rotateTransform(rotateTransform(identityTransform, -90), -90)).toEqual({ rotate: 180, flip: false });
+  });
+});
+
+describe('transformRect', () => {
+  const rect = { x: 0, y: 0, width: 100, height: 50 };
+
+  it('旋转与翻转后换算到变换后的图片坐标', () => {
+    // 左上角的区域旋转后位于右上角
+    expect(transformRect(rect, SIZE, { rotate: 90, flip: false })).toEqual({ x: 250, y: 0, width: 50, height: 100 });
+    expect(transformRect(rect, SIZE, { rotate: 180, flip: false })).toEqual({ x: 300, y: 250, width: 100, height: 50 });
+    expect(transformRect(rect, SIZE, { rotate: 0, flip: true })).toEqual({ x: 300, y: 0, width: 100, height: 50 });
+    // 旋转后再水平翻转，回到左上角
+    expect(transformRect(rect, SIZE, { rotate: 90, flip: true })).toEqual({ x: 0, y: 0, width: 50, height: 100 });
+  });
+
+  it('变换后再按逆变换换算回到原区域，且始终位于图片内', () => {
+    const crop = { x: 37, y: 12, width: 150, height: 201 };
+    for (const transform of TRANSFORMS) {
+      const target = transformSize(SIZE, transform);
+      const mapped = transformRect(crop, SIZE, transform);
+      expect(mapped.x).toBeGreaterThanOrEqual(0);
+      expect(mapped.y).toBeGreaterThanOrEqual(0);
+      expect(mapped.x + mapped.width).toBeLessThanOrEqual(target.width);
+      expect(mapped.y + mapped.height).toBeLessThanOrEqual(target.height);
+      expect(transformRect(mapped, target, invertTransform(transform))).toEqual(crop);
+    }
+  });
+});
+
+describe('getSourceTransform', () => {
+  it('浏览器已按 EXIF 方向解码，自动校正且未旋转时无需变换', () => {
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      expect(getSourceTransform(orientation, true)).toEqual(identityTransform);
+    }
+  });
+
+  it('关闭自动校正时撤销浏览器的方向处理', () => {
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      const transform = getSourceTransform(orientation, false);
+      expect(composeTransforms(orientationToTransform(orientation), transform)).toEqual(identityTransform);
+    }
+    expect(getSourceTransform(6, false)).toEqual({ rotate: 270, flip: false });
+  });
+});
@@ -0,0 +1,146 @@
+import type { CropRect, ImageConfig, ImageTransform, Rotation } from '@/types';
+import type { Size } from '@/lib/crop';
+
+/**
+ * 旋转与翻转
+ * 8 种组合以 2×2 矩阵（与 Canvas transform 的 a、b、c、d 对应）计算，组合、求逆后再换回旋转 + 翻转的形式
+ */
+
+type Matrix = [a: number, b: number, c: number, d: number];
+
+export const identityTransform: ImageTransform = { rotate: 0, flip: false };
+
+const rotations: Rotation[] = [0, 90, 180, 270];
+
+/**
+ * EXIF 方向 1-8 对应的变换（由存储的像素得到正常显示的图片）
+ */
+const ORIENTATION_TRANSFORMS: Record<number, ImageTransform> = {
+  1: { rotate: 0, flip: false },
+  2: { rotate: 0, flip: true },
+  3: { rotate: 180, flip: false },
+  4: { rotate: 180, flip: true },
+  5: { rotate: 90, flip: true },
+  6: { rotate: 90, flip: false },
+  7: { rotate: 270, flip: true },
+  8: { rotate: 270, flip: false },
+};
+
+export const isIdentityTransform = (transform?: ImageTransform): boolean =>
+  !transform || (transform.rotate === 0 && !transform.flip);
+
+/**
+ * 变换矩阵：y 轴向下，x' = a·x + c·y，y' = b·x + d·y
+ */
+export const getTransformMatrix = ({ rotate, flip }: ImageTransform): Matrix => {
+  const radians = (rotate * Math.PI) / 180;
+  const cos = Math.round(Math.cos(radians));
+  const sin = Math.round(Math.sin(radians));
+  const sign = flip ? -1 : 1;
+  return [sign * cos, sin, -sign * sin, cos];
+};
+
+const fromMatrix = (matrix: Matrix): ImageTransform => {
+  for (const rotate of rotations) {
+    for (const flip of [false, true]) {
+      const candidate = getTransformMatrix({ rotate, flip });
+      if (candidate.every((value, index) => value === matrix[index])) return { rotate, flip };
+    }
+  }
+  return identityTransform;
+};
+
+/**
+ * 依次应用两个变换
+ */
+export const composeTransforms = (first: ImageTransform, second: ImageTransform): ImageTransform => {
+  const [a1, b1, c1, d1] = getTransformMatrix(first);
+  const [a2, b2, c2, d2] = getTransformMatrix(second);
+  return fromMatrix([a2 * a1 + c2 * b1, b2 * a1 + d2 * b1, a2 * c1 + c2 * d1, b2 * c1 + d2 * d1]);
+};
+
+/**
+ * 逆变换（正交矩阵的转置）
+ */
+export const invertTransform = (transform: ImageTransform): ImageTransform => {
+  const [a, b, c, d] = getTransformMatrix(transform);
+  return fromMatrix([a, c, b, d]);
+};
+
+/**
+ * 在当前变换之后再顺时针（90）或逆时针（-90）旋转
+ */
+export const rotateTransform = (transform: ImageTransform, degrees: 90 | -90): ImageTransform =>
+  composeTransforms(transform, { rotate: degrees === 90 ? 90 : 270, flip: false });
+
+/**
+ * 在当前变换之后再水平或垂直翻转
+ */
+export const flipTransform = (transform: ImageTransform, direction: 'horizontal' | 'vertical'): ImageTransform =>
+  composeTransforms(transform, { rotate: direction === 'horizontal' ? 0 : 180, flip: true });
+
+export const orientationToTransform = (orientation: number): ImageTransform =>
+  ORIENTATION_TRANSFORMS[orientation] ?? identityTransform;
+
+/**
+ * 由存储的像素得到最终输出的变换：先按设置校正 EXIF 方向，再应用旋转与翻转
+ */
+export const getViewTransform = (
+  orientation: number,
+  autoOrient: boolean,
+  transform: ImageTransform = identityTransform
+): ImageTransform => composeTransforms(autoOrient ? orientationToTransform(orientation) : identityTransform, transform);
+
+/**
+ * 由解码结果得到最终输出的变换
+ * 浏览器解码时已按 EXIF 方向旋转像素（HEIF 解码器按 irot / imir 旋转），需先撤销再应用完整的变换
+ */
+export const getSourceTransform = (
+  orientation: number,
+  autoOrient: boolean,
+  transform?: ImageTransform
+): ImageTransform =>
+  composeTransforms(
+    invertTransform(orientationToTransform(orientation)),
+    getViewTransform(orientation, autoOrient, transform)
+  );
+
+export const transformSize = ({ width, height }: Size, { rotate }: ImageTransform): Size =>
+  rotate % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * 将区域换算到变换后的图片中
+ * @param size 变换前的图片尺寸
+ */
+export const transformRect = (rect: CropRect, size: Size, transform: ImageTransform): CropRect => {
+  const [a, b, c, d] = getTransformMatrix(transform);
+  const target = transformSize(size, transform);
+  // 以图片中心为原点变换区域的两个对角
+  const map = (x: number, y: number) => {
+    const dx = x - size.width / 2;
+    const dy = y - size.height / 2;
+    return { x: a * dx + c * dy + target.width / 2, y: b * dx + d * dy + target.height / 2 };
+  };
+  const start = map(rect.x, rect.y);
+  const end = map(rect.x + rect.width, rect.y + rect.height);
+
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+};
+
+/**
+ * 用于预览的 CSS transform
+ */
+export const toCssTransform = (transform: ImageTransform): string | undefined =>
+  isIdentityTransform(transform) ? undefined : `matrix(${getTransformMatrix(transform).join(', ')}, 0, 0)`;
+
+/**
+ * 裁剪、方向校正与旋转之后的尺寸，即尺寸调整的基准；原图尺寸未知时为空
+ */
+export const getDisplaySize = ({ dimensions, orientation, settings }: ImageConfig): Size | undefined =>
+  dimensions &&
+  transformSize(settings.crop ?? dimensions, getViewTransform(orientation, settings.autoOrient, settings.transform));
@@ -0,0 +1,66 @@
+import type { CanvasFactory, PipelineCanvas } from '@/lib/imagePipeline';
+
+/**
+ * 透明像素
+ * 添加图片时检测是否真的含透明像素；输出不支持透明的格式时将图片铺到背景色上，避免透明区域变黑
+ */
+
+/**
+ * 检测用画布的最大边长，更大的图片缩小后检测
+ */
+const SCAN_SIZE = 2048;
+
+/**
+ * 检查已解码的图片是否含有不完全不透明的像素
+ */
+export const hasTransparentPixels = (
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  createCanvas: CanvasFactory
+): boolean => {
+  const scale = Math.min(1, SCAN_SIZE / Math.max(width, height));
+  const canvas = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  canvas.context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const { data } = canvas.context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * 解析 #rrggbb 颜色，无法解析时为白色
+ */
+const parseHexColor = (color: string): [r: number, g: number, b: number] => {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : [255, 255, 255];
+};
+
+/**
+ * 原地将图片铺到背景色上，结果完全不透明
+ */
+export const flattenImage = (image: PipelineCanvas | ImageData, matte: string) => {
+  if (!(image instanceof ImageData)) {
+    const { context } = image;
+    context.save();
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = matte;
+    context.fillRect(0, 0, image.width, image.height);
+    context.restore();
+    return;
+  }
+
+  // 分块绘制的像素数据没有画布可用，逐像素混合
+  const [r, g, b] = parseHexColor(matte);
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    if (alpha === 1) continue;
+    data[i] = data[i] * alpha + r * (1 - alpha);
+    data[i + 1] = data[i + 1] * alpha + g * (1 - alpha);
+    data[i + 2] = data[i + 2] * alpha + b * (1 - alpha);
+    data[i + 3] = 255;
+  }
+};
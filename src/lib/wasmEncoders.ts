@@ -0,0 +1,67 @@
+/**
+ * WASM 编码器（jSquash：MozJPEG、libwebp、libavif）
+ * 与浏览器 Canvas 编码能力无关，各浏览器输出一致
+ */
+
+type WasmEncoder = (data: ImageData, quality: number) => Promise<ArrayBuffer>;
+
+/**
+ * 按需加载各格式编码器，未使用的格式不下载
+ */
+const encoderLoaders: Record<string, () => Promise<WasmEncoder>> = {
+  'image/jpeg': async () => {
+    const { default: encode } = await import('@jsquash/jpeg/encode');
+    return (data, quality) => encode(data, { quality });
+  },
+  'image/webp': async () => {
+    const { default: encode } = await import('@jsquash/webp/encode');
+    return (data, quality) => encode(data, { quality });
+  },
+  'image/avif': async () => {
+    const { default: encode } = await import('@jsquash/avif/encode');
+    return (data, quality) => encode(data, { quality });
+  },
+};
+
+// 已加载的编码器；加载失败记为 null，之后不再重试
+const encoders = new Map<string, Promise<WasmEncoder | null>>();
+
+const loadEncoder = (format: string): Promise<WasmEncoder | null> => {
+  const cached = encoders.get(format);
+  if (cached) return cached;
+
+  const loader = encoderLoaders[format];
+  const encoder = loader
+    ? loader().catch((error) => {
+        console.warn(`${format} WASM 编码器加载失败，回退到 Canvas 编码`, error);
+        return null;
+      })
+    : Promise.resolve(null);
+  encoders.set(format, encoder);
+  return encoder;
+};
+
+/**
+ * 检查是否可用 WASM 编码指定格式
+ */
+export const canEncodeWithWasm = (format: string): boolean =>
+  typeof WebAssembly === 'object' && format in encoderLoaders;
+
+/**
+ * 使用 WASM 编码像素数据，不支持或编码失败时返回 null
+ * @param quality 0-1，与 Canvas 编码质量一致
+ */
+export const encodeWithWasm = async (data: ImageData, format: string, quality: number): Promise<Blob | null> => {
+  if (!canEncodeWithWasm(format)) return null;
+
+  const encoder = await loadEncoder(format);
+  if (!encoder) return null;
+
+  try {
+    const buffer = await encoder(data, Math.round(Math.min(Math.max(quality, 0), 1) * 100));
+    return buffer.byteLength > 0 ? new Blob([buffer], { type: format }) : null;
+  } catch (error) {
+    console.warn(`${format} WASM 编码失败，回退到 Canvas 编码`, error);
+    return null;
+  }
+};
@@ -0,0 +1,112 @@
+import type { WatermarkSettings } from '@/types';
+import type { CanvasFactory, PipelineCanvas } from '@/lib/imagePipeline';
+import { ANCHOR_POSITIONS } from '@/lib/imageProcessing';
+
+/**
+ * 水印
+ * 在尺寸调整后的画布上绘制文字或 Logo，字号、Logo 宽度与边距按输出宽度换算，各种输出尺寸下比例一致
+ */
+
+/**
+ * 绘制用的水印，Logo 已解码到画布
+ */
+export interface PreparedWatermark {
+  settings: WatermarkSettings;
+  logo?: PipelineCanvas;
+}
+
+/**
+ * 解码 Logo，未开启或没有可绘制的内容时返回 undefined
+ */
+export const prepareWatermark = async (
+  settings: WatermarkSettings | undefined,
+  createCanvas: CanvasFactory
+): Promise<PreparedWatermark | undefined> => {
+  if (!settings?.enabled) return undefined;
+  if (settings.type === 'text') {
+    return settings.text.trim() ? { settings } : undefined;
+  }
+  if (!settings.image) return undefined;
+
+  const bitmap = await createImageBitmap(settings.image);
+  try {
+    const logo = createCanvas(bitmap.width, bitmap.height);
+    logo.context.drawImage(bitmap, 0, 0);
+    return { settings, logo };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * 在输出图片上绘制水印
+ * @param width 输出图片的完整尺寸（分块绘制时也为整图尺寸）
+ * @param offsetX 分块绘制时当前块在整图中的位置
+ */
+export const drawWatermark = (
+  context: PipelineCanvas['context'],
+  width: number,
+  height: number,
+  { settings, logo }: PreparedWatermark,
+  offsetX = 0,
+  offsetY = 0
+) => {
+  const unit = width / 100;
+  const margin = settings.margin * unit;
+
+  context.save();
+  context.globalAlpha = settings.opacity;
+
+  // 水印内容旋转前的宽高，以中心为原点绘制
+  let itemWidth: number;
+  let itemHeight: number;
+  let drawItem: () => void;
+  if (settings.type === 'text' || !logo) {
+    const fontSize = Math.max(1, settings.fontSize * unit);
+    context.font = `${fontSize}px ${settings.font}`;
+    context.fillStyle = settings.color;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    itemWidth = context.measureText(settings.text).width;
+    itemHeight = fontSize;
+    drawItem = () => context.fillText(settings.text, 0, 0);
+  } else {
+    itemWidth = Math.max(1, settings.imageWidth * unit);
+    itemHeight = (itemWidth * logo.height) / logo.width;
+    drawItem = () => context.drawImage(logo.context.canvas, -itemWidth / 2, -itemHeight / 2, itemWidth, itemHeight);
+  }
+
+  // 旋转后的外接矩形，用于贴边放置与平铺间距
+  const radians = (settings.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const boxWidth = itemWidth * cos + itemHeight * sin;
+  const boxHeight = itemWidth * sin + itemHeight * cos;
+
+  const drawAt = (x: number, y: number) => {
+    context.save();
+    context.translate(x - offsetX, y - offsetY);
+    context.rotate(radians);
+    drawItem();
+    context.restore();
+  };
+
+  if (settings.layout === 'tile') {
+    // 错行平铺，奇数行偏移半个间距
+    const stepX = Math.max(boxWidth + margin, 1);
+    const stepY = Math.max(boxHeight + margin, 1);
+    for (let row = 0, y = stepY / 2; y - boxHeight / 2 < height; row++, y += stepY) {
+      for (let x = row % 2 ? 0 : stepX / 2; x - boxWidth / 2 < width; x += stepX) {
+        drawAt(x, y);
+      }
+    }
+  } else {
+    const [fx, fy] = ANCHOR_POSITIONS[settings.anchor];
+    drawAt(
+      margin + boxWidth / 2 + fx * (width - 2 * margin - boxWidth),
+      margin + boxHeight / 2 + fy * (height - 2 * margin - boxHeight)
+    );
+  }
+
+  context.restore();
+};
@@ -1,6 +1,59 @@
 import { create } from 'zustand';
-import type { ImageConfig, GlobalSettings, AppState, AppActions, ProcessStatus } from '@/types';
+import type {
+  ImageConfig,
+  GlobalSettings,
+  AppState,
+  AppActions,
+  ProcessProgress,
+  ProcessStatus,
+  QueueStats,
+  ResizeOptions,
+} from '@/types';
 import JSZip from 'jszip';
+import {
+  calculateResizeLayout,
+  createAbortError,
+  DEFAULT_QUALITY,
+  getExtension,
+  getFallbackFormat,
+  getFrameRect,
+  getStageProgress,
+  isAbortError,
+  isHeifType,
+  isImageFile,
+  limitDimensions,
+  resolveQuality,
+  supportsTransparency,
+  throwIfAborted,
+} from '@/lib/imageProcessing';
+import {
+  canProcessInWorker,
+  getPoolSize,
+  isWorkerSupported,
+  processInWorker,
+  type WorkerTaskOptions,
+} from '@/lib/imageWorkerClient';
+import { mayHaveAlpha, readImageDimensions, sniffImageType, type ImageDimensions } from '@/lib/imageHeader';
+import { hasTransparentPixels } from '@/lib/transparency';
+import { countPages, decodeSource, detectDecoderType } from '@/lib/decoders';
+import { createDomCanvas, runPipeline, type PipelineResult } from '@/lib/imagePipeline';
+import { parseSvg, readSvgDimensions, serializeSvg, SVG_BASE_DPI } from '@/lib/svgRasterizer';
+import { scaleCrop } from '@/lib/crop';
+import { getOrientation, readMetadata } from '@/lib/metadata';
+import {
+  getDisplaySize,
+  getViewTransform,
+  identityTransform,
+  invertTransform,
+  transformRect,
+  transformSize,
+} from '@/lib/transform';
+import {
+  createProcessingQueue,
+  estimateMemoryCost,
+  getMemoryBudget,
+  type ProcessingQueue,
+} from '@/lib/processingQueue';
 
 /**
  * 生成唯一 ID
@@ -15,228 +68,205 @@ const sanitizeFileName = (name: string): string => {
 };
 
 /**
- * 获取格式对应的文件扩展名
+ * 导出文件的基础名：清理后的原文件名，多页文件附加页码
  */
-const getExtension = (format: string): string => {
-  const map: Record<string, string> = {
-    'image/jpeg': 'jpg',
-    'image/png': 'png',
-    'image/webp': 'webp',
-    'image/avif': 'avif',
-    'image/gif': 'gif',
-  };
-  return map[format] || 'png';
+const getExportBaseName = (image: ImageConfig): string => {
+  const baseName = sanitizeFileName(image.file.name.replace(/\.[^/.]+$/, ''));
+  const pageSuffix = image.page ? `_p${image.page.index + 1}` : '';
+  return `${baseName}${pageSuffix}`;
 };
 
+/**
+ * 导出文件名：扩展名取实际输出格式
+ */
+const getExportFileName = (image: ImageConfig): string => {
+  return `${getExportBaseName(image)}_purepixel.${getExtension(image.result?.mimeType ?? image.settings.format)}`;
+};
+
+/**
+ * 仅压缩模式下原格式对应的输出格式，无法编码的格式（HEIC、SVG）使用回退格式
+ */
+const getSourceFormat = (type: string): string =>
+  isHeifType(type) || type === 'image/svg+xml' ? getFallbackFormat(type) : type;
+
 /**
  * 默认全局设置
  */
 const defaultGlobalSettings: GlobalSettings = {
   format: 'image/webp',
   enableCompression: true,
+  quality: DEFAULT_QUALITY,
+  targetSize: { enabled: false, kilobytes: 200, allowDownscale: false },
+  responsive: {
+    enabled: false,
+    widths: [320, 640, 1280, 1920],
+    formats: ['image/avif', 'image/webp', 'image/jpeg'],
+  },
   mode: 'convert',
-  maintainAspectRatio: true,
+  metadata: 'strip-private',
+  autoOrient: true,
+  watermark: {
+    enabled: false,
+    type: 'text',
+    text: '',
+    font: 'sans-serif',
+    fontSize: 4,
+    color: '#ffffff',
+    opacity: 0.5,
+    rotation: 0,
+    imageWidth: 15,
+    layout: 'anchor',
+    anchor: 'bottom-right',
+    margin: 2,
+  },
   resizeMode: 'none',
   scale: 1,
+  fit: 'inside',
+  gravity: 'center',
+  resizeGuard: 'none',
+  padColor: '#ffffff',
+  svgDpi: SVG_BASE_DPI,
+  resampling: 'lanczos3',
+  sharpen: {
+    enabled: false,
+    amount: 80,
+    radius: 1,
+    threshold: 2,
+  },
+  matte: '#ffffff',
+  keepTransparency: false,
 };
 
 /**
- * 尺寸调整选项
+ * 空队列统计
  */
-interface ResizeOptions {
-  resizeMode: 'none' | 'scale' | 'custom';
-  scale?: number;
-  width?: number;
-  height?: number;
-  maintainAspectRatio: boolean;
-}
+const emptyQueueStats: QueueStats = { queued: 0, running: 0, finished: 0 };
 
 /**
- * 计算调整后的尺寸
+ * 进行中图片的取消控制器
  */
-const calculateResizedDimensions = (
-  originalWidth: number,
-  originalHeight: number,
-  options: ResizeOptions
-): { width: number; height: number } => {
-  if (options.resizeMode === 'none') {
-    return { width: originalWidth, height: originalHeight };
-  }
-
-  if (options.resizeMode === 'scale' && options.scale) {
-    return {
-      width: Math.round(originalWidth * options.scale),
-      height: Math.round(originalHeight * options.scale),
-    };
-  }
+const abortControllers = new Map<string, AbortController>();
 
-  if (options.resizeMode === 'custom') {
-    let targetWidth = options.width || originalWidth;
-    let targetHeight = options.height || originalHeight;
-
-    if (options.maintainAspectRatio) {
-      const aspectRatio = originalWidth / originalHeight;
-      
-      if (options.width && !options.height) {
-        // 只设置了宽度，根据宽高比计算高度
-        targetHeight = Math.round(targetWidth / aspectRatio);
-      } else if (!options.width && options.height) {
-        // 只设置了高度，根据宽高比计算宽度
-        targetWidth = Math.round(targetHeight * aspectRatio);
-      } else if (options.width && options.height) {
-        // 都设置了，按照较小的缩放比例计算
-        const scaleX = options.width / originalWidth;
-        const scaleY = options.height / originalHeight;
-        const scale = Math.min(scaleX, scaleY);
-        targetWidth = Math.round(originalWidth * scale);
-        targetHeight = Math.round(originalHeight * scale);
-      }
-    }
+/**
+ * 当前批量处理队列
+ */
+let activeQueue: ProcessingQueue | null = null;
 
-    return { width: targetWidth, height: targetHeight };
-  }
+/**
+ * 由图片设置构建尺寸调整选项
+ */
+const getResizeOptions = (
+  settings: ImageConfig['settings'],
+  resizeMode: GlobalSettings['resizeMode']
+): ResizeOptions => ({
+  resizeMode,
+  scale: settings.scale,
+  width: settings.width,
+  height: settings.height,
+  fit: settings.fit,
+  gravity: settings.gravity,
+  guard: settings.resizeGuard,
+  padColor: settings.padColor,
+  svgDpi: settings.svgDpi,
+});
 
-  return { width: originalWidth, height: originalHeight };
-};
+/**
+ * 透明检测预览图的最大边长
+ */
+const ALPHA_PREVIEW_SIZE = 512;
 
 /**
- * 检查浏览器是否支持指定格式
+ * 检测图片是否含透明像素：文件头确定不透明时不解码，浏览器无法解码或尺寸未知时返回 undefined
+ * 由 createImageBitmap 在后台解码出缩小的预览再检测，不在主线程解码原尺寸图片
  */
-const checkFormatSupport = async (format: string): Promise<boolean> => {
-  if (format === 'image/avif') {
-    // AVIF 支持检测
-    const canvas = document.createElement('canvas');
-    canvas.width = 1;
-    canvas.height = 1;
-    return new Promise((resolve) => {
-      canvas.toBlob(
-        (blob) => resolve(blob !== null && blob.size > 0),
-        'image/avif',
-        0.5
-      );
-    });
+const detectAlpha = async (file: File, dimensions: ImageDimensions | undefined): Promise<boolean | undefined> => {
+  if (!(await mayHaveAlpha(file))) return false;
+  // SVG 无法由 createImageBitmap 直接解码
+  if (!dimensions || file.type === 'image/svg+xml') return undefined;
+
+  const scale = Math.min(1, ALPHA_PREVIEW_SIZE / Math.max(dimensions.width, dimensions.height));
+  const width = Math.max(1, Math.round(dimensions.width * scale));
+  const height = Math.max(1, Math.round(dimensions.height * scale));
+  let preview: ImageBitmap | null = null;
+  try {
+    // 高质量缩小会平均源像素，少量透明像素也会降低预览的 Alpha
+    preview = await createImageBitmap(file, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+    return hasTransparentPixels(preview, width, height, createDomCanvas);
+  } catch {
+    return undefined;
+  } finally {
+    preview?.close();
   }
-  return true;
 };
 
 /**
- * 获取回退格式
+ * 估算图片处理所需内存，尺寸未知时按压缩比约 1:10 由文件大小推算
  */
-const getFallbackFormat = (format: string): string => {
-  // 如果 AVIF 不支持，回退到 WebP
-  if (format === 'image/avif') return 'image/webp';
-  return format;
+const estimateImageCost = (image: ImageConfig, resizeOptions: ResizeOptions): number => {
+  if (!image.dimensions) {
+    return image.file.size * 10;
+  }
+
+  // SVG 按 DPI 换算栅格化的基准尺寸
+  const density =
+    image.file.type === 'image/svg+xml' ? (resizeOptions.svgDpi ?? SVG_BASE_DPI) / SVG_BASE_DPI : 1;
+  const width = Math.round(image.dimensions.width * density);
+  const height = Math.round(image.dimensions.height * density);
+  const base = getDisplaySize(image) ?? image.dimensions;
+  const layout = calculateResizeLayout(
+    Math.round(base.width * density),
+    Math.round(base.height * density),
+    resizeOptions
+  );
+  const target = limitDimensions(layout.width, layout.height);
+  // 重采样的是图片所在区域，cover 裁切时比输出画布大
+  const resampled =
+    image.settings.resampling !== 'browser' ? getFrameRect(layout.frame, target.width, target.height) : undefined;
+  return estimateMemoryCost({ width, height }, target, resampled);
 };
 
 /**
- * 使用 Canvas 进行图片格式转换和尺寸调整
- * 增强移动端兼容性：crossOrigin 属性、格式回退、超时处理
+ * 使用 <img> 解码图片（不支持 OffscreenCanvas 时的主线程回退）
+ * 增强移动端兼容性：crossOrigin 属性、超时处理
  */
-const convertImage = async (
-  file: File,
-  format: string,
-  enableCompression: boolean,
-  resizeOptions?: ResizeOptions
-): Promise<Blob> => {
-  // 检查格式支持
-  const isFormatSupported = await checkFormatSupport(format);
-  const targetFormat = isFormatSupported ? format : getFallbackFormat(format);
-  
+const loadImageElement = (file: Blob, signal?: AbortSignal): Promise<HTMLImageElement> => {
+  throwIfAborted(signal);
+
   return new Promise((resolve, reject) => {
     const img = new Image();
     const url = URL.createObjectURL(file);
     
     // 设置超时（移动端网络较慢时防止无限等待）
     const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
       URL.revokeObjectURL(url);
       reject(new Error('图片加载超时，请重试'));
     }, 30000);
     
+    // 取消时中断加载
+    const handleAbort = () => {
+      clearTimeout(timeout);
+      img.onload = null;
+      img.onerror = null;
+      URL.revokeObjectURL(url);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    
     // 设置 crossOrigin 属性，某些移动端 WebView 需要
     img.crossOrigin = 'anonymous';
     
     img.onload = () => {
       clearTimeout(timeout);
-      
-      try {
-        // 计算目标尺寸
-        const { width, height } = resizeOptions
-          ? calculateResizedDimensions(img.width, img.height, resizeOptions)
-          : { width: img.width, height: img.height };
-        
-        // 移动端内存限制检查：限制最大尺寸
-        const maxDimension = 4096;
-        let finalWidth = width;
-        let finalHeight = height;
-        
-        if (width > maxDimension || height > maxDimension) {
-          const scale = Math.min(maxDimension / width, maxDimension / height);
-          finalWidth = Math.round(width * scale);
-          finalHeight = Math.round(height * scale);
-          console.warn(`图片尺寸超限，已自动缩小至 ${finalWidth}x${finalHeight}`);
-        }
-        
-        const canvas = document.createElement('canvas');
-        canvas.width = finalWidth;
-        canvas.height = finalHeight;
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          URL.revokeObjectURL(url);
-          reject(new Error('无法创建 Canvas 上下文'));
-          return;
-        }
-        
-        // 启用高质量缩放
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-        
-        ctx.drawImage(img, 0, 0, finalWidth, finalHeight);
-        
-        // 延迟释放 ObjectURL，确保移动端完成绘制
-        setTimeout(() => URL.revokeObjectURL(url), 100);
-        
-        // 确定输出质量
-        let quality = 1.0;
-        if (enableCompression) {
-          if (targetFormat === 'image/jpeg' || targetFormat === 'image/webp') {
-            quality = 0.92;
-          } else if (targetFormat === 'image/avif') {
-            quality = 0.9;
-          }
-        }
-        
-        canvas.toBlob(
-          (blob) => {
-            if (blob && blob.size > 0) {
-              resolve(blob);
-            } else {
-              // Blob 生成失败，尝试回退到 PNG
-              console.warn(`${targetFormat} 生成失败，回退到 PNG`);
-              canvas.toBlob(
-                (pngBlob) => {
-                  if (pngBlob) {
-                    resolve(pngBlob);
-                  } else {
-                    reject(new Error('图片转换失败，请尝试其他格式'));
-                  }
-                },
-                'image/png',
-                1.0
-              );
-            }
-          },
-          targetFormat,
-          quality
-        );
-      } catch (err) {
-        URL.revokeObjectURL(url);
-        reject(new Error('图片处理出错：' + (err instanceof Error ? err.message : '未知错误')));
-      }
+      signal?.removeEventListener('abort', handleAbort);
+      // 延迟释放 ObjectURL，确保移动端完成绘制
+      setTimeout(() => URL.revokeObjectURL(url), 100);
+      resolve(img);
     };
     
     img.onerror = () => {
       clearTimeout(timeout);
+      signal?.removeEventListener('abort', handleAbort);
       URL.revokeObjectURL(url);
       reject(new Error('图片加载失败，请检查文件是否损坏'));
     };
@@ -246,25 +276,148 @@ const convertImage = async (
 };
 
 /**
- * 使用 browser-image-compression 进行无损压缩
+ * SVG 按 DPI 与尺寸设置直接渲染到目标尺寸，流水线不再缩放
+ * 裁剪时整张 SVG 按裁剪区域的目标缩放比例栅格化，再由流水线取出区域
+ */
+const rasterizeSvgOnMainThread = async (
+  file: File,
+  options: WorkerTaskOptions,
+  signal?: AbortSignal,
+  onProgress?: (progress: ProcessProgress) => void
+): Promise<PipelineResult> => {
+  try {
+    const svg = await parseSvg(file);
+    const density = (options.resize.svgDpi ?? SVG_BASE_DPI) / SVG_BASE_DPI;
+    const crop = options.crop ?? { x: 0, y: 0, width: svg.width, height: svg.height };
+    // SVG 没有方向标签，尺寸设置按旋转后的方向计算
+    const transform = options.transform ?? identityTransform;
+    const cropSize = transformSize(crop, transform);
+    const layout = calculateResizeLayout(cropSize.width * density, cropSize.height * density, options.resize);
+    const expected = { width: Math.max(1, Math.round(layout.width)), height: Math.max(1, Math.round(layout.height)) };
+    // cover / contain 时只按图片所在区域栅格化，输出画布与留白交给流水线
+    const content = getFrameRect(layout.frame, expected.width, expected.height);
+    const scaled = transformSize(content, invertTransform(transform));
+    const full = {
+      width: Math.max(1, Math.round((svg.width * scaled.width) / crop.width)),
+      height: Math.max(1, Math.round((svg.height * scaled.height) / crop.height)),
+    };
+    const { width, height } = limitDimensions(full.width, full.height);
+    const image = await loadImageElement(serializeSvg(svg, width, height), signal);
+    const region = options.crop && scaleCrop(options.crop, svg, { width, height });
+
+    const rasterized = transformSize(region ?? { width, height }, transform);
+    // 栅格化受像素上限限制时，输出画布同比缩小
+    const ratio = rasterized.width / content.width;
+    const actual = layout.frame
+      ? { width: Math.max(1, Math.round(expected.width * ratio)), height: Math.max(1, Math.round(expected.height * ratio)) }
+      : rasterized;
+    const resize: ResizeOptions = layout.frame
+      ? { ...options.resize, resizeMode: 'custom', ...actual }
+      : { resizeMode: 'none' };
+
+    const result = await runPipeline(
+      { image, width, height, mimeType: file.type, file },
+      { ...options, crop: region, resize },
+      { createCanvas: createDomCanvas, useWebWorker: true, signal, onProgress }
+    );
+    // 栅格化尺寸已在此处限制，流水线只能发现目标体积引起的缩小
+    return actual.width === expected.width && actual.height === expected.height
+      ? result
+      : {
+          ...result,
+          dimensionChange: {
+            expected,
+            actual: result.dimensionChange?.actual ?? { width: actual.width, height: actual.height },
+            reason: '超出内存允许的像素上限，已等比缩小',
+          },
+        };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new Error('图片处理出错：' + (err instanceof Error ? err.message : '未知错误'));
+  }
+};
+
+/**
+ * 在主线程执行解码与处理流水线
+ */
+const processOnMainThread = async (
+  file: File,
+  options: WorkerTaskOptions,
+  signal?: AbortSignal,
+  onProgress?: (progress: ProcessProgress) => void
+): Promise<PipelineResult> => {
+  onProgress?.({ stage: 'decode', percent: getStageProgress('decode') });
+
+  if (file.type === 'image/svg+xml') {
+    return rasterizeSvgOnMainThread(file, options, signal, onProgress);
+  }
+
+  // 浏览器无法原生解码的格式改用注册的解码器，解码结果转为位图
+  const decoded = await decodeSource(file, options.page, signal);
+  // 与 Worker 一致，位图按 EXIF 方向旋转；<img> 绘制时同样按 EXIF 方向（image-orientation 默认为 from-image）
+  const image = decoded
+    ? await createImageBitmap(decoded, { imageOrientation: 'from-image' })
+    : await loadImageElement(file, signal);
+  const width = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const height = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+
+  try {
+    return await runPipeline(
+      { image, width, height, mimeType: file.type, file },
+      options,
+      { createCanvas: createDomCanvas, useWebWorker: true, signal, onProgress }
+    );
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new Error('图片处理出错：' + (err instanceof Error ? err.message : '未知错误'));
+  } finally {
+    if (!(image instanceof HTMLImageElement)) image.close();
+  }
+};
+
+/**
+ * 浏览器未给出图片类型时（常见于 HEIC、PSD）按文件头识别并补全 type
  */
-const compressImage = async (file: File | Blob): Promise<Blob> => {
-  // 动态导入避免 SSR 问题
-  const imageCompression = (await import('browser-image-compression')).default;
-  
-  const options = {
-    maxSizeMB: 10, // 最大文件大小
-    maxWidthOrHeight: 4096, // 最大宽高
-    useWebWorker: true,
-    preserveExif: true,
-    // 无损压缩：使用较高的质量值
-    initialQuality: 0.95,
-  };
-  
-  const fileToCompress = file instanceof File ? file : new File([file], 'image.png', { type: file.type });
-  return await imageCompression(fileToCompress, options);
+const normalizeFileType = async (file: File): Promise<File> => {
+  if (file.type.startsWith('image/')) return file;
+
+  const type = await sniffImageType(file)
+    .then((sniffed) => sniffed ?? detectDecoderType(file))
+    .catch(() => null);
+  return type ? new File([file], file.name, { type, lastModified: file.lastModified }) : file;
 };
 
+/**
+ * 由全局设置生成单张图片的设置
+ */
+const createImageSettings = (globalSettings: GlobalSettings): ImageConfig['settings'] => ({
+  format: globalSettings.format,
+  enableCompression: globalSettings.enableCompression,
+  quality: { ...globalSettings.quality },
+  targetSize: { ...globalSettings.targetSize },
+  responsive: {
+    ...globalSettings.responsive,
+    widths: [...globalSettings.responsive.widths],
+    formats: [...globalSettings.responsive.formats],
+  },
+  mode: globalSettings.mode,
+  metadata: globalSettings.metadata,
+  autoOrient: globalSettings.autoOrient,
+  watermark: { ...globalSettings.watermark },
+  scale: globalSettings.scale,
+  width: globalSettings.width,
+  height: globalSettings.height,
+  fit: globalSettings.fit,
+  gravity: globalSettings.gravity,
+  resizeGuard: globalSettings.resizeGuard,
+  padColor: globalSettings.padColor,
+  svgDpi: globalSettings.svgDpi,
+  resampling: globalSettings.resampling,
+  sharpen: { ...globalSettings.sharpen },
+  matte: globalSettings.matte,
+  keepTransparency: globalSettings.keepTransparency,
+});
+
 /**
  * Zustand 图片状态管理
  */
@@ -272,13 +425,17 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
   images: [],
   globalSettings: defaultGlobalSettings,
   isProcessing: false,
+  isPaused: false,
+  queueStats: emptyQueueStats,
+  batchStartedAt: null,
 
   /**
    * 添加图片文件（使用 FileReader 生成 Base64 预览，移动端兼容性更好）
    */
   addFiles: async (files: File[]) => {
     const { globalSettings } = get();
-    const validFiles = files.filter((file) => file.type.startsWith('image/'));
+    const normalizedFiles = await Promise.all(files.filter(isImageFile).map(normalizeFileType));
+    const validFiles = normalizedFiles.filter((file) => file.type.startsWith('image/'));
     
     // 使用 FileReader 将文件转换为 Base64 Data URL
     const fileToDataUrl = (file: File): Promise<string> => {
@@ -294,32 +451,44 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
     const previewUrls = await Promise.all(
       validFiles.map((file) => fileToDataUrl(file).catch(() => ''))
     );
+    const dimensions = await Promise.all(
+      validFiles.map((file) => (file.type === 'image/svg+xml' ? readSvgDimensions(file) : readImageDimensions(file)))
+    );
+    const pageCounts = await Promise.all(validFiles.map((file) => countPages(file).catch(() => 1)));
+    const orientations = await Promise.all(validFiles.map(async (file) => getOrientation(await readMetadata(file))));
     
-    const newImages: ImageConfig[] = validFiles.map((file, index) => ({
-      id: generateId(),
-      file,
-      previewUrl: previewUrls[index] || '',
-      status: 'idle' as ProcessStatus,
-      settings: {
-        format: globalSettings.format,
-        enableCompression: globalSettings.enableCompression,
-        mode: globalSettings.mode,
-        maintainAspectRatio: globalSettings.maintainAspectRatio,
-        scale: globalSettings.scale,
-        width: globalSettings.width,
-        height: globalSettings.height,
-      },
-    }));
+    // 多页文件按页展开
+    const newImages: ImageConfig[] = validFiles.flatMap((file, index) =>
+      Array.from({ length: pageCounts[index] }, (_, page) => ({
+        id: generateId(),
+        file,
+        previewUrl: previewUrls[index] || '',
+        dimensions: dimensions[index] ?? undefined,
+        orientation: orientations[index],
+        page: pageCounts[index] > 1 ? { index: page, count: pageCounts[index] } : undefined,
+        status: 'idle' as ProcessStatus,
+        settings: createImageSettings(globalSettings),
+      }))
+    );
     
     set((state) => ({
       images: [...state.images, ...newImages],
     }));
+
+    // 逐个文件检测透明像素，避免同时解码大量图片；多页文件的各页共用结果
+    for (const [index, file] of validFiles.entries()) {
+      const hasAlpha = await detectAlpha(file, dimensions[index] ?? undefined);
+      set((state) => ({
+        images: state.images.map((img) => (img.file === file ? { ...img, hasAlpha } : img)),
+      }));
+    }
   },
 
   /**
    * 移除图片
    */
   removeImage: (id: string) => {
+    abortControllers.get(id)?.abort();
     set((state) => {
       const image = state.images.find((img) => img.id === id);
       if (image) {
@@ -356,6 +525,63 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
     }));
   },
 
+  /**
+   * 将指定图片的裁剪区域按相对位置应用到所有图片，尺寸未知的图片跳过
+   * 相对位置按各图片旋转后的显示方向换算，横竖方向不同的照片也裁剪同一处
+   */
+  applyCropToAll: (id: string) => {
+    const source = get().images.find((img) => img.id === id);
+    if (!source?.dimensions) return;
+    const { crop } = source.settings;
+    const getView = (img: ImageConfig) =>
+      getViewTransform(img.orientation, img.settings.autoOrient, img.settings.transform);
+    const from = transformSize(source.dimensions, getView(source));
+    const relative = crop && transformRect(crop, source.dimensions, getView(source));
+
+    // 换算到目标图片的显示方向后再转回存储方向
+    const cropFor = (img: ImageConfig, dimensions: NonNullable<ImageConfig['dimensions']>) => {
+      if (!relative) return undefined;
+      const view = getView(img);
+      const to = transformSize(dimensions, view);
+      return transformRect(scaleCrop(relative, from, to), to, invertTransform(view));
+    };
+
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id || !img.dimensions
+          ? img
+          : {
+              ...img,
+              settings: { ...img.settings, crop: cropFor(img, img.dimensions) },
+              status: 'idle' as ProcessStatus,
+              result: undefined,
+            }
+      ),
+    }));
+  },
+
+  /**
+   * 将指定图片的颜色调整应用到所有图片
+   */
+  applyAdjustmentsToAll: (id: string) => {
+    const source = get().images.find((img) => img.id === id);
+    if (!source) return;
+    const { adjustments } = source.settings;
+
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id
+          ? img
+          : {
+              ...img,
+              settings: { ...img.settings, adjustments: adjustments && { ...adjustments } },
+              status: 'idle' as ProcessStatus,
+              result: undefined,
+            }
+      ),
+    }));
+  },
+
   /**
    * 将全局设置应用到所有图片
    */
@@ -366,13 +592,7 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
         ...img,
         settings: {
           ...img.settings,
-          format: globalSettings.format,
-          enableCompression: globalSettings.enableCompression,
-          mode: globalSettings.mode,
-          maintainAspectRatio: globalSettings.maintainAspectRatio,
-          scale: globalSettings.scale,
-          width: globalSettings.width,
-          height: globalSettings.height,
+          ...createImageSettings(globalSettings),
         },
         status: 'idle' as ProcessStatus,
         result: undefined,
@@ -386,44 +606,84 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
   processSingleImage: async (id: string) => {
     const { images } = get();
     const image = images.find((img) => img.id === id);
-    if (!image) return;
+    // 同一张图片正在处理时忽略重复请求
+    if (!image || abortControllers.has(id)) return;
+
+    const controller = new AbortController();
+    abortControllers.set(id, controller);
 
     // 设置处理中状态
     set((state) => ({
       images: state.images.map((img) =>
-        img.id === id ? { ...img, status: 'processing' as ProcessStatus } : img
+        img.id === id
+          ? { ...img, status: 'processing' as ProcessStatus, progress: { stage: 'decode', percent: 0 } }
+          : img
       ),
     }));
 
+    // 记录阶段进度
+    const handleProgress = (progress: ProcessProgress) => {
+      set((state) => ({
+        images: state.images.map((img) => (img.id === id ? { ...img, progress } : img)),
+      }));
+    };
+
     try {
-      let resultBlob: Blob;
+      let pipelineResult: PipelineResult;
       const { globalSettings } = get();
-      const { mode, format, enableCompression, scale, width, height, maintainAspectRatio } = image.settings;
-
-      // 构建尺寸调整选项
-      const resizeOptions: ResizeOptions = {
-        resizeMode: globalSettings.resizeMode,
-        scale,
-        width,
-        height,
-        maintainAspectRatio,
+      const { mode, enableCompression, quality, targetSize, responsive } = image.settings;
+      // 含透明像素的图片按设置改用支持透明的格式
+      const format =
+        image.settings.keepTransparency && image.hasAlpha && !supportsTransparency(image.settings.format)
+          ? 'image/webp'
+          : image.settings.format;
+      const useResponsive =
+        responsive.enabled && mode !== 'compress' && responsive.widths.length > 0 && responsive.formats.length > 0;
+
+      // 构建处理参数：仅压缩模式按原格式解析质量
+      const options: WorkerTaskOptions = {
+        type: mode,
+        format,
+        enableCompression,
+        quality: resolveQuality(mode === 'compress' ? getSourceFormat(image.file.type) : format, quality),
+        resize: getResizeOptions(image.settings, globalSettings.resizeMode),
+        crop: image.settings.crop,
+        autoOrient: image.settings.autoOrient,
+        transform: image.settings.transform,
+        resampling: image.settings.resampling,
+        sharpen: image.settings.sharpen.enabled ? image.settings.sharpen : undefined,
+        adjustments: image.settings.adjustments,
+        watermark: image.settings.watermark,
+        matte: image.settings.matte,
+        metadata: image.settings.metadata,
+        page: image.page?.index,
+        targetSize: targetSize.enabled && targetSize.kilobytes > 0 && !useResponsive
+          ? { bytes: targetSize.kilobytes * 1024, allowDownscale: targetSize.allowDownscale }
+          : undefined,
+        responsive: useResponsive
+          ? {
+              widths: responsive.widths,
+              formats: responsive.formats.map((item) => ({ format: item, quality: resolveQuality(item, quality) })),
+              baseName: getExportBaseName(image),
+            }
+          : undefined,
       };
 
-      if (mode === 'convert') {
-        // 仅格式转换（包含尺寸调整）
-        resultBlob = await convertImage(image.file, format, false, resizeOptions);
-      } else if (mode === 'compress') {
-        // 仅压缩（包含尺寸调整）
-        const resized = await convertImage(image.file, image.file.type, false, resizeOptions);
-        resultBlob = await compressImage(resized);
+      if (canProcessInWorker(image.file)) {
+        // 解码、尺寸调整、编码和压缩全部在 Worker 中完成
+        pipelineResult = await processInWorker(id, image.file, options, handleProgress, controller.signal);
       } else {
-        // 两者都做：先转换（含尺寸调整）再压缩
-        const converted = await convertImage(image.file, format, enableCompression, resizeOptions);
-        if (enableCompression) {
-          resultBlob = await compressImage(converted);
-        } else {
-          resultBlob = converted;
-        }
+        pipelineResult = await processOnMainThread(image.file, options, controller.signal, handleProgress);
+      }
+      const { blob: resultBlob } = pipelineResult;
+
+      // 以文件头识别实际输出格式，未记录的格式变化同样视为回退
+      const mimeType = (await sniffImageType(resultBlob)) ?? resultBlob.type;
+      // 响应式图片集包含多种格式，只记录编码时发生的回退
+      const expectedType = useResponsive ? null : mode === 'compress' ? image.file.type : format;
+      const fallbacks = [...pipelineResult.fallbacks];
+      if (expectedType && mimeType !== expectedType && !fallbacks.some((fallback) => !fallback.stillFrame && fallback.to === mimeType)) {
+        fallbacks.push({ from: expectedType, to: mimeType });
       }
 
       // 使用 FileReader 将 Blob 转换为 Base64 Data URL（移动端兼容性更好）
@@ -437,6 +697,7 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
       };
 
       const resultUrl = await blobToDataUrl(resultBlob);
+      throwIfAborted(controller.signal);
       const compressionRatio = 1 - resultBlob.size / image.file.size;
 
       set((state) => ({
@@ -445,29 +706,41 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
             ? {
                 ...img,
                 status: 'done' as ProcessStatus,
+                progress: undefined,
                 result: {
                   blob: resultBlob,
                   url: resultUrl,
                   size: resultBlob.size,
                   originalSize: image.file.size,
                   compressionRatio,
+                  targetSize: pipelineResult.targetSize,
+                  mimeType,
+                  fallbacks,
+                  dimensionChange: pipelineResult.dimensionChange,
+                  files: pipelineResult.files,
                 },
               }
             : img
         ),
       }));
     } catch (error) {
+      const cancelled = isAbortError(error);
       set((state) => ({
         images: state.images.map((img) =>
           img.id === id
             ? {
                 ...img,
-                status: 'error' as ProcessStatus,
-                errorMessage: error instanceof Error ? error.message : '处理失败',
+                status: (cancelled ? 'cancelled' : 'error') as ProcessStatus,
+                progress: undefined,
+                errorMessage: cancelled
+                  ? undefined
+                  : error instanceof Error ? error.message : '处理失败',
               }
             : img
         ),
       }));
+    } finally {
+      abortControllers.delete(id);
     }
   },
 
@@ -475,15 +748,71 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
    * 批量处理所有图片
    */
   processImages: async () => {
-    const { images, processSingleImage } = get();
-    set({ isProcessing: true });
+    const { images, globalSettings, isProcessing, processSingleImage } = get();
+    if (isProcessing) return;
+    set({ isProcessing: true, isPaused: false, queueStats: emptyQueueStats, batchStartedAt: Date.now() });
 
     const pendingImages = images.filter((img) => img.status !== 'done');
-    
-    // 并行处理所有图片
-    await Promise.all(pendingImages.map((img) => processSingleImage(img.id)));
 
-    set({ isProcessing: false });
+    // 有界并发 + 内存预算调度，避免同时解码所有图片；在主线程处理的图片（SVG 等）逐张进行
+    const queue = createProcessingQueue({
+      concurrency: isWorkerSupported() ? getPoolSize() : 1,
+      memoryBudget: getMemoryBudget(),
+      onChange: (queueStats) => set({ queueStats }),
+    });
+    activeQueue = queue;
+
+    await Promise.all(
+      pendingImages.map((img) => {
+        const cost = estimateImageCost(img, getResizeOptions(img.settings, globalSettings.resizeMode));
+        const serial = !canProcessInWorker(img.file);
+        return queue.enqueue(cost, () => processSingleImage(img.id), { serial }).catch(() => {
+          // 排队中被取消的图片
+          set((state) => ({
+            images: state.images.map((item) =>
+              item.id === img.id ? { ...item, status: 'cancelled' as ProcessStatus } : item
+            ),
+          }));
+        });
+      })
+    );
+
+    activeQueue = null;
+    set({ isProcessing: false, isPaused: false, batchStartedAt: null });
+  },
+
+  /**
+   * 暂停批量处理（进行中的图片会继续完成）
+   */
+  pauseProcessing: () => {
+    if (!activeQueue) return;
+    activeQueue.pause();
+    set({ isPaused: true });
+  },
+
+  /**
+   * 恢复批量处理
+   */
+  resumeProcessing: () => {
+    if (!activeQueue) return;
+    activeQueue.resume();
+    set({ isPaused: false });
+  },
+
+  /**
+   * 停止处理：清空队列并取消所有进行中的图片
+   */
+  cancelProcessing: () => {
+    activeQueue?.cancel();
+    abortControllers.forEach((controller) => controller.abort());
+    set({ isPaused: false });
+  },
+
+  /**
+   * 取消单张图片的处理
+   */
+  cancelImage: (id: string) => {
+    abortControllers.get(id)?.abort();
   },
 
   /**
@@ -495,14 +824,13 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
 
     if (doneImages.length === 0) return;
 
-    if (doneImages.length === 1) {
+    // 多文件输出（如 Favicon 套件）总是打包
+    if (doneImages.length === 1 && !doneImages[0].result?.files) {
       // 单张图片直接下载
       const img = doneImages[0];
       if (!img.result) return;
       
-      const baseName = img.file.name.replace(/\.[^/.]+$/, '');
-      const ext = getExtension(img.settings.format);
-      const fileName = `${sanitizeFileName(baseName)}_purepixel.${ext}`;
+      const fileName = getExportFileName(img);
       
       const link = document.createElement('a');
       link.href = img.result.url;
@@ -515,11 +843,15 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
       for (const img of doneImages) {
         if (!img.result) continue;
         
-        const baseName = img.file.name.replace(/\.[^/.]+$/, '');
-        const ext = getExtension(img.settings.format);
-        const fileName = `${sanitizeFileName(baseName)}_purepixel.${ext}`;
+        const fileName = getExportFileName(img);
         
-        zip.file(fileName, img.result.blob);
+        if (img.result.files) {
+          // 多文件输出放在以导出文件名命名的目录中
+          const folder = zip.folder(fileName.replace(/\.[^/.]+$/, ''));
+          img.result.files.forEach((file) => folder?.file(file.name, file.blob));
+        } else {
+          zip.file(fileName, img.result.blob);
+        }
       }
       
       const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -538,7 +870,8 @@ export const useImageStore = create<AppState & AppActions>((set, get) => ({
    * 清除所有图片
    */
   clearAll: () => {
-    const { images } = get();
+    const { images, cancelProcessing } = get();
+    cancelProcessing();
     
     // 清理所有 ObjectURL
     images.forEach((img) => {
@@ -8,12 +8,173 @@ export type ImageFormat =
   | "image/png"
   | "image/webp"
   | "image/avif"
-  | "image/gif";
+  | "image/gif"
+  // Favicon 套件：多尺寸 favicon.ico 及配套 PNG 图标、清单
+  | "image/x-icon";
+
+/**
+ * 各输出格式的编码质量（0-1），仅对有损格式生效
+ */
+export type QualitySettings = Partial<Record<ImageFormat, number>>;
+
+/**
+ * 目标体积设置：自动搜索质量（可选缩小尺寸）使输出不超过指定大小
+ */
+export interface TargetSizeSettings {
+  enabled: boolean;
+  kilobytes: number;
+  allowDownscale: boolean;
+}
+
+/**
+ * 响应式图片集：每张图片按多个宽度与格式输出，并生成 <picture> 代码
+ */
+export interface ResponsiveSettings {
+  enabled: boolean;
+  widths: number[];
+  formats: ImageFormat[];
+}
+
+/**
+ * 元数据（EXIF、XMP、ICC）处理策略
+ * keep：全部保留；strip-private：移除位置与设备信息，保留版权与色彩配置；strip：全部移除
+ */
+export type MetadataPolicy = "keep" | "strip-private" | "strip";
+
+/**
+ * 颜色调整，各项为 0（色调为 none）时不改变像素
+ */
+export interface ColorAdjustments {
+  // -100 ~ 100
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // 曝光补偿（EV），-2 ~ 2
+  exposure: number;
+  // 白平衡色温，负值偏冷、正值偏暖，-100 ~ 100
+  temperature: number;
+  tone: "none" | "grayscale" | "sepia";
+}
+
+/**
+ * 九宫格位置：水印的放置位置、尺寸调整时的对齐方式
+ */
+export type Anchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+/**
+ * 水印设置：在尺寸调整之后绘制，字号、Logo 宽度与边距均相对输出宽度，随尺寸设置等比缩放
+ */
+export interface WatermarkSettings {
+  enabled: boolean;
+  type: "text" | "image";
+  text: string;
+  // CSS 字体族
+  font: string;
+  // 字号，输出宽度的百分比
+  fontSize: number;
+  color: string;
+  // 不透明度（0-1）
+  opacity: number;
+  // 顺时针旋转角度
+  rotation: number;
+  // 上传的 Logo（PNG）
+  image?: Blob;
+  // Logo 宽度，输出宽度的百分比
+  imageWidth: number;
+  // anchor：按九宫格位置放置一个；tile：平铺整张图片
+  layout: "anchor" | "tile";
+  anchor: Anchor;
+  // 与边缘的距离（平铺时为间距），输出宽度的百分比
+  margin: number;
+}
+
+/**
+ * 顺时针旋转角度
+ */
+export type Rotation = 0 | 90 | 180 | 270;
+
+/**
+ * 旋转与翻转：先顺时针旋转，再水平翻转（垂直翻转等价于旋转 180° 后水平翻转）
+ */
+export interface ImageTransform {
+  rotate: Rotation;
+  flip: boolean;
+}
+
+/**
+ * 裁剪区域，单位为原图像素（文件中存储的像素方向，不受旋转与方向校正影响）
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 目标体积模式最终采用的质量与尺寸
+ */
+export interface TargetSizeResult {
+  quality: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 输出格式回退记录（如浏览器不支持 AVIF 时改用 WebP）
+ */
+export interface FormatFallback {
+  from: string;
+  to: string;
+  // 动画无法保留，只输出了首帧
+  stillFrame?: boolean;
+}
+
+/**
+ * 非用户指定的尺寸变化（超出内存上限、为达到目标体积而缩小等）
+ */
+export interface DimensionChange {
+  // 按尺寸设置应得到的尺寸
+  expected: { width: number; height: number };
+  // 实际输出尺寸
+  actual: { width: number; height: number };
+  reason: string;
+}
+
+/**
+ * 多文件输出中的单个文件（如 Favicon 套件中的图标与清单）
+ */
+export interface ExportFile {
+  name: string;
+  blob: Blob;
+}
 
 /**
  * 处理状态
  */
-export type ProcessStatus = "idle" | "processing" | "done" | "error";
+export type ProcessStatus = "idle" | "processing" | "done" | "error" | "cancelled";
+
+/**
+ * 处理阶段
+ */
+export type ProcessStage = "decode" | "resize" | "encode" | "compress";
+
+/**
+ * 单张图片的处理进度
+ */
+export interface ProcessProgress {
+  stage: ProcessStage;
+  percent: number; // 0-100，整张图片的总体进度
+}
 
 /**
  * 处理模式
@@ -27,20 +188,62 @@ export interface ImageConfig {
   id: string;
   file: File;
   previewUrl: string; // ObjectURL
+  // 从文件头读取的原始尺寸，无法识别时为空
+  dimensions?: { width: number; height: number };
+  // EXIF 方向（1-8），没有方向标签时为 1
+  orientation: number;
+  // 是否含透明像素，添加后在后台检测，检测完成前或浏览器无法解码时为空
+  hasAlpha?: boolean;
+  // 多页文件（TIFF）中的页，每页作为独立的图片
+  page?: { index: number; count: number };
   status: ProcessStatus;
+  progress?: ProcessProgress;
   errorMessage?: string;
   settings: {
     // 格式转换设置
     format: ImageFormat;
     // 无损压缩开关（独立于格式转换）
     enableCompression: boolean;
+    // 按格式设置的编码质量
+    quality: QualitySettings;
+    // 目标体积
+    targetSize: TargetSizeSettings;
+    // 响应式图片集，开启后代替目标格式与目标体积
+    responsive: ResponsiveSettings;
     // 处理模式：仅转换、仅压缩、两者都做
     mode: ProcessMode;
+    // 元数据处理策略
+    metadata: MetadataPolicy;
     // 尺寸设置
     width?: number;
     height?: number;
-    maintainAspectRatio: boolean;
+    fit: FitMode;
+    // cover 裁切与 contain 留白时图片的对齐位置
+    gravity: Anchor;
+    resizeGuard: ResizeGuard;
+    // contain 留白的颜色，transparent 为透明
+    padColor: string;
     scale?: number; // 0.5x, 1x, 2x 等
+    // 矢量图（SVG）栅格化的 DPI，96 为原始尺寸
+    svgDpi: number;
+    // 缩放算法
+    resampling: ResamplingFilter;
+    // 缩小后的锐化
+    sharpen: SharpenSettings;
+    // 裁剪区域，在尺寸调整之前应用；为空表示不裁剪
+    crop?: CropRect;
+    // 按 EXIF 方向校正像素并将方向标签重置为正常；关闭时忽略方向标签
+    autoOrient: boolean;
+    // 旋转与翻转，在方向校正之后应用；为空表示不变换
+    transform?: ImageTransform;
+    // 水印
+    watermark: WatermarkSettings;
+    // 颜色调整，在尺寸调整之后、水印之前应用；为空表示不调整
+    adjustments?: ColorAdjustments;
+    // 输出格式不支持透明（JPEG）时铺在透明区域下的背景色
+    matte: string;
+    // 含透明像素的图片在目标格式不支持透明时改为输出 WebP
+    keepTransparency: boolean;
   };
   result?: {
     blob: Blob;
@@ -48,6 +251,15 @@ export interface ImageConfig {
     size: number;
     originalSize: number;
     compressionRatio: number; // e.g., 0.65 表示压缩了 65%
+    targetSize?: TargetSizeResult;
+    // 从输出数据文件头识别的实际格式，导出文件名以此为准
+    mimeType: string;
+    // 处理过程中发生的格式回退，为空表示按设置输出
+    fallbacks: FormatFallback[];
+    // 非用户指定的尺寸变化，存在时在卡片上提示
+    dimensionChange?: DimensionChange;
+    // 多文件输出的全部文件，导出时代替 blob 打包到同一目录；blob 仅用于预览与体积统计
+    files?: ExportFile[];
   };
 }
 
@@ -56,18 +268,90 @@ export interface ImageConfig {
  */
 export type ResizeMode = 'none' | 'scale' | 'custom';
 
+/**
+ * 自定义尺寸的适应方式
+ * inside：等比缩放到不超过目标尺寸；outside：等比缩放到不小于目标尺寸；
+ * cover：等比铺满目标尺寸，按对齐位置裁掉多余部分；contain：等比完整显示在目标尺寸内，空白处留白；fill：拉伸到目标尺寸
+ * 只设置一边时，fill 保持另一边不变，其余按宽高比计算
+ */
+export type FitMode = 'inside' | 'outside' | 'cover' | 'contain' | 'fill';
+
+/**
+ * 自定义尺寸的缩放限制：shrink-only 只缩小不放大，enlarge-only 只放大不缩小
+ */
+export type ResizeGuard = 'none' | 'shrink-only' | 'enlarge-only';
+
+/**
+ * 尺寸调整选项（主线程与 Worker 共用）
+ */
+export interface ResizeOptions {
+  resizeMode: ResizeMode;
+  scale?: number;
+  width?: number;
+  height?: number;
+  // 以下为自定义尺寸的选项，缺省为 inside、居中、不限制
+  fit?: FitMode;
+  gravity?: Anchor;
+  guard?: ResizeGuard;
+  // contain 留白的颜色，缺省为透明
+  padColor?: string;
+  // 矢量图（SVG）栅格化的 DPI，先按 DPI 换算基准尺寸再应用缩放或自定义尺寸
+  svgDpi?: number;
+}
+
+/**
+ * 缩放算法：browser 使用 Canvas 内置的缩放，其余按卷积核在 Worker 中重采样
+ */
+export type ResamplingFilter = 'browser' | 'nearest' | 'bilinear' | 'mitchell' | 'lanczos3';
+
+/**
+ * 缩小后的锐化（USM）
+ */
+export interface SharpenSettings {
+  enabled: boolean;
+  // 强度（%），0 ~ 300
+  amount: number;
+  // 高斯模糊半径（px），0.3 ~ 5
+  radius: number;
+  // 与模糊结果的差值小于阈值的像素不锐化，0 ~ 255
+  threshold: number;
+}
+
 /**
  * 全局设置，应用于所有新添加的图片
  */
 export interface GlobalSettings {
   format: ImageFormat;
   enableCompression: boolean;
+  quality: QualitySettings;
+  targetSize: TargetSizeSettings;
+  responsive: ResponsiveSettings;
   mode: ProcessMode;
-  maintainAspectRatio: boolean;
+  metadata: MetadataPolicy;
+  autoOrient: boolean;
+  watermark: WatermarkSettings;
   resizeMode: ResizeMode;
   scale?: number;
   width?: number;
   height?: number;
+  fit: FitMode;
+  gravity: Anchor;
+  resizeGuard: ResizeGuard;
+  padColor: string;
+  svgDpi: number;
+  resampling: ResamplingFilter;
+  sharpen: SharpenSettings;
+  matte: string;
+  keepTransparency: boolean;
+}
+
+/**
+ * 批量处理队列统计
+ */
+export interface QueueStats {
+  queued: number;
+  running: number;
+  finished: number;
 }
 
 /**
@@ -77,6 +361,9 @@ export interface AppState {
   images: ImageConfig[];
   globalSettings: GlobalSettings;
   isProcessing: boolean;
+  isPaused: boolean;
+  queueStats: QueueStats;
+  batchStartedAt: number | null; // 批量处理开始时间，用于估算剩余时间
 }
 
 /**
@@ -90,9 +377,15 @@ export interface AppActions {
     settings: Partial<ImageConfig["settings"]>,
   ) => void;
   updateGlobalSettings: (settings: Partial<GlobalSettings>) => void;
+  applyCropToAll: (id: string) => void;
+  applyAdjustmentsToAll: (id: string) => void;
   applyGlobalSettings: () => void;
   processImages: () => Promise<void>;
   processSingleImage: (id: string) => Promise<void>;
+  pauseProcessing: () => void;
+  resumeProcessing: () => void;
+  cancelProcessing: () => void;
+  cancelImage: (id: string) => void;
   exportImages: () => Promise<void>;
   clearAll: () => void;
 }
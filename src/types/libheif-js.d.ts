@@ -0,0 +1,27 @@
+/**
+ * libheif-js 类型声明（包本身未附带类型）
+ */
+declare module 'libheif-js/wasm-bundle' {
+  export interface HeifDisplayTarget {
+    data: Uint8ClampedArray<ArrayBuffer>;
+    width: number;
+    height: number;
+  }
+
+  export interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(target: HeifDisplayTarget, callback: (result: HeifDisplayTarget | null) => void): void;
+    free(): void;
+  }
+
+  export interface HeifDecoder {
+    decode(buffer: ArrayBuffer | Uint8Array): HeifImage[];
+  }
+
+  const libheif: {
+    HeifDecoder: new () => HeifDecoder;
+  };
+  export default libheif;
+}
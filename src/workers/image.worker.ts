@@ -1,85 +1,88 @@
 /**
  * 图片处理 Web Worker
- * 将耗时的图片转换和压缩操作移至后台线程，避免阻塞主线程
+ * 将耗时的图片解码、尺寸调整、编码和压缩操作移至后台线程，避免阻塞主线程
  */
 
+import type { DimensionChange, ExportFile, FormatFallback, ProcessProgress, ProcessStage, TargetSizeResult } from '@/types';
+import { decodeSource } from '@/lib/decoders';
+import { getStageProgress, isAbortError, throwIfAborted } from '@/lib/imageProcessing';
+import { createOffscreenCanvas, runPipeline, type PipelineOptions } from '@/lib/imagePipeline';
+
 // Worker 消息类型
-export interface WorkerMessage {
-  type: 'convert' | 'compress' | 'both';
+export interface WorkerMessage extends PipelineOptions {
   id: string;
   imageData: ArrayBuffer;
   mimeType: string;
-  format: string;
-  enableCompression: boolean;
+}
+
+// 取消指定任务
+export interface WorkerCancelMessage {
+  type: 'cancel';
+  id: string;
 }
 
 export interface WorkerResponse {
-  type: 'success' | 'error' | 'progress';
+  type: 'success' | 'error' | 'progress' | 'cancelled';
   id: string;
   result?: {
     blob: Blob;
     size: number;
+    targetSize?: TargetSizeResult;
+    fallbacks: FormatFallback[];
+    dimensionChange?: DimensionChange;
+    files?: ExportFile[];
   };
   progress?: number;
+  stage?: ProcessStage;
   error?: string;
 }
 
-// 监听主线程消息
-self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
-  const { type, id, imageData, mimeType, format, enableCompression } = e.data;
-
-  try {
-    // 发送进度更新
-    self.postMessage({ type: 'progress', id, progress: 10 } as WorkerResponse);
-
-    // 创建 Blob 用于处理
-    const blob = new Blob([imageData], { type: mimeType });
-    const imageBitmap = await createImageBitmap(blob);
-
-    self.postMessage({ type: 'progress', id, progress: 30 } as WorkerResponse);
-
-    // 创建 OffscreenCanvas 进行处理
-    const canvas = new OffscreenCanvas(imageBitmap.width, imageBitmap.height);
-    const ctx = canvas.getContext('2d');
+/**
+ * 发送阶段进度
+ */
+const postProgress = (id: string, { stage, percent }: ProcessProgress) => {
+  self.postMessage({ type: 'progress', id, stage, progress: percent } as WorkerResponse);
+};
 
-    if (!ctx) {
-      throw new Error('无法创建 Canvas 上下文');
-    }
+// 进行中任务的取消控制器
+const controllers = new Map<string, AbortController>();
 
-    ctx.drawImage(imageBitmap, 0, 0);
-    imageBitmap.close();
+// 监听主线程消息
+self.onmessage = async (e: MessageEvent<WorkerMessage | WorkerCancelMessage>) => {
+  if (e.data.type === 'cancel') {
+    controllers.get(e.data.id)?.abort();
+    return;
+  }
 
-    self.postMessage({ type: 'progress', id, progress: 50 } as WorkerResponse);
+  const { id, imageData, mimeType, ...options } = e.data;
+  const controller = new AbortController();
+  const { signal } = controller;
+  controllers.set(id, controller);
 
-    // 确定输出格式和质量
-    let outputFormat = format;
-    let quality = 1.0;
+  let imageBitmap: ImageBitmap | null = null;
 
-    if (type === 'convert' || type === 'both') {
-      // 格式转换
-      if (enableCompression) {
-        // 无损压缩使用较高质量
-        if (format === 'image/jpeg' || format === 'image/webp') {
-          quality = 0.92;
-        } else if (format === 'image/avif') {
-          quality = 0.9;
-        }
+  try {
+    // 解码
+    postProgress(id, { stage: 'decode', percent: getStageProgress('decode') });
+    const blob = new Blob([imageData], { type: mimeType });
+    // 浏览器无法原生解码的格式（HEIC、TIFF、PSD 等）先由注册的解码器处理
+    const decoded = await decodeSource(blob, options.page, signal);
+    throwIfAborted(signal);
+    // 按 EXIF 方向旋转像素，与 getSourceTransform 的假设一致（旧版规范的默认值为 none）
+    imageBitmap = await createImageBitmap(decoded ?? blob, { imageOrientation: 'from-image' });
+    throwIfAborted(signal);
+
+    // 尺寸调整、编码与压缩
+    const { blob: resultBlob, targetSize, fallbacks, dimensionChange, files } = await runPipeline(
+      { image: imageBitmap, width: imageBitmap.width, height: imageBitmap.height, mimeType, file: blob },
+      options,
+      {
+        createCanvas: createOffscreenCanvas,
+        useWebWorker: false,
+        signal,
+        onProgress: (progress) => postProgress(id, progress),
       }
-    } else if (type === 'compress') {
-      // 仅压缩，保持原格式
-      outputFormat = mimeType;
-      quality = 0.92;
-    }
-
-    self.postMessage({ type: 'progress', id, progress: 70 } as WorkerResponse);
-
-    // 转换为 Blob
-    const resultBlob = await canvas.convertToBlob({
-      type: outputFormat,
-      quality,
-    });
-
-    self.postMessage({ type: 'progress', id, progress: 90 } as WorkerResponse);
+    );
 
     // 返回结果
     self.postMessage({
@@ -88,13 +91,25 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
       result: {
         blob: resultBlob,
         size: resultBlob.size,
+        targetSize,
+        fallbacks,
+        dimensionChange,
+        files,
       },
     } as WorkerResponse);
   } catch (error) {
+    if (isAbortError(error)) {
+      self.postMessage({ type: 'cancelled', id } as WorkerResponse);
+      return;
+    }
+
     self.postMessage({
       type: 'error',
       id,
       error: error instanceof Error ? error.message : '处理失败',
     } as WorkerResponse);
+  } finally {
+    imageBitmap?.close();
+    controllers.delete(id);
   }
 };